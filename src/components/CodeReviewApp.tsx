@@ -1,12 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { GitBranch, Key, Upload, Play, Download, Eye, Settings, FileText, Github } from 'lucide-react';
-import GitService, { GitRepository } from '../services/gitService';
-import AIService, { AIModel } from '../services/aiService';
+import { GitBranch, Key, Upload, Play, Pause, Square, Download, Eye, Settings, FileText, Github, FolderOpen } from 'lucide-react';
+import GitService, { GitRepository, FileSelectionPreview, GitRepositorySource, DiffTarget } from '../services/gitService';
+import { ReviewSource, DirectoryHandleSource, FileListSource, ArchiveSource, DemoSource } from '../services/reviewSources';
+import { DEFAULT_FILE_SELECTION, SKIP_REASON_LABELS, SkipReason, FileSelectionOptions } from '../services/fileSelection';
+import AIService, {
+  AIModel,
+  CodeIssue,
+  CodeReview,
+  ConnectionTestResult,
+  ConnectionTestStatus,
+  CustomEndpointConfig,
+  FallbackModel,
+  LOCAL_PROVIDER_ID,
+  isLoopbackUrl
+} from '../services/aiService';
 import StandardsService, { UploadedFile } from '../services/standardsService';
-import ReviewService, { ReviewResult, ReviewProgress } from '../services/reviewService';
+import ReviewService, { ReviewResult, ReviewProgress, ReviewEstimate, DEFAULT_FILE_CONCURRENCY, parseReviewResult } from '../services/reviewService';
+import { formatCost, isBudgetEnforceable } from '../services/tokenUsage';
 import ExportService from '../services/exportService';
+import TokenService from '../services/tokenService';
+import ReviewCache from '../services/reviewCache';
+import HistoryService, { HistoryEntry } from '../services/historyService';
+import TriageService, { IssueTriage, SuppressionMode } from '../services/triageService';
+import { BASELINE_FILE, ReviewBaseline, parseBaseline } from '../services/baseline';
+import { RuleSettings, loadRuleSettings, saveRuleSettings } from '../services/codeRules';
 import LogPanel, { LogEntry } from './LogPanel';
 import ReviewResults from './ReviewResults';
+import ReviewHistory from './ReviewHistory';
+import ReviewComparison from './ReviewComparison';
+import ReviewTrends from './ReviewTrends';
+import RuleSettingsPanel from './RuleSettingsPanel';
+
+type SourceType = 'git' | 'local' | 'archive' | 'demo';
+type ReviewMode = 'full' | 'diff' | 'incremental';
+
+const CONNECTION_STATUS_LABELS: Record<ConnectionTestStatus, string> = {
+  ok: '连接正常',
+  'auth-failed': 'API密钥无效或无权限',
+  'cors-blocked': '浏览器跨域被拦截，请配置代理',
+  'model-not-found': '模型不存在',
+  'quota-exceeded': '额度已用尽',
+  'rate-limited': '请求过于频繁',
+  network: '网络不可达',
+  timeout: '连接超时',
+  error: '请求失败'
+};
+
+const CONNECTION_VIA_LABELS: Record<ConnectionTestResult['via'], string> = {
+  direct: '直连',
+  proxy: '代理'
+};
 
 const CodeReviewApp: React.FC = () => {
   // 状态管理
@@ -15,13 +58,64 @@ const CodeReviewApp: React.FC = () => {
   const [selectedBranch, setSelectedBranch] = useState('');
   const [isLoadingBranches, setIsLoadingBranches] = useState(false);
   const [localPath, setLocalPath] = useState('./temp_repos');
+  const [gitLabHosts, setGitLabHosts] = useState('');
+  const [gitToken, setGitToken] = useState('');
+  const [tokenHosts, setTokenHosts] = useState<string[]>([]);
+  const [tokenPassphrase, setTokenPassphrase] = useState('');
+  const [tokenPersistence, setTokenPersistence] = useState(false);
+  const [reviewMode, setReviewMode] = useState<ReviewMode>('full');
+  // 增量审查的基准：本次会话最近完成的审查，或导入的 JSON 报告
+  const [baselineResult, setBaselineResult] = useState<ReviewResult | null>(null);
+  const [pullNumber, setPullNumber] = useState('');
+  const [diffBase, setDiffBase] = useState('');
+  const [diffHead, setDiffHead] = useState('');
+  const [sourceType, setSourceType] = useState<SourceType>('git');
+  const [localSource, setLocalSource] = useState<ReviewSource | null>(null);
+  const [includePatterns, setIncludePatterns] = useState(DEFAULT_FILE_SELECTION.include.join('\n'));
+  const [excludePatterns, setExcludePatterns] = useState(DEFAULT_FILE_SELECTION.exclude.join('\n'));
+  const [maxFiles, setMaxFiles] = useState(DEFAULT_FILE_SELECTION.maxFiles);
+  const [respectGitignore, setRespectGitignore] = useState(DEFAULT_FILE_SELECTION.respectGitignore);
+  const [skipVendored, setSkipVendored] = useState(DEFAULT_FILE_SELECTION.skipVendored);
+  const [selectionPreview, setSelectionPreview] = useState<FileSelectionPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const [aiModels, setAiModels] = useState<AIModel[]>([]);
   const [selectedModel, setSelectedModel] = useState<AIModel | null>(null);
   const [apiKey, setApiKey] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
+  const [fileConcurrency, setFileConcurrency] = useState(DEFAULT_FILE_CONCURRENCY);
+  const [providerConcurrency, setProviderConcurrency] = useState(2);
+  const [providerRpm, setProviderRpm] = useState(60);
+  const [maxAttempts, setMaxAttempts] = useState(3);
+  const [fallbackModels, setFallbackModels] = useState<FallbackModel[]>([]);
+  const [fallbackModelKey, setFallbackModelKey] = useState('');
+  const [fallbackApiKey, setFallbackApiKey] = useState('');
+  const [budget, setBudget] = useState('');
+  const [reviewEstimate, setReviewEstimate] = useState<ReviewEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [streamingEnabled, setStreamingEnabled] = useState(true);
+  const [cacheEnabled, setCacheEnabled] = useState(true);
+  const [suppressionMode, setSuppressionMode] = useState<SuppressionMode>('hide');
+  // 问题基线：不使用 / 代码来源中的基线文件 / 导入的基线文件
+  const [baselineSource, setBaselineSource] = useState<'none' | 'repository' | 'file'>('none');
+  const [issueBaseline, setIssueBaseline] = useState<ReviewBaseline | null>(null);
+  const [ruleSettings, setRuleSettings] = useState<RuleSettings>({});
+  // 缓存条目数；IndexedDB 不可用时为 null
+  const [cacheEntries, setCacheEntries] = useState<number | null>(null);
+  const [customEndpoints, setCustomEndpoints] = useState<CustomEndpointConfig[]>([]);
+  const [customName, setCustomName] = useState('');
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customModelId, setCustomModelId] = useState('');
+  const [customContextWindow, setCustomContextWindow] = useState(8192);
+  const [customApiKeyRequired, setCustomApiKeyRequired] = useState(false);
+  const [localBaseUrl, setLocalBaseUrl] = useState('');
+  const [localContextWindow, setLocalContextWindow] = useState(4096);
+  const [isDiscoveringLocal, setIsDiscoveringLocal] = useState(false);
+  // 审查进行中的实时结果（流式问题逐条追加，文件完成后替换为最终结果）
+  const [liveReviews, setLiveReviews] = useState<CodeReview[]>([]);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'failed'>('idle');
+  const [connectionResult, setConnectionResult] = useState<ConnectionTestResult | null>(null);
   const [connectionMode, setConnectionMode] = useState<'auto' | 'direct' | 'proxy'>('auto');
   const [proxyUrl, setProxyUrl] = useState('');
 
@@ -41,7 +135,9 @@ const CodeReviewApp: React.FC = () => {
   });
 
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [activeTab, setActiveTab] = useState<'input' | 'results' | 'logs'>('input');
+  const [activeTab, setActiveTab] = useState<'input' | 'results' | 'history' | 'logs'>('input');
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyError, setHistoryError] = useState('');
 
   // 服务实例
   const gitService = GitService.getInstance();
@@ -49,12 +145,45 @@ const CodeReviewApp: React.FC = () => {
   const standardsService = StandardsService.getInstance();
   const reviewService = ReviewService.getInstance();
   const exportService = ExportService.getInstance();
+  const tokenService = TokenService.getInstance();
+  const reviewCache = ReviewCache.getInstance();
+  const historyService = HistoryService.getInstance();
+  const triageService = TriageService.getInstance();
+
+  // 基础检查规则配置按项目保存：规范化的 Git 仓库（主机 + 路径）或本地来源名称
+  const ruleProject = sourceType === 'git' ? gitService.getRepositoryKey(gitUrl) : sourceType === 'demo' ? 'demo' : localSource?.label || '';
+
+  useEffect(() => {
+    setRuleSettings(ruleProject ? loadRuleSettings(ruleProject) : {});
+  }, [ruleProject]);
+
+  const updateRuleSettings = (settings: RuleSettings) => {
+    setRuleSettings(settings);
+    if (ruleProject) saveRuleSettings(ruleProject, settings);
+  };
+
+  const refreshCacheEntries = () => {
+    reviewCache.count().then(setCacheEntries, () => setCacheEntries(null));
+  };
+
+  const refreshHistory = () => {
+    historyService.list().then(
+      entries => { setHistoryEntries(entries); setHistoryError(''); },
+      error => setHistoryError(error instanceof Error ? error.message : '未知错误')
+    );
+  };
 
   // 初始化
   useEffect(() => {
     // 获取AI模型列表
     const models = aiService.getAvailableModels();
     setAiModels(models);
+    setCustomEndpoints(aiService.getCustomEndpoints());
+    const localEndpoint = aiService.getLocalEndpoint();
+    setLocalBaseUrl(localEndpoint.baseUrl);
+    setLocalContextWindow(localEndpoint.contextWindow);
+    refreshCacheEntries();
+    refreshHistory();
 
     // 注册进度回调
     reviewService.onProgress((progress) => {
@@ -69,10 +198,18 @@ const CodeReviewApp: React.FC = () => {
           logMessage = progress.currentFile || '正在克隆仓库...';
           break;
         case 'analyzing':
-          logMessage = `正在分析: ${progress.currentFile} (${progress.processedFiles}/${progress.totalFiles})`;
+          logMessage = `正在分析: ${progress.currentFile} (${progress.processedFiles}/${progress.totalFiles}，进行中 ${progress.inFlightFiles?.length ?? 0})`;
+          break;
+        case 'paused':
+          logMessage = '审查已暂停';
+          break;
+        case 'cancelled':
+          logMessage = '审查已取消';
+          logLevel = 'warning';
           break;
         case 'completed':
           logMessage = '代码审查完成！';
+          refreshCacheEntries();
           logLevel = 'info';
           addLog('审查完成，即将跳转到审查结果', 'info');
           setTimeout(() => setActiveTab('results'), 1000);
@@ -92,6 +229,31 @@ const CodeReviewApp: React.FC = () => {
       addLog(message, level, details);
     });
 
+    reviewService.onIssue((filePath, issue) => {
+      setLiveReviews(prev => {
+        const existing = prev.find(review => review.file === filePath);
+        if (!existing) {
+          return [...prev, { file: filePath, issues: [issue], summary: '审查中...' }];
+        }
+        return prev.map(review => review === existing ? { ...review, issues: [...review.issues, issue] } : review);
+      });
+    });
+
+    reviewService.onIssuesReset((filePath, issues) => {
+      setLiveReviews(prev => prev.map(review => review.file === filePath ? { ...review, issues } : review));
+    });
+
+    reviewService.onFileReviewed((review) => {
+      setLiveReviews(prev => [...prev.filter(item => item.file !== review.file), review]);
+    });
+
+    // Git API 频率限制
+    gitService.onRateLimit((info) => {
+      const reset = info.reset ? `，重置于 ${info.reset.toLocaleTimeString('zh-CN')}` : '';
+      const low = info.limit ? info.remaining < info.limit * 0.1 : info.remaining < 10;
+      addLog('Git API 剩余配额', low ? 'warning' : 'debug', `${info.host}: ${info.remaining}${info.limit ? `/${info.limit}` : ''}${reset}`);
+    });
+
     // 默认连接模式
     aiService.setConnectionMode(connectionMode);
     aiService.setProxyUrl(proxyUrl);
@@ -100,7 +262,7 @@ const CodeReviewApp: React.FC = () => {
   // 添加日志
   const addLog = (message: string, level: LogEntry['level'] = 'info', details?: string) => {
     const newLog: LogEntry = {
-      id: Date.now().toString(),
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       timestamp: new Date(),
       level,
       message,
@@ -130,13 +292,271 @@ const CodeReviewApp: React.FC = () => {
       setSelectedBranch(repo.branches[0]?.name || '');
       addLog(`成功获取${repo.branches.length}个分支`, 'info');
     } catch (error) {
-      addLog(`获取分支失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
-      alert('获取分支失败，请检查仓库地址是否正确');
+      const message = error instanceof Error ? error.message : '未知错误';
+      addLog(`获取分支失败: ${message}`, 'error');
+      alert(`获取分支失败：${message}`);
     } finally {
       setIsLoadingBranches(false);
     }
   };
 
+  // 保存当前仓库主机的访问令牌
+  const saveGitToken = async () => {
+    const host = gitService.getHostForUrl(gitUrl);
+    if (!host) {
+      alert('请先输入有效的Git仓库地址');
+      return;
+    }
+    try {
+      await tokenService.setToken(host, gitToken);
+      setTokenHosts(tokenService.listHosts());
+      setGitToken('');
+      addLog(gitToken.trim() ? `已保存访问令牌: ${host}` : `已清除访问令牌: ${host}`, 'info');
+    } catch (error) {
+      addLog(`保存访问令牌失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
+  };
+
+  const removeGitToken = async (host: string) => {
+    await tokenService.removeToken(host);
+    setTokenHosts(tokenService.listHosts());
+    addLog(`已删除访问令牌: ${host}`, 'info');
+  };
+
+  // 加密保存令牌到本地；本地已有数据时先用口令解锁
+  const toggleTokenPersistence = async () => {
+    if (tokenPersistence) {
+      tokenService.disablePersistence();
+      setTokenPersistence(false);
+      addLog('已关闭令牌加密保存并清除本地数据', 'info');
+      return;
+    }
+    try {
+      if (tokenService.hasPersistedTokens()) {
+        const hosts = await tokenService.unlock(tokenPassphrase);
+        addLog(`已解锁本地令牌: ${hosts.join(', ') || '无'}`, 'info');
+      } else {
+        await tokenService.enablePersistence(tokenPassphrase);
+        addLog('已开启令牌加密保存', 'info');
+      }
+      setTokenPersistence(true);
+      setTokenHosts(tokenService.listHosts());
+      setTokenPassphrase('');
+    } catch (error) {
+      addLog(`令牌加密保存失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+      alert(error instanceof Error ? error.message : '令牌加密保存失败');
+    }
+  };
+
+  // 文件选择规则：模式按换行或逗号分隔
+  const buildFileSelection = (): FileSelectionOptions => {
+    const split = (text: string) => text.split(/[\n,]/).map(p => p.trim()).filter(Boolean);
+    return {
+      include: split(includePatterns),
+      exclude: split(excludePatterns),
+      maxFiles: Math.max(0, Math.floor(maxFiles) || 0),
+      respectGitignore,
+      skipVendored
+    };
+  };
+
+  // 预估 token：代码本身 + 每个请求附带的规范与提示词（大文件分段后每段各一次）
+  const estimatePromptTokens = (preview: FileSelectionPreview): number => {
+    const sizes = preview.selected.flatMap(item => item.size === undefined ? [] : [item.size]);
+    return reviewService.estimatePromptTokens(sizes, standardsContent);
+  };
+
+  // 当前选择的审查源；未就绪时返回 null
+  const buildSource = (): ReviewSource | null => {
+    switch (sourceType) {
+      case 'git':
+        return gitUrl && selectedBranch ? new GitRepositorySource(gitUrl, selectedBranch) : null;
+      case 'demo':
+        return new DemoSource();
+      default:
+        return localSource;
+    }
+  };
+
+  // 选择本地目录（File System Access API）
+  const pickDirectory = async () => {
+    try {
+      const source = await DirectoryHandleSource.pick();
+      setLocalSource(source);
+      setSelectionPreview(null);
+      addLog(`已选择${source.label}`, 'info');
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      addLog(`选择目录失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
+  };
+
+  // 选择本地目录（webkitdirectory 兼容方式）
+  const onDirectoryInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+    const source = new FileListSource(Array.from(files));
+    setLocalSource(source);
+    setSelectionPreview(null);
+    addLog(`已选择${source.label}`, 'info', `${files.length} 个文件`);
+  };
+
+  // 导入导出的 JSON 报告作为增量审查基准
+  const onBaselineChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const result = parseReviewResult(await file.text());
+      setBaselineResult(result);
+      addLog('已导入增量审查基准', 'info', `${result.repository} · ${result.branch}${result.commit ? ` @ ${result.commit}` : ''}`);
+    } catch (error) {
+      addLog(`导入基准报告失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+      alert(error instanceof Error ? error.message : '导入基准报告失败');
+    }
+  };
+
+  // 导入基线文件，后续审查只报告基线之外的问题
+  const onIssueBaselineChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const baseline = parseBaseline(await file.text());
+      setIssueBaseline(baseline);
+      setBaselineSource('file');
+      addLog('已导入基线', 'info', `${baseline.repository || file.name} · ${baseline.issues.length} 个问题`);
+    } catch (error) {
+      addLog(`导入基线失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+      alert(error instanceof Error ? error.message : '导入基线失败');
+    }
+  };
+
+  const onArchiveChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (!ArchiveSource.isSupported(file.name)) {
+      alert('仅支持 .zip / .tar / .tar.gz 压缩包');
+      return;
+    }
+    const source = new ArchiveSource(file);
+    setLocalSource(source);
+    setSelectionPreview(null);
+    addLog(`已选择${source.label}`, 'info');
+  };
+
+  // 预览待审查文件
+  const previewFiles = async () => {
+    const source = buildSource();
+    if (!source) {
+      alert(sourceType === 'git' ? '请输入Git仓库地址并选择分支' : '请先选择本地目录或压缩包');
+      return;
+    }
+    setIsPreviewing(true);
+    try {
+      gitService.setFileSelection(buildFileSelection());
+      const preview = await gitService.previewSource(source);
+      setSelectionPreview(preview);
+      addLog('文件选择预览', 'info', `选中 ${preview.selected.length} 个文件，跳过 ${preview.skipped.length} 个`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '未知错误';
+      addLog(`文件预览失败: ${message}`, 'error');
+      alert(`文件预览失败：${message}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const modelKey = (model: AIModel) => `${model.providerId}:${model.id}`;
+
+  const selectModel = (model: AIModel | null) => {
+    setSelectedModel(model);
+    setConnectionStatus('idle');
+    const limits = model ? aiService.getProviderLimits(model) : null;
+    if (limits) {
+      setProviderConcurrency(limits.concurrency);
+      setProviderRpm(limits.requestsPerMinute);
+    }
+  };
+
+  // 保存自定义 OpenAI 兼容端点（vLLM、Ollama 等），并切换到该模型
+  const saveCustomEndpoint = () => {
+    try {
+      const model = aiService.saveCustomEndpoint({
+        id: Date.now().toString(36),
+        name: customName,
+        baseUrl: customBaseUrl,
+        modelId: customModelId,
+        contextWindow: customContextWindow,
+        apiKeyRequired: customApiKeyRequired
+      });
+      setAiModels(aiService.getAvailableModels());
+      setCustomEndpoints(aiService.getCustomEndpoints());
+      selectModel(model);
+      setCustomName('');
+      setCustomBaseUrl('');
+      setCustomModelId('');
+      addLog('已保存自定义端点', 'info', `${model.provider} · ${model.id}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存失败');
+    }
+  };
+
+  const removeCustomEndpoint = (endpoint: CustomEndpointConfig) => {
+    aiService.removeCustomEndpoint(endpoint.id);
+    setAiModels(aiService.getAvailableModels());
+    setCustomEndpoints(aiService.getCustomEndpoints());
+    if (selectedModel?.providerId === `custom:${endpoint.id}`) selectModel(null);
+    addLog('已删除自定义端点', 'info', endpoint.name);
+  };
+
+  // 连接本地模型服务（Ollama / llama.cpp）并发现已安装的模型
+  const discoverLocalModels = async () => {
+    setIsDiscoveringLocal(true);
+    try {
+      aiService.setLocalEndpoint({ baseUrl: localBaseUrl, contextWindow: localContextWindow });
+      const models = await aiService.discoverLocalModels();
+      setAiModels(aiService.getAvailableModels());
+      if (selectedModel?.providerId === LOCAL_PROVIDER_ID) {
+        selectModel(models.find(m => m.id === selectedModel.id) || models[0] || null);
+      } else if (models.length > 0 && !selectedModel) {
+        selectModel(models[0]);
+      }
+      addLog('本地模型发现完成', 'info', models.length > 0 ? models.map(m => m.id).join(', ') : '服务未安装任何模型');
+    } catch (error) {
+      addLog('本地模型发现失败', 'error', error instanceof Error ? error.message : '未知错误');
+    } finally {
+      setIsDiscoveringLocal(false);
+    }
+  };
+
+  // 添加备用模型：主模型重试耗尽后按列表顺序切换
+  const addFallbackModel = () => {
+    const model = aiModels.find(m => modelKey(m) === fallbackModelKey);
+    if (!model) return;
+    if (!fallbackApiKey && aiService.requiresApiKey(model)) {
+      alert('请输入备用模型的API密钥');
+      return;
+    }
+    setFallbackModels(prev => [...prev.filter(item => modelKey(item.model) !== fallbackModelKey), { model, apiKey: fallbackApiKey }]);
+    setFallbackModelKey('');
+    setFallbackApiKey('');
+  };
+
+  const removeFallbackModel = (key: string) => {
+    setFallbackModels(prev => prev.filter(item => modelKey(item.model) !== key));
+  };
+
+  const clearReviewCache = async () => {
+    try {
+      await reviewCache.clear();
+      addLog('已清空响应缓存', 'info');
+    } catch (error) {
+      addLog(`清空缓存失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
+    refreshCacheEntries();
+  };
+
   // 测试API连接
   const testConnection = async () => {
     if (!selectedModel) {
@@ -144,27 +564,30 @@ const CodeReviewApp: React.FC = () => {
       return;
     }
 
-    if (!apiKey) {
+    if (!apiKey && aiService.requiresApiKey(selectedModel)) {
       alert('请输入API密钥');
       return;
     }
 
     setIsTestingConnection(true);
     setConnectionStatus('idle');
+    setConnectionResult(null);
     addLog('正在测试API连接...', 'info');
 
     try {
       aiService.setApiKey(apiKey);
       aiService.setModel(selectedModel);
       
-      const success = await aiService.testConnection();
+      const result = await aiService.testConnection();
+      setConnectionResult(result);
+      const detail = `${CONNECTION_VIA_LABELS[result.via]} · ${result.latencyMs}ms · ${result.message}`;
       
-      if (success) {
+      if (result.ok) {
         setConnectionStatus('success');
-        addLog('API连接测试成功', 'info');
+        addLog('API连接测试成功', 'info', detail);
       } else {
         setConnectionStatus('failed');
-        addLog('API连接测试失败', 'error');
+        addLog(`API连接测试失败：${CONNECTION_STATUS_LABELS[result.status]}`, 'error', detail);
       }
     } catch (error) {
       setConnectionStatus('failed');
@@ -222,14 +645,91 @@ const CodeReviewApp: React.FC = () => {
   };
 
   // 开始代码审查
-  const startReview = async () => {
-    // 验证输入
-    if (!gitUrl || !selectedBranch) {
+  // 校验代码来源并构建审查源，差异模式同时返回对比目标；校验失败时提示并返回 null
+  const resolveReviewSource = (): { source: ReviewSource; diff?: DiffTarget; previous?: ReviewResult } | null => {
+    const prNumber = Number(pullNumber);
+    const usePullRequest = reviewMode === 'diff' && Number.isInteger(prNumber) && prNumber > 0;
+    const headRef = diffHead || selectedBranch;
+    const isGit = sourceType === 'git';
+    if (isGit && (!gitUrl || (!selectedBranch && !usePullRequest))) {
       alert('请输入Git仓库地址并选择分支');
+      return null;
+    }
+
+    if (!isGit && !buildSource()) {
+      alert('请先选择本地目录或压缩包');
+      return null;
+    }
+
+    if (isGit && reviewMode === 'diff' && !usePullRequest && (!diffBase || !headRef)) {
+      alert('差异审查请输入PR编号，或填写基准分支与对比分支');
+      return null;
+    }
+
+    const previous = isGit && reviewMode === 'incremental' ? baselineResult : null;
+    if (isGit && reviewMode === 'incremental' && !previous) {
+      alert('增量审查需要基准：请先完成一次审查，或导入之前导出的 JSON 报告');
+      return null;
+    }
+
+    // 设置本地存储路径与文件选择规则
+    gitService.setLocalStoragePath(localPath);
+    gitService.setFileSelection(buildFileSelection());
+
+    const diff = isGit && reviewMode === 'diff'
+      ? (usePullRequest ? { pullNumber: prNumber } : { base: diffBase, head: headRef })
+      : undefined;
+    const source = diff
+      ? new GitRepositorySource(gitUrl, usePullRequest ? `PR #${prNumber}` : headRef)
+      : buildSource();
+    return { source, diff, previous: previous || undefined };
+  };
+
+  // 本地模型不计费、未配置价格的模型费用按 0 计，选用这些模型（含备用模型）时不能设置费用上限
+  const unpricedModels = [selectedModel, ...fallbackModels.map(item => item.model)]
+    .filter(model => model && !isBudgetEnforceable(model));
+  const budgetDisabled = unpricedModels.length > 0;
+
+  // 费用上限（美元），留空表示不限制
+  const parseBudget = (): number | undefined => {
+    if (budgetDisabled) return undefined;
+    const value = parseFloat(budget);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  // 审查前预估 token 与费用
+  const estimateReview = async () => {
+    if (!selectedModel) {
+      alert('请选择AI模型');
       return;
     }
+    if (!standardsContent) {
+      alert('请上传开发规范文档或使用示例规范');
+      return;
+    }
+    const target = resolveReviewSource();
+    if (!target) return;
 
-    if (!selectedModel || !apiKey) {
+    setIsEstimating(true);
+    try {
+      aiService.setModel(selectedModel);
+      aiService.setFallbackModels(fallbackModels);
+      const estimate = await reviewService.estimateReview(target.source, standardsContent, { diff: target.diff, previous: target.previous });
+      setReviewEstimate(estimate);
+      addLog('费用预估', 'info', `${estimate.files} 个文件 · ${estimate.requests} 次请求 · 输入约 ${estimate.promptTokens} tokens · ${estimate.cost === null ? '模型未配置价格' : `约 ${formatCost(estimate.cost)}（最多 ${formatCost(estimate.maxCost)}）`}`);
+    } catch (error) {
+      addLog(`费用预估失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const startReview = async () => {
+    // 验证输入
+    const target = resolveReviewSource();
+    if (!target) return;
+
+    if (!selectedModel || (!apiKey && aiService.requiresApiKey(selectedModel))) {
       alert('请选择AI模型并输入API密钥');
       return;
     }
@@ -246,26 +746,135 @@ const CodeReviewApp: React.FC = () => {
 
     setIsReviewing(true);
     setReviewResult(null);
+    setLiveReviews([]);
     setActiveTab('logs');
     addLog('开始执行代码审查...', 'info');
 
     try {
-      // 设置本地存储路径
-      gitService.setLocalStoragePath(localPath);
-      
-      const result = await reviewService.executeReview(gitUrl, selectedBranch, standardsContent);
+      const { source, diff, previous } = target;
+      aiService.setProviderLimits(selectedModel, { concurrency: providerConcurrency, requestsPerMinute: providerRpm });
+      aiService.setRetryPolicy({ ...aiService.getRetryPolicy(), maxAttempts });
+      aiService.setFallbackModels(fallbackModels);
+      const result = await reviewService.executeReview(source, standardsContent, {
+        diff,
+        previous,
+        concurrency: fileConcurrency,
+        budget: parseBudget(),
+        suppression: suppressionMode,
+        rules: ruleSettings,
+        baseline: baselineSource === 'repository' ? 'repository' : baselineSource === 'file' ? issueBaseline || undefined : undefined
+      });
       setReviewResult(result);
-      addLog(`代码审查完成！共分析了${result.summary.totalFiles}个文件，发现${result.summary.totalIssues}个问题`, 'info');
+      saveToHistory(result);
+      if (!result.cancelled && !result.demo && result.mode !== 'diff') setBaselineResult(result);
+      if (result.summary.issueChanges) {
+        const changes = result.summary.issueChanges;
+        addLog('增量对比', 'info', `新增 ${changes.new} · 已修复 ${changes.fixed} · 仍存在 ${changes.persisting}`);
+      }
+      if (result.usage) {
+        addLog('费用统计', 'info', `${result.usage.requests} 次请求 · 输入 ${result.usage.promptTokens} / 输出 ${result.usage.completionTokens} tokens · ${formatCost(result.usage.cost)}${result.usage.estimated ? '（含估算）' : ''}`);
+      }
+      if (result.budgetExceeded) {
+        addLog(`超出费用上限，审查已停止，已完成${result.summary.totalFiles}个文件`, 'warning');
+        if (result.reviews.length > 0) setActiveTab('results');
+      } else if (result.cancelled) {
+        addLog(`代码审查已取消，已完成${result.summary.totalFiles}个文件，发现${result.summary.totalIssues}个问题`, 'warning');
+        if (result.reviews.length > 0) setActiveTab('results');
+      } else {
+        addLog(`代码审查完成！共分析了${result.summary.totalFiles}个文件，发现${result.summary.totalIssues}个问题`, 'info');
+      }
     } catch (error) {
-      addLog(`代码审查失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
-      alert('代码审查失败，请检查配置和网络连接');
+      const message = error instanceof Error ? error.message : '未知错误';
+      addLog(`代码审查失败: ${message}`, 'error');
+      alert(`代码审查失败：${message}`);
     } finally {
       setIsReviewing(false);
     }
   };
 
+  // 保存到审查历史；失败不影响本次结果
+  const saveToHistory = async (result: ReviewResult) => {
+    try {
+      await historyService.save(result);
+      refreshHistory();
+    } catch (error) {
+      addLog(`保存审查历史失败: ${error instanceof Error ? error.message : '未知错误'}`, 'warning');
+    }
+  };
+
+  // 保存问题分诊状态，并同步到当前结果与历史记录
+  const triageIssue = async (file: string, issue: CodeIssue, triage: IssueTriage | null) => {
+    if (!reviewResult) return;
+    try {
+      if (triage) {
+        await triageService.set(reviewResult.repository, file, issue, triage);
+      } else {
+        await triageService.remove(reviewResult.repository, file, issue);
+      }
+    } catch (error) {
+      addLog(`保存分诊状态失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+      return;
+    }
+    const update = (issues?: CodeIssue[]) => issues?.map(item => (item === issue ? { ...item, triage: triage || undefined } : item));
+    const updated: ReviewResult = {
+      ...reviewResult,
+      reviews: reviewResult.reviews.map(review => (review.file !== file ? review : {
+        ...review,
+        issues: update(review.issues),
+        suppressedIssues: update(review.suppressedIssues)
+      }))
+    };
+    setReviewResult(updated);
+    saveToHistory(updated);
+  };
+
+  const openHistory = async (id: string) => {
+    try {
+      const result = await historyService.get(id);
+      if (!result) {
+        alert('该历史记录已不存在');
+        refreshHistory();
+        return;
+      }
+      setReviewResult(result);
+      setActiveTab('results');
+    } catch (error) {
+      addLog(`读取审查历史失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
+  };
+
+  const deleteHistory = async (id: string) => {
+    if (!window.confirm('确定删除这条审查记录吗？')) return;
+    try {
+      await historyService.delete(id);
+      addLog('已删除审查历史', 'info', id);
+    } catch (error) {
+      addLog(`删除审查历史失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
+    refreshHistory();
+  };
+
+  const setBaselineFromHistory = async (id: string) => {
+    const result = await historyService.get(id).catch(() => null);
+    if (!result) return;
+    setBaselineResult(result);
+    setReviewMode('incremental');
+    addLog('已设置增量审查基准', 'info', `${result.repository} · ${result.branch}${result.commit ? ` @ ${result.commit}` : ''}`);
+  };
+
+  const importHistory = async (file: File) => {
+    try {
+      const result = await historyService.importJson(await file.text());
+      addLog('已导入审查报告', 'info', `${result.repository} · ${result.startTime.toLocaleString('zh-CN')}`);
+    } catch (error) {
+      addLog(`导入审查报告失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+      alert(error instanceof Error ? error.message : '导入审查报告失败');
+    }
+    refreshHistory();
+  };
+
   // 导出结果
-  const exportResults = (format: 'markdown' | 'html' | 'json') => {
+  const exportResults = (format: 'markdown' | 'html' | 'json' | 'baseline') => {
     if (!reviewResult) return;
 
     try {
@@ -282,6 +891,10 @@ const CodeReviewApp: React.FC = () => {
           exportService.exportToJSON(reviewResult);
           addLog('已导出JSON格式报告', 'info');
           break;
+        case 'baseline':
+          exportService.exportBaseline(reviewResult);
+          addLog(`已生成基线 ${BASELINE_FILE}`, 'info', '提交到仓库根目录，或在后续审查中导入');
+          break;
       }
     } catch (error) {
       addLog(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
@@ -346,6 +959,16 @@ const CodeReviewApp: React.FC = () => {
               >
                 审查结果
               </button>
+              <button
+                onClick={() => setActiveTab('history')}
+                className={`px-4 py-2 rounded-md text-sm font-medium tap-hover ${
+                  activeTab === 'history'
+                    ? 'bg-white/20 text-white shadow'
+                    : 'text-white/70 hover:text-white'
+                }`}
+              >
+                审查历史
+              </button>
               <button
                 onClick={() => setActiveTab('logs')}
                 className={`px-4 py-2 rounded-md text-sm font-medium tap-hover ${
@@ -369,64 +992,333 @@ const CodeReviewApp: React.FC = () => {
             <div className="glass-card p-6">
               <h2 className="text-xl font-semibold mb-6 flex items-center">
                 <GitBranch className="w-6 h-6 mr-2 text-blue-600" />
-                Git仓库配置
+                代码来源配置
               </h2>
               
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Git仓库地址
+                    代码来源
                   </label>
-                  <div className="flex space-x-2">
+                  <select
+                    value={sourceType}
+                    onChange={(e) => { setSourceType(e.target.value as SourceType); setSelectionPreview(null); }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="git">Git仓库（GitHub / GitLab / Gitee）</option>
+                    <option value="local">本地目录</option>
+                    <option value="archive">压缩包（.zip / .tar.gz）</option>
+                    <option value="demo">演示数据（内置示例代码，结果将标注为演示数据）</option>
+                  </select>
+                </div>
+
+                {sourceType === 'local' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      本地目录
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      {DirectoryHandleSource.isSupported() ? (
+                        <button onClick={pickDirectory} className="btn btn-fetch">
+                          <FolderOpen className="w-4 h-4 mr-2" />
+                          选择目录
+                        </button>
+                      ) : (
+                        <input
+                          type="file"
+                          // @ts-expect-error webkitdirectory 为非标准属性
+                          webkitdirectory=""
+                          multiple
+                          onChange={onDirectoryInputChange}
+                          className="px-3 py-2 border border-gray-300 rounded-md"
+                        />
+                      )}
+                      <span className="text-sm text-gray-600">{localSource?.label || '未选择'}</span>
+                    </div>
+                  </div>
+                )}
+
+                {sourceType === 'archive' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      上传压缩包
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="file"
+                        accept=".zip,.tar,.tar.gz,.tgz"
+                        onChange={onArchiveChange}
+                        className="px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                      <span className="text-sm text-gray-600">{localSource?.label || '未选择'}</span>
+                    </div>
+                  </div>
+                )}
+
+                {sourceType === 'git' && (
+                  <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Git仓库地址
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={gitUrl}
+                        onChange={(e) => setGitUrl(e.target.value)}
+                        placeholder="https://github.com/username/repository.git（支持 GitHub / GitLab / Gitee）"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={fetchBranches}
+                        disabled={isLoadingBranches}
+                        className="btn btn-fetch disabled:opacity-50"
+                      >
+                        {isLoadingBranches ? '获取中...' : '获取分支'}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      自建GitLab地址（可选）
+                    </label>
                     <input
                       type="text"
-                      value={gitUrl}
-                      onChange={(e) => setGitUrl(e.target.value)}
-                      placeholder="https://github.com/username/repository.git"
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={gitLabHosts}
+                      onChange={(e) => {
+                        setGitLabHosts(e.target.value);
+                        gitService.setGitLabHosts(e.target.value.split(','));
+                      }}
+                      placeholder="https://gitlab.example.com，多个地址用逗号分隔"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
-                    <button
-                      onClick={fetchBranches}
-                      disabled={isLoadingBranches}
-                      className="btn btn-fetch disabled:opacity-50"
-                    >
-                      {isLoadingBranches ? '获取中...' : '获取分支'}
-                    </button>
                   </div>
-                </div>
 
-                {repository && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      选择分支
+                      访问令牌（私有仓库 / 提高API限额）
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="password"
+                        value={gitToken}
+                        onChange={(e) => setGitToken(e.target.value)}
+                        placeholder={`为 ${gitService.getHostForUrl(gitUrl) || '当前主机'} 设置 Personal Access Token`}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button onClick={saveGitToken} className="btn btn-secondary">
+                        保存令牌
+                      </button>
+                    </div>
+                    {tokenHosts.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {tokenHosts.map(host => (
+                          <span key={host} className="badge badge-info flex items-center space-x-1">
+                            <span>{host}</span>
+                            <button onClick={() => removeGitToken(host)} className="ml-1" title="删除令牌">×</button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="mt-2 flex space-x-2">
+                      <input
+                        type="password"
+                        value={tokenPassphrase}
+                        onChange={(e) => setTokenPassphrase(e.target.value)}
+                        disabled={tokenPersistence}
+                        placeholder={tokenService.hasPersistedTokens() ? '输入口令解锁已保存的令牌' : '加密口令（可选，用于本地保存令牌）'}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      />
+                      <button onClick={toggleTokenPersistence} className="btn btn-mint">
+                        {tokenPersistence ? '关闭加密保存' : (tokenService.hasPersistedTokens() ? '解锁' : '加密保存')}
+                      </button>
+                    </div>
+                  </div>
+
+                  {repository && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        选择分支
+                      </label>
+                      <select
+                        value={selectedBranch}
+                        onChange={(e) => { setSelectedBranch(e.target.value); setSelectionPreview(null); }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {repository.branches.map((branch) => (
+                          <option key={branch.name} value={branch.name}>
+                            {branch.name} {branch.protected && '(受保护)'}
+                          </option>
+                        ))}
+                      </select>
+                      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {repository.branches.map((b) => (
+                          <div key={b.name} className="glass-card p-3 flex items-center justify-between">
+                            <div>
+                              <div className="text-sm font-medium text-white">{b.name}</div>
+                              <div className="text-xs text-white/70">commit {b.commit}</div>
+                            </div>
+                            {b.protected && (
+                              <span className="badge badge-info">受保护</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      审查模式
                     </label>
                     <select
-                      value={selectedBranch}
-                      onChange={(e) => setSelectedBranch(e.target.value)}
+                      value={reviewMode}
+                      onChange={(e) => setReviewMode(e.target.value as ReviewMode)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
-                      {repository.branches.map((branch) => (
-                        <option key={branch.name} value={branch.name}>
-                          {branch.name} {branch.protected && '(受保护)'}
-                        </option>
-                      ))}
+                      <option value="full">全量审查（整个分支）</option>
+                      <option value="diff">差异审查（PR / 两个引用之间的变更）</option>
+                      <option value="incremental">增量审查（对比上次审查，仅审查内容变化的文件）</option>
                     </select>
-                    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                      {repository.branches.map((b) => (
-                        <div key={b.name} className="glass-card p-3 flex items-center justify-between">
-                          <div>
-                            <div className="text-sm font-medium text-white">{b.name}</div>
-                            <div className="text-xs text-white/70">commit {b.commit}</div>
-                          </div>
-                          {b.protected && (
-                            <span className="badge badge-info">受保护</span>
-                          )}
-                        </div>
-                      ))}
-                    </div>
+                    {reviewMode === 'incremental' && (
+                      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                        <span>
+                          基准：
+                          {baselineResult
+                            ? `${baselineResult.branch}${baselineResult.commit ? ` @ ${baselineResult.commit}` : ''} · ${baselineResult.startTime.toLocaleString()} · ${baselineResult.summary.totalFiles} 个文件`
+                            : '无（请先完成一次审查或导入 JSON 报告）'}
+                        </span>
+                        <label className="btn btn-secondary cursor-pointer">
+                          导入基准报告
+                          <input type="file" accept=".json" onChange={onBaselineChange} className="hidden" />
+                        </label>
+                      </div>
+                    )}
+                    {reviewMode === 'diff' && (
+                      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <input
+                          type="text"
+                          value={pullNumber}
+                          onChange={(e) => setPullNumber(e.target.value.trim())}
+                          placeholder="PR编号（可选，如 42）"
+                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={diffBase}
+                          onChange={(e) => setDiffBase(e.target.value.trim())}
+                          disabled={!!pullNumber}
+                          placeholder="基准分支 base，如 main"
+                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                        />
+                        <input
+                          type="text"
+                          value={diffHead}
+                          onChange={(e) => setDiffHead(e.target.value.trim())}
+                          disabled={!!pullNumber}
+                          placeholder={`对比分支 head，默认 ${selectedBranch || '所选分支'}`}
+                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                        />
+                      </div>
+                    )}
+                    {reviewMode === 'diff' && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        仅审查变更行及其上下文，变更行之外的问题将被过滤
+                      </p>
+                    )}
                   </div>
+                  </>
                 )}
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    文件选择
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <textarea
+                      value={includePatterns}
+                      onChange={(e) => { setIncludePatterns(e.target.value); setSelectionPreview(null); }}
+                      rows={3}
+                      placeholder={'包含模式（每行一个），留空则选择所有代码文件\n如 src/**/*.ts'}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                    />
+                    <textarea
+                      value={excludePatterns}
+                      onChange={(e) => { setExcludePatterns(e.target.value); setSelectionPreview(null); }}
+                      rows={3}
+                      placeholder={'排除模式（每行一个）\n如 **/*.test.ts'}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                    />
+                  </div>
+                  <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                    <label className="flex items-center space-x-2">
+                      <span>最多文件数</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={maxFiles}
+                        onChange={(e) => { setMaxFiles(Number(e.target.value)); setSelectionPreview(null); }}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      <span className="text-gray-500">（0 为不限）</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={respectGitignore}
+                        onChange={(e) => { setRespectGitignore(e.target.checked); setSelectionPreview(null); }}
+                        className="rounded"
+                      />
+                      <span>遵循 .gitignore</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={skipVendored}
+                        onChange={(e) => { setSkipVendored(e.target.checked); setSelectionPreview(null); }}
+                        className="rounded"
+                      />
+                      <span>跳过第三方/生成代码</span>
+                    </label>
+                    <button
+                      onClick={previewFiles}
+                      disabled={isPreviewing || (sourceType === 'git' && !repository)}
+                      className="btn btn-secondary disabled:opacity-50"
+                    >
+                      {isPreviewing ? '预览中...' : '预览文件'}
+                    </button>
+                  </div>
+                  {selectionPreview && (
+                    <div className="mt-3 bg-white border rounded-lg p-3 text-sm">
+                      <div className="text-gray-900 font-medium">
+                        将审查 {selectionPreview.selected.length} 个文件 · 约 {(selectionPreview.totalBytes / 1024).toFixed(1)} KB · 预计输入约 {estimatePromptTokens(selectionPreview).toLocaleString()} tokens
+                      </div>
+                      {selectionPreview.unknownSizeCount > 0 && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {selectionPreview.unknownSizeCount} 个文件大小未知，未计入估算
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 mt-1">
+                        跳过：{Object.entries(
+                          selectionPreview.skipped.reduce<Record<string, number>>((acc, item) => {
+                            acc[item.reason] = (acc[item.reason] || 0) + 1;
+                            return acc;
+                          }, {})
+                        ).map(([reason, count]) => `${SKIP_REASON_LABELS[reason as SkipReason]} ${count}`).join('，') || '无'}
+                      </div>
+                      <div className="mt-2 max-h-48 overflow-y-auto font-mono text-xs text-gray-700 divide-y">
+                        {selectionPreview.selected.map(item => (
+                          <div key={item.path} className="py-1 flex justify-between">
+                            <span className="truncate">{item.path}</span>
+                            <span className="text-gray-500 ml-2">{item.size !== undefined ? `${(item.size / 1024).toFixed(1)} KB` : '-'}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     本地存储路径
@@ -458,23 +1350,121 @@ const CodeReviewApp: React.FC = () => {
                     选择AI模型
                   </label>
                   <select
-                    value={selectedModel?.id || ''}
-                    onChange={(e) => {
-                      const model = aiModels.find(m => m.id === e.target.value) || null;
-                      setSelectedModel(model);
-                      setConnectionStatus('idle');
-                    }}
+                    value={selectedModel ? modelKey(selectedModel) : ''}
+                    onChange={(e) => selectModel(aiModels.find(m => modelKey(m) === e.target.value) || null)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                   >
                     <option value="">请选择模型</option>
                     {aiModels.map((model) => (
-                      <option key={model.id} value={model.id}>
+                      <option key={modelKey(model)} value={modelKey(model)}>
                         {model.name} - {model.provider}
                       </option>
                     ))}
                   </select>
                 </div>
 
+                {/* 本地模型服务：代码不离开本机 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    本地模型（Ollama / llama.cpp）
+                  </label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={localBaseUrl}
+                      onChange={(e) => setLocalBaseUrl(e.target.value)}
+                      placeholder="http://localhost:11434"
+                      className="flex-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                    />
+                    <input
+                      type="number"
+                      min={2048}
+                      value={localContextWindow}
+                      onChange={(e) => setLocalContextWindow(parseInt(e.target.value, 10) || 4096)}
+                      title="上下文窗口（token）"
+                      className="w-24 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                    />
+                    <button
+                      onClick={discoverLocalModels}
+                      disabled={isDiscoveringLocal}
+                      className="btn btn-secondary disabled:opacity-50"
+                    >
+                      {isDiscoveringLocal ? '连接中...' : '发现模型'}
+                    </button>
+                  </div>
+                  {localBaseUrl && !isLoopbackUrl(localBaseUrl) ? (
+                    <p className="text-xs text-red-600 mt-1">该地址不是本机地址，代码将发送到其他机器</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1">请求直接发往本机服务，不经代理；上下文较小时自动使用精简提示词</p>
+                  )}
+                </div>
+
+                {/* 自定义 OpenAI 兼容端点 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    自定义端点（OpenAI 兼容，如 vLLM、Ollama、自建网关）
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={customBaseUrl}
+                      onChange={(e) => setCustomBaseUrl(e.target.value)}
+                      placeholder="地址，如 http://localhost:8000/v1"
+                      className="col-span-2 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                    />
+                    <input
+                      type="text"
+                      value={customModelId}
+                      onChange={(e) => setCustomModelId(e.target.value)}
+                      placeholder="模型ID，如 qwen2.5-coder"
+                      className="px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                    />
+                    <input
+                      type="text"
+                      value={customName}
+                      onChange={(e) => setCustomName(e.target.value)}
+                      placeholder="显示名称（可选）"
+                      className="px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                    />
+                    <label className="text-sm text-gray-700">
+                      上下文窗口（token）
+                      <input
+                        type="number"
+                        min={4096}
+                        value={customContextWindow}
+                        onChange={(e) => setCustomContextWindow(parseInt(e.target.value, 10) || 8192)}
+                        className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                      />
+                    </label>
+                    <div className="flex items-end justify-between">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700 mb-2">
+                        <input
+                          type="checkbox"
+                          checked={customApiKeyRequired}
+                          onChange={(e) => setCustomApiKeyRequired(e.target.checked)}
+                          className="rounded"
+                        />
+                        <span>需要API密钥</span>
+                      </label>
+                      <button onClick={saveCustomEndpoint} className="btn btn-secondary">
+                        保存端点
+                      </button>
+                    </div>
+                  </div>
+                  {customEndpoints.length > 0 && (
+                    <ul className="mt-2 text-sm text-gray-700 space-y-1">
+                      {customEndpoints.map(endpoint => (
+                        <li key={endpoint.id} className="flex items-center justify-between">
+                          <span className="truncate">{endpoint.name} · {endpoint.modelId} · {endpoint.baseUrl}</span>
+                          <button onClick={() => removeCustomEndpoint(endpoint)} className="text-red-600 hover:underline ml-2">
+                            删除
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 {selectedModel && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -507,10 +1497,22 @@ const CodeReviewApp: React.FC = () => {
                     </div>
                     
                     {connectionStatus === 'success' && (
-                      <p className="text-sm text-green-600 mt-1">✓ API连接成功</p>
+                      <p className="text-sm text-green-600 mt-1">
+                        ✓ API连接成功
+                        {connectionResult && ` · ${CONNECTION_VIA_LABELS[connectionResult.via]} · 延迟 ${connectionResult.latencyMs}ms`}
+                      </p>
                     )}
                     {connectionStatus === 'failed' && (
-                      <p className="text-sm text-red-600 mt-1">✗ API连接失败，请检查密钥</p>
+                      <div className="text-sm text-red-600 mt-1">
+                        <p>✗ API连接失败：{connectionResult ? CONNECTION_STATUS_LABELS[connectionResult.status] : '未知错误'}</p>
+                        {connectionResult && (
+                          <p className="text-xs text-gray-600">
+                            {CONNECTION_VIA_LABELS[connectionResult.via]}
+                            {' · 密钥'}{connectionResult.authOk === null ? '未校验' : connectionResult.authOk ? '有效' : '无效'}
+                            {' · '}{connectionResult.message}
+                          </p>
+                        )}
+                      </div>
                     )}
                     {/* 连接模式与代理地址 */}
                     <div className="mt-4 flex space-x-2">
@@ -539,6 +1541,162 @@ const CodeReviewApp: React.FC = () => {
                         className="flex-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
                       />
                     </div>
+                    {/* 并发与限流：文件并发数，以及当前供应商的请求并发与每分钟请求数 */}
+                    <div className="mt-4 grid grid-cols-3 gap-2">
+                      <label className="text-sm text-gray-700">
+                        并发文件数
+                        <input
+                          type="number"
+                          min={1}
+                          value={fileConcurrency}
+                          onChange={(e) => setFileConcurrency(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700">
+                        {selectedModel.provider} 并发请求数
+                        <input
+                          type="number"
+                          min={1}
+                          value={providerConcurrency}
+                          onChange={(e) => setProviderConcurrency(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700">
+                        每分钟请求数（RPM）
+                        <input
+                          type="number"
+                          min={1}
+                          value={providerRpm}
+                          onChange={(e) => setProviderRpm(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                        />
+                      </label>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">遇到 HTTP 429 时自动按 Retry-After 暂停并临时降低并发</p>
+                    <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={streamingEnabled}
+                        onChange={(e) => {
+                          setStreamingEnabled(e.target.checked);
+                          aiService.setStreaming(e.target.checked);
+                        }}
+                        className="rounded"
+                      />
+                      <span>流式输出（审查过程中实时显示问题）</span>
+                    </label>
+                    <label className="mt-3 block text-sm text-gray-700">
+                      标记为不修复或误报的问题
+                      <select
+                        value={suppressionMode}
+                        onChange={(e) => setSuppressionMode(e.target.value as SuppressionMode)}
+                        className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                      >
+                        <option value="hide">后续审查中隐藏</option>
+                        <option value="downgrade">后续审查中降级为 info</option>
+                      </select>
+                    </label>
+                    {/* 问题基线 */}
+                    <label className="mt-3 block text-sm text-gray-700">
+                      问题基线（只报告基线之外的问题）
+                      <select
+                        value={baselineSource}
+                        onChange={(e) => setBaselineSource(e.target.value as 'none' | 'repository' | 'file')}
+                        className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                      >
+                        <option value="none">不使用</option>
+                        <option value="repository">代码中的 {BASELINE_FILE}</option>
+                        <option value="file" disabled={!issueBaseline}>导入的基线文件</option>
+                      </select>
+                    </label>
+                    <div className="mt-2 flex items-center justify-between text-sm text-gray-500">
+                      <span>
+                        {issueBaseline
+                          ? `已导入：${issueBaseline.repository || '未知仓库'} · ${issueBaseline.issues.length} 个问题`
+                          : '未导入基线文件'}
+                      </span>
+                      <label className="btn btn-secondary cursor-pointer">
+                        <Upload className="w-4 h-4" />
+                        <span>导入基线</span>
+                        <input type="file" accept=".json" onChange={onIssueBaselineChange} className="hidden" />
+                      </label>
+                    </div>
+                    <RuleSettingsPanel project={ruleProject} settings={ruleSettings} onChange={updateRuleSettings} />
+                    {/* 响应缓存 */}
+                    <div className="mt-3 flex items-center justify-between">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={cacheEnabled}
+                          onChange={(e) => {
+                            setCacheEnabled(e.target.checked);
+                            aiService.setCacheEnabled(e.target.checked);
+                          }}
+                          className="rounded"
+                        />
+                        <span>使用响应缓存（未变更的文件直接复用上次结果）</span>
+                      </label>
+                      <button
+                        onClick={clearReviewCache}
+                        disabled={!cacheEntries}
+                        className="btn btn-secondary disabled:opacity-50"
+                      >
+                        清空缓存{cacheEntries !== null && `（${cacheEntries}）`}
+                      </button>
+                    </div>
+                    {/* 重试与备用模型 */}
+                    <div className="mt-4">
+                      <label className="text-sm text-gray-700">
+                        单个模型最多尝试次数
+                        <input
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={maxAttempts}
+                          onChange={(e) => setMaxAttempts(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          className="w-full mt-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                        />
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">限流、5xx 与网络错误按指数退避重试；认证、额度等错误直接切换备用模型</p>
+                      <div className="mt-2 flex space-x-2">
+                        <select
+                          value={fallbackModelKey}
+                          onChange={(e) => setFallbackModelKey(e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                        >
+                          <option value="">选择备用模型</option>
+                          {aiModels.filter(model => modelKey(model) !== modelKey(selectedModel)).map(model => (
+                            <option key={modelKey(model)} value={modelKey(model)}>
+                              {model.name} - {model.provider}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="password"
+                          value={fallbackApiKey}
+                          onChange={(e) => setFallbackApiKey(e.target.value)}
+                          placeholder="备用模型API密钥"
+                          className="flex-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700"
+                        />
+                        <button onClick={addFallbackModel} disabled={!fallbackModelKey} className="btn btn-secondary disabled:opacity-50">
+                          添加
+                        </button>
+                      </div>
+                      {fallbackModels.length > 0 && (
+                        <ol className="mt-2 text-sm text-gray-700 space-y-1 list-decimal list-inside">
+                          {fallbackModels.map(item => (
+                            <li key={modelKey(item.model)}>
+                              {item.model.name} - {item.model.provider}
+                              <button onClick={() => removeFallbackModel(modelKey(item.model))} className="text-red-600 hover:underline ml-2">
+                                删除
+                              </button>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
                   </div>
                 )}
               </div>
@@ -641,6 +1799,68 @@ const CodeReviewApp: React.FC = () => {
                 <Play className="w-5 h-5 mr-2" />
                 {isReviewing ? '审查中...' : '开始代码审查'}
               </button>
+
+              {/* 费用预估与上限 */}
+              <div className="mt-3 flex space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={budgetDisabled ? '' : budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder={budgetDisabled ? '费用上限不可用' : '费用上限（美元，可选）'}
+                  disabled={isReviewing || budgetDisabled}
+                  className="flex-1 px-3 py-2 border border-ui rounded-md focus:outline-none focus:ring-2 focus:ring-ui text-gray-700 disabled:opacity-50"
+                />
+                <button
+                  onClick={estimateReview}
+                  disabled={isReviewing || isEstimating}
+                  className="btn btn-secondary disabled:opacity-50"
+                >
+                  {isEstimating ? '预估中...' : '预估费用'}
+                </button>
+              </div>
+              {budgetDisabled && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {unpricedModels.map(model => model.name).join('、')} 未配置价格（本地模型不计费），无法统计费用，费用上限不可用
+                </p>
+              )}
+              {reviewEstimate && !isReviewing && (
+                <p className="text-xs text-gray-500 mt-1">
+                  预估：{reviewEstimate.files} 个文件 · {reviewEstimate.requests} 次请求 · 输入约 {reviewEstimate.promptTokens} tokens ·
+                  {reviewEstimate.cost === null
+                    ? ' 模型未配置价格'
+                    : ` 约 ${formatCost(reviewEstimate.cost)}（最多 ${formatCost(reviewEstimate.maxCost)}）`}
+                </p>
+              )}
+
+              {isReviewing && (
+                <div className="mt-3 flex space-x-2">
+                  {reviewProgress.status === 'paused' ? (
+                    <button onClick={() => reviewService.resumeReview()} className="flex-1 btn btn-secondary">
+                      <Play className="w-4 h-4 mr-2" />
+                      继续
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => reviewService.pauseReview()}
+                      disabled={reviewProgress.status !== 'analyzing'}
+                      className="flex-1 btn btn-secondary disabled:opacity-50"
+                    >
+                      <Pause className="w-4 h-4 mr-2" />
+                      暂停
+                    </button>
+                  )}
+                  <button
+                    onClick={() => reviewService.cancelReview()}
+                    disabled={reviewProgress.status === 'cancelled'}
+                    className="flex-1 btn btn-secondary disabled:opacity-50"
+                  >
+                    <Square className="w-4 h-4 mr-2" />
+                    取消
+                  </button>
+                </div>
+              )}
               
               {isReviewing && (
                 <div className="mt-4">
@@ -648,6 +1868,19 @@ const CodeReviewApp: React.FC = () => {
                     <span>{reviewProgress.currentFile}</span>
                     <span>{reviewProgress.processedFiles}/{reviewProgress.totalFiles}</span>
                   </div>
+                  {reviewProgress.usage && reviewProgress.usage.requests > 0 && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      已用 {reviewProgress.usage.promptTokens + reviewProgress.usage.completionTokens} tokens · {formatCost(reviewProgress.usage.cost)}
+                      {parseBudget() !== undefined && ` / 上限 ${formatCost(parseBudget())}`}
+                    </p>
+                  )}
+                  {reviewProgress.inFlightFiles && reviewProgress.inFlightFiles.length > 1 && (
+                    <ul className="text-xs text-gray-500 mb-2 space-y-0.5">
+                      {reviewProgress.inFlightFiles.map(file => (
+                        <li key={file} className="truncate">审查中：{file}</li>
+                      ))}
+                    </ul>
+                  )}
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div 
                       className="bg-blue-600 h-2 rounded-full transition-all duration-300"
@@ -697,6 +1930,15 @@ const CodeReviewApp: React.FC = () => {
                         <Download className="w-4 h-4 mr-2" />
                         导出JSON
                       </button>
+                      <button
+                        onClick={() => exportResults('baseline')}
+                        disabled={!!reviewResult.demo || !!reviewResult.cancelled}
+                        className="btn btn-export disabled:opacity-50"
+                        title={`生成 ${BASELINE_FILE}，包含本次审查的全部问题`}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        生成基线
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -704,8 +1946,20 @@ const CodeReviewApp: React.FC = () => {
                 <ReviewResults 
                   reviews={reviewResult.reviews} 
                   summary={reviewResult.summary} 
+                  demo={reviewResult.demo}
+                  cancelled={reviewResult.cancelled}
+                  budgetExceeded={reviewResult.budgetExceeded}
+                  usage={reviewResult.usage}
+                  baseline={reviewResult.baseline}
+                  onTriage={triageIssue}
                 />
               </>
+            ) : isReviewing && liveReviews.length > 0 ? (
+              <ReviewResults
+                reviews={liveReviews}
+                summary={reviewService.generateSummary(liveReviews)}
+                live
+              />
             ) : (
               <div className="glass-card p-8 text-center">
                 <div className="text-gray-500">
@@ -718,6 +1972,24 @@ const CodeReviewApp: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'history' && (
+          <div className="space-y-6">
+            <ReviewHistory
+              entries={historyEntries}
+              error={historyError}
+              baselineId={baselineResult?.id}
+              onOpen={openHistory}
+              onDelete={deleteHistory}
+              onSetBaseline={setBaselineFromHistory}
+              onImport={importHistory}
+            />
+            {historyEntries.length > 1 && (
+              <ReviewComparison entries={historyEntries} loadResult={(id) => historyService.get(id)} />
+            )}
+            {historyEntries.length > 0 && <ReviewTrends entries={historyEntries} />}
+          </div>
+        )}
+
         {activeTab === 'logs' && (
           <div className="space-y-6">
             <div className="bg-white rounded-lg shadow-md p-6">
@@ -738,6 +2010,7 @@ const CodeReviewApp: React.FC = () => {
             </div>
             <LogPanel 
               logs={logs}
+              live={isReviewing}
               onClear={clearLogs}
               onExport={exportLogs}
             />
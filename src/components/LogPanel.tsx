@@ -13,9 +13,11 @@ interface LogPanelProps {
   logs: LogEntry[];
   onClear: () => void;
   onExport: () => void;
+  // 审查进行中，日志实时追加
+  live?: boolean;
 }
 
-const LogPanel: React.FC<LogPanelProps> = ({ logs, onClear, onExport }) => {
+const LogPanel: React.FC<LogPanelProps> = ({ logs, onClear, onExport, live }) => {
   const [filter, setFilter] = useState<string>('all');
   const [autoScroll, setAutoScroll] = useState<boolean>(true);
   const logEndRef = React.useRef<HTMLDivElement>(null);
@@ -84,6 +86,12 @@ const LogPanel: React.FC<LogPanelProps> = ({ logs, onClear, onExport }) => {
           <span className="badge badge-neutral">
             {filteredLogs.length}
           </span>
+          {live && (
+            <span className="flex items-center space-x-1 text-xs text-green-600">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              <span>实时</span>
+            </span>
+          )}
         </div>
         
         <div className="flex items-center space-x-2">
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import GitService from '../services/gitService';
+import { HistoryEntry } from '../services/historyService';
+import { ReviewResult } from '../services/reviewService';
+import { FileIssue, RunComparison, compareRuns } from '../services/issueTracking';
+
+interface ReviewComparisonProps {
+  entries: HistoryEntry[];
+  loadResult: (id: string) => Promise<ReviewResult | null>;
+}
+
+const entryLabel = (entry: HistoryEntry) =>
+  `${entry.startTime.toLocaleString('zh-CN')} · ${entry.branch}${entry.commit ? ` @ ${entry.commit}` : ''} · ${entry.totalIssues} 个问题`;
+
+const IssueList: React.FC<{ items: FileIssue[]; className: string }> = ({ items, className }) => (
+  <ul className="text-sm space-y-1">
+    {items.map((item, idx) => (
+      <li key={idx} className={className}>
+        <span className="font-mono break-all">{item.file}:{item.issue.line}</span>
+        <span> · {item.issue.category} · {item.issue.message}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+const ReviewComparison: React.FC<ReviewComparisonProps> = ({ entries, loadResult }) => {
+  const [baseId, setBaseId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const base = entries.find(entry => entry.id === baseId);
+  // 只能与同一仓库的审查对比；地址写法不同（.git 后缀、SSH 等）视为同一仓库
+  const gitService = GitService.getInstance();
+  const baseKey = base ? gitService.getRepositoryKey(base.repository) : '';
+  const targets = base
+    ? entries.filter(entry => entry.id !== baseId && gitService.getRepositoryKey(entry.repository) === baseKey)
+    : [];
+
+  const compare = async () => {
+    setIsComparing(true);
+    setError('');
+    try {
+      const [before, after] = await Promise.all([loadResult(baseId), loadResult(targetId)]);
+      if (!before || !after) throw new Error('历史记录已不存在');
+      setComparison(compareRuns(before.reviews, after.reviews));
+    } catch (err) {
+      setComparison(null);
+      setError(err instanceof Error ? err.message : '对比失败');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center">
+        <GitCompare className="w-5 h-5 mr-2" />
+        对比两次审查
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3">
+        <select
+          value={baseId}
+          onChange={(e) => { setBaseId(e.target.value); setTargetId(''); setComparison(null); }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-gray-700"
+        >
+          <option value="">选择基准审查</option>
+          {entries.map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.repository} · {entryLabel(entry)}</option>
+          ))}
+        </select>
+        <select
+          value={targetId}
+          onChange={(e) => { setTargetId(e.target.value); setComparison(null); }}
+          disabled={!base}
+          className="px-3 py-2 border border-gray-300 rounded-md text-gray-700 disabled:opacity-50"
+        >
+          <option value="">选择对比审查（同一仓库）</option>
+          {targets.map(entry => (
+            <option key={entry.id} value={entry.id}>{entryLabel(entry)}</option>
+          ))}
+        </select>
+        <button
+          onClick={compare}
+          disabled={!baseId || !targetId || isComparing}
+          className="btn btn-secondary disabled:opacity-50"
+        >
+          {isComparing ? '对比中...' : '对比'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">按文件与问题指纹（描述 + 代码，不含行号）匹配，代码上下移动不影响结果</p>
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      {comparison && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="text-center p-4 bg-red-50 rounded-lg">
+              <div className="text-2xl font-bold text-red-600">{comparison.added.length}</div>
+              <div className="text-sm text-red-500">新增问题</div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">{comparison.resolved.length}</div>
+              <div className="text-sm text-green-500">已解决</div>
+            </div>
+            <div className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className="text-2xl font-bold text-gray-700">{comparison.unchanged.length}</div>
+              <div className="text-sm text-gray-500">未变化</div>
+            </div>
+          </div>
+          {comparison.added.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">新增问题</h4>
+              <IssueList items={comparison.added} className="text-red-600" />
+            </div>
+          )}
+          {comparison.resolved.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">已解决</h4>
+              <IssueList items={comparison.resolved} className="text-green-600 line-through" />
+            </div>
+          )}
+          {comparison.unchanged.length > 0 && (
+            <details>
+              <summary className="font-medium cursor-pointer select-none">未变化（{comparison.unchanged.length}）</summary>
+              <div className="mt-2">
+                <IssueList items={comparison.unchanged} className="text-gray-600" />
+              </div>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewComparison;
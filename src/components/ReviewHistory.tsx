@@ -0,0 +1,96 @@
+import React from 'react';
+import { History, Eye, Trash2, Upload, GitBranch } from 'lucide-react';
+import { HistoryEntry } from '../services/historyService';
+
+interface ReviewHistoryProps {
+  entries: HistoryEntry[];
+  // IndexedDB 不可用时的错误信息
+  error?: string;
+  // 当前作为增量审查基准的记录
+  baselineId?: string;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSetBaseline: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const MODE_LABELS: Record<NonNullable<HistoryEntry['mode']>, string> = {
+  full: '全量',
+  diff: '差异',
+  incremental: '增量'
+};
+
+const ReviewHistory: React.FC<ReviewHistoryProps> = ({ entries, error, baselineId, onOpen, onDelete, onSetBaseline, onImport }) => {
+  const onFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between p-4 border-b border-ui">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-gray-700" />
+          <h3 className="text-lg font-semibold text-gray-900">审查历史</h3>
+          <span className="badge badge-neutral">{entries.length}</span>
+        </div>
+        <label className="btn btn-secondary text-sm cursor-pointer">
+          <Upload className="w-4 h-4" />
+          <span>导入JSON报告</span>
+          <input type="file" accept=".json" onChange={onFileChange} className="hidden" />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm text-red-600">历史记录不可用：{error}</div>
+      )}
+
+      {!error && entries.length === 0 && (
+        <div className="p-8 text-center text-gray-500">暂无历史记录，完成审查后会自动保存</div>
+      )}
+
+      <div className="divide-y divide-gray-200">
+        {entries.map(entry => (
+          <div key={entry.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900 break-all">{entry.repository}</div>
+              <div className="text-sm text-gray-500 flex flex-wrap items-center gap-x-3">
+                <span className="flex items-center">
+                  <GitBranch className="w-3 h-3 mr-1" />
+                  {entry.branch}{entry.commit && ` @ ${entry.commit}`}
+                </span>
+                <span>{entry.startTime.toLocaleString('zh-CN')}</span>
+                {entry.mode && <span>{MODE_LABELS[entry.mode]}审查</span>}
+                <span>{entry.model || '未知模型'}</span>
+                <span>{entry.totalFiles} 个文件 · {entry.totalIssues} 个问题</span>
+                {entry.cancelled && <span className="badge badge-warning">部分结果</span>}
+                {entry.demo && <span className="badge badge-warning">演示数据</span>}
+                {entry.id === baselineId && <span className="badge badge-info">增量基准</span>}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button onClick={() => onOpen(entry.id)} className="btn btn-secondary text-sm">
+                <Eye className="w-4 h-4" />
+                <span>查看</span>
+              </button>
+              <button
+                onClick={() => onSetBaseline(entry.id)}
+                disabled={entry.id === baselineId || entry.mode === 'diff'}
+                className="btn btn-mint text-sm disabled:opacity-50"
+              >
+                设为基准
+              </button>
+              <button onClick={() => onDelete(entry.id)} className="btn btn-clear text-sm">
+                <Trash2 className="w-4 h-4" />
+                <span>删除</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewHistory;
@@ -1,14 +1,70 @@
-import React, { useMemo } from 'react';
-import { CodeReview, CodeIssue } from '../services/aiService';
-import { ReviewSummary } from '../services/reviewService';
+import React, { useMemo, useState } from 'react';
+import { CodeReview, CodeIssue, IssueStatus, IssueTriage, TriageState } from '../services/aiService';
+import { TRIAGE_STATE_LABELS } from '../services/triageService';
+import { ReviewResult, ReviewSummary } from '../services/reviewService';
+import { TokenUsage, formatCost } from '../services/tokenUsage';
 import { FileText, AlertCircle, AlertTriangle, Info, CheckCircle } from 'lucide-react';
 
 interface ReviewResultsProps {
   reviews: CodeReview[];
   summary: ReviewSummary;
+  demo?: boolean;
+  cancelled?: boolean;
+  // 审查仍在进行，结果实时更新
+  live?: boolean;
+  budgetExceeded?: boolean;
+  // 整次审查的 token 用量与费用
+  usage?: TokenUsage;
+  // 本次审查使用的基线
+  baseline?: ReviewResult['baseline'];
+  // 设置后可对问题分诊；triage 为 null 表示清除
+  onTriage?: (file: string, issue: CodeIssue, triage: IssueTriage | null) => void;
 }
 
-const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
+const ISSUE_STATUS_LABELS: Record<IssueStatus, { label: string; className: string }> = {
+  new: { label: '新增', className: 'badge badge-danger' },
+  persisting: { label: '仍存在', className: 'badge badge-neutral' },
+  fixed: { label: '已修复', className: 'badge badge-success' }
+};
+
+// 单个问题的分诊：选择状态即保存，原因在输入框失焦时保存
+const TriageControl: React.FC<{ triage?: IssueTriage; onChange: (triage: IssueTriage | null) => void }> = ({ triage, onChange }) => {
+  const [reason, setReason] = useState(triage?.reason || '');
+  const save = (state: TriageState | '', nextReason: string) => {
+    onChange(state ? { state, reason: nextReason.trim(), updatedAt: new Date().toISOString() } : null);
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={triage?.state || ''}
+        onChange={(e) => save(e.target.value as TriageState | '', reason)}
+        className="px-2 py-1 rounded-md bg-white border border-ui text-gray-700"
+      >
+        <option value="">未处理</option>
+        {(Object.keys(TRIAGE_STATE_LABELS) as TriageState[]).map(state => (
+          <option key={state} value={state}>{TRIAGE_STATE_LABELS[state]}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        onBlur={() => { if (triage && reason.trim() !== triage.reason) save(triage.state, reason); }}
+        disabled={!triage}
+        placeholder="原因（可选）"
+        className="flex-1 min-w-[12rem] px-2 py-1 rounded-md bg-white border border-ui text-gray-700 disabled:opacity-50"
+      />
+    </div>
+  );
+};
+
+const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary, demo, cancelled, live, budgetExceeded, usage, baseline, onTriage }) => {
+  const failedReviews = reviews.filter(review => review.status === 'failed');
+  const detailedReviews = reviews.filter(review =>
+    review.issues.length > 0 || (review.fixedIssues?.length || 0) > 0 || (review.suppressedIssues?.length || 0) > 0 ||
+    (review.unusedDirectives?.length || 0) > 0);
+
   // HTML转义函数，防止特殊字符导致显示问题
   const escapeHtml = (text: string): string => {
     const div = document.createElement('div');
@@ -68,6 +124,46 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
 
   return (
     <div className="space-y-6 fade-in">
+      {demo && (
+        <div className="card-warning border rounded-lg p-4 flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+          <span>演示数据：本次结果基于内置示例代码生成，并非真实仓库的审查结果。</span>
+        </div>
+      )}
+
+      {live && (
+        <div className="card-info border rounded-lg p-4 flex items-center space-x-2">
+          <Info className="w-5 h-5 text-blue-500 flex-shrink-0 animate-pulse" />
+          <span>审查进行中：结果随 AI 输出实时更新，最终结果以审查完成时为准。</span>
+        </div>
+      )}
+
+      {cancelled && (
+        <div className="card-warning border rounded-lg p-4 flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+          <span>
+            {budgetExceeded ? '超出费用上限，审查已停止' : '审查已取消'}：结果仅包含停止前已完成的 {reviews.length} 个文件。
+          </span>
+        </div>
+      )}
+
+      {failedReviews.length > 0 && (
+        <div className="card-danger border rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span>{failedReviews.length} 个文件 AI 审查失败，结果仅含基础检查，未计入 AI 问题：</span>
+          </div>
+          <ul className="text-sm space-y-1 ml-7">
+            {failedReviews.map(review => (
+              <li key={review.file} className="break-all">
+                <span className="font-mono">{review.file}</span>
+                <span className="text-white/70"> — {review.error || '未知错误'}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 概览统计 */}
       <div className="glass-card p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -90,12 +186,51 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
           </div>
           <div className="text-center p-4 bg-green-50 rounded-lg">
             <div className="text-2xl font-bold text-green-600">
-              {summary.totalFiles - summary.filesWithIssues}
+              {summary.totalFiles - summary.filesWithIssues - failedReviews.filter(review => review.issues.length === 0).length}
             </div>
             <div className="text-sm text-green-500">无问题文件</div>
           </div>
         </div>
 
+        {summary.issueChanges && (
+          <div className="mb-2 text-sm text-gray-600 flex flex-wrap gap-x-4">
+            <span>相对基准：新增 {summary.issueChanges.new} 个</span>
+            <span>已修复 {summary.issueChanges.fixed} 个</span>
+            <span>仍存在 {summary.issueChanges.persisting} 个</span>
+          </div>
+        )}
+
+        {!!summary.unusedDirectives && (
+          <div className="mb-2 text-sm text-yellow-600">{summary.unusedDirectives} 条 ai-review-disable 指令未忽略任何问题，可以删除</div>
+        )}
+
+        {!!summary.suppressedIssues && (
+          <div className="mb-2 text-sm text-gray-600">{summary.suppressedIssues} 个问题已标记为不修复或误报，已隐藏</div>
+        )}
+
+        {baseline && (
+          <div className="mb-2 text-sm text-gray-600">
+            基线共 {baseline.issues} 个问题，本次有 {summary.baselinedIssues || 0} 个与基线匹配，不再报告
+          </div>
+        )}
+
+        {!!summary.cachedFiles && (
+          <div className="mb-2 text-sm text-gray-600">{summary.cachedFiles} 个文件的 AI 结果来自缓存，未产生费用</div>
+        )}
+
+        {usage && usage.requests > 0 && (
+          <div className="mb-6 text-sm text-gray-600 flex flex-wrap gap-x-4">
+            <span>AI请求 {usage.requests} 次</span>
+            <span>输入 {usage.promptTokens} tokens</span>
+            <span>输出 {usage.completionTokens} tokens</span>
+            <span>
+              费用 {formatCost(usage.cost)}
+              {usage.estimated && '（部分用量为估算）'}
+              {usage.unpriced && '（部分模型未配置价格）'}
+            </span>
+          </div>
+        )}
+
         {/* 问题类型分布 */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
@@ -127,12 +262,16 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
       <div className="space-y-4">
         <h3 className="text-lg font-semibold">详细问题</h3>
         
-        {reviews.filter(review => review.issues.length > 0).map((review, reviewIndex) => (
+        {detailedReviews.map((review, reviewIndex) => (
           <div key={reviewIndex} className="glass-card p-6">
             <div className="flex items-center justify-between mb-4">
               <h4 className="font-medium text-blue-600">{review.file}</h4>
               <span className="text-sm text-gray-500">
                 {review.issues.length} 个问题
+                {review.cached && ' · 缓存'}
+                {review.carriedForward && ' · 未变化，沿用基准结果'}
+                {!!review.baselinedIssues && ` · 基线中已有 ${review.baselinedIssues} 个`}
+                {review.usage && review.usage.requests > 0 && ` · ${review.usage.promptTokens + review.usage.completionTokens} tokens · ${formatCost(review.usage.cost)}`}
               </span>
             </div>
 
@@ -146,9 +285,19 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
                       <span className="text-sm text-gray-500">
                         第 {issue.line} 行
                         {issue.column && `:${issue.column}`}
+                        {issue.endLine && ` – ${issue.endLine !== issue.line ? `第 ${issue.endLine} 行` : ''}${issue.endColumn ? `:${issue.endColumn}` : ''}`}
                       </span>
                     </div>
-                    {getCategoryBadge(issue.category)}
+                    <div className="flex items-center space-x-2">
+                      {issue.triage && (
+                        <span className="badge badge-info" title={issue.triage.reason || undefined}>{TRIAGE_STATE_LABELS[issue.triage.state]}</span>
+                      )}
+                      {issue.status && (
+                        <span className={ISSUE_STATUS_LABELS[issue.status].className}>{ISSUE_STATUS_LABELS[issue.status].label}</span>
+                      )}
+                      {issue.rule && <span className="badge badge-neutral font-mono">{issue.rule}</span>}
+                      {getCategoryBadge(issue.category)}
+                    </div>
                   </div>
 
                   <div className="mb-3">
@@ -181,10 +330,73 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
                       </div>
                     </div>
                   </div>
+
+                  {/* 模型原始输出，便于排查 */}
+                  {issue.rawOutput && (
+                    <details className="mt-2 text-xs text-white/60">
+                      <summary className="cursor-pointer select-none">原始输出</summary>
+                      <pre className="mt-1 p-2 bg-black/30 rounded whitespace-pre-wrap break-all">{issue.rawOutput}</pre>
+                    </details>
+                  )}
+
+                  {onTriage && (
+                    <TriageControl
+                      key={`${issue.triage?.state}-${issue.triage?.updatedAt}`}
+                      triage={issue.triage}
+                      onChange={(triage) => onTriage(review.file, issue, triage)}
+                    />
+                  )}
                 </div>
               ))}
             </div>
 
+            {review.unusedDirectives && review.unusedDirectives.length > 0 && (
+              <div className="mt-4 p-3 card-warning border rounded-lg text-sm">
+                <div className="font-medium mb-1">未使用的忽略指令</div>
+                <ul className="space-y-1">
+                  {review.unusedDirectives.map(directive => (
+                    <li key={directive.line} className="font-mono break-all">第 {directive.line} 行：{directive.text}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {review.suppressedIssues && review.suppressedIssues.length > 0 && (
+              <details className="mt-4 text-sm">
+                <summary className="cursor-pointer select-none text-gray-500">已忽略 {review.suppressedIssues.length} 个问题</summary>
+                <ul className="mt-2 space-y-2">
+                  {review.suppressedIssues.map((issue, idx) => (
+                    <li key={idx} className="p-2 bg-white/5 rounded-lg">
+                      <div className="text-gray-600">
+                        第 {issue.line} 行 · {issue.category} · {issue.message}
+                        {issue.triage && ` — ${TRIAGE_STATE_LABELS[issue.triage.state]}${issue.triage.reason ? `：${issue.triage.reason}` : ''}`}
+                      </div>
+                      {onTriage && (
+                        <TriageControl
+                          key={`${issue.triage?.state}-${issue.triage?.updatedAt}`}
+                          triage={issue.triage}
+                          onChange={(triage) => onTriage(review.file, issue, triage)}
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {review.fixedIssues && review.fixedIssues.length > 0 && (
+              <div className="mt-4 p-3 card-success border rounded-lg">
+                <div className="text-sm font-medium mb-2">已修复 {review.fixedIssues.length} 个问题（基准审查中存在）</div>
+                <ul className="text-sm space-y-1">
+                  {review.fixedIssues.map((issue, idx) => (
+                    <li key={idx} className="line-through opacity-80">
+                      原第 {issue.line} 行 · {issue.category} · {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {review.summary && (
               <div className="mt-4 p-3 bg-white/5 rounded-lg">
                 <div className="text-sm text-white/70">{review.summary}</div>
@@ -194,7 +406,7 @@ const ReviewResults: React.FC<ReviewResultsProps> = ({ reviews, summary }) => {
         ))}
       </div>
 
-      {reviews.filter(review => review.issues.length > 0).length === 0 && (
+      {detailedReviews.length === 0 && (
         <div className="bg-white/5 border border-white/10 rounded-lg p-8 text-center">
           <CheckCircle className="w-12 h-12 text-green-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-white mb-2">太棒了！</h3>
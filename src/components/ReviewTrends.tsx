@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { HistoryEntry, buildTrends } from '../services/historyService';
+import { ISSUE_CATEGORIES, ISSUE_TYPES } from '../services/issueSchema';
+
+interface ReviewTrendsProps {
+  entries: HistoryEntry[];
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  error: '#dc3545',
+  warning: '#f0ad4e',
+  info: '#1976d2',
+  style: '#6c757d'
+};
+
+const CATEGORY_COLORS: Record<string, string> = {
+  security: '#dc3545',
+  performance: '#f0ad4e',
+  maintainability: '#1976d2',
+  readability: '#28a745',
+  'best-practices': '#8e44ad'
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+
+// 折线图：横轴为审查次序，纵轴为问题数
+const LineChart: React.FC<{ labels: string[]; series: ChartSeries[] }> = ({ labels, series }) => {
+  const max = Math.max(1, ...series.flatMap(item => item.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (labels.length > 1 ? (i / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  const ticks = [0, Math.round(max / 2), max];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e0e0e0" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#666">{tick}</text>
+        </g>
+      ))}
+      {labels.map((label, i) => (
+        <text key={i} x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#666">{label}</text>
+      ))}
+      {series.map(item => (
+        <g key={item.label}>
+          <polyline
+            fill="none"
+            stroke={item.color}
+            strokeWidth={2}
+            points={item.values.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+          />
+          {item.values.map((value, i) => (
+            <circle key={i} cx={x(i)} cy={y(value)} r={3} fill={item.color}>
+              <title>{`${item.label}: ${value}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const ReviewTrends: React.FC<ReviewTrendsProps> = ({ entries }) => {
+  const trends = useMemo(() => buildTrends(entries), [entries]);
+  const [seriesKey, setSeriesKey] = useState('');
+  const [dimension, setDimension] = useState<'type' | 'category'>('type');
+
+  const keyOf = (repository: string, branch: string) => `${repository}\u0000${branch}`;
+  const selected = trends.find(trend => keyOf(trend.repository, trend.branch) === seriesKey) || trends[0];
+
+  if (!selected) {
+    return (
+      <div className="glass-card p-6 text-sm text-gray-500">
+        暂无可用于趋势的审查记录（差异审查、已取消和演示数据不计入趋势）
+      </div>
+    );
+  }
+
+  const keys: readonly string[] = dimension === 'type' ? ISSUE_TYPES : ISSUE_CATEGORIES;
+  const colors = dimension === 'type' ? TYPE_COLORS : CATEGORY_COLORS;
+  const series: ChartSeries[] = keys.map(key => ({
+    label: key,
+    color: colors[key],
+    values: selected.points.map(point => (dimension === 'type' ? point.issuesByType : point.issuesByCategory)[key] || 0)
+  }));
+  const labels = selected.points.map(point => point.startTime.toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' }));
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2" />
+          质量趋势
+        </h3>
+        <div className="flex items-center space-x-2">
+          <select
+            value={keyOf(selected.repository, selected.branch)}
+            onChange={(e) => setSeriesKey(e.target.value)}
+            className="px-3 py-1 rounded-md text-sm bg-white border border-ui text-gray-700"
+          >
+            {trends.map(trend => (
+              <option key={keyOf(trend.repository, trend.branch)} value={keyOf(trend.repository, trend.branch)}>
+                {trend.repository} · {trend.branch}（{trend.points.length} 次）
+              </option>
+            ))}
+          </select>
+          <select
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as 'type' | 'category')}
+            className="px-3 py-1 rounded-md text-sm bg-white border border-ui text-gray-700"
+          >
+            <option value="type">按类型</option>
+            <option value="category">按类别</option>
+          </select>
+        </div>
+      </div>
+
+      <LineChart labels={labels} series={series} />
+
+      <div className="mt-2 flex flex-wrap gap-x-4 text-sm text-gray-600">
+        {series.map(item => (
+          <span key={item.label} className="flex items-center">
+            <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewTrends;
@@ -0,0 +1,76 @@
+import React from 'react';
+import RuleRegistry, { CodeRule, RuleConfig, RuleSettings, RuleSeverity } from '../services/codeRules';
+import { ISSUE_TYPES } from '../services/issueSchema';
+
+interface RuleSettingsPanelProps {
+  // 配置所属项目；为空表示尚未选择代码来源
+  project: string;
+  settings: RuleSettings;
+  onChange: (settings: RuleSettings) => void;
+}
+
+const RuleSettingsPanel: React.FC<RuleSettingsPanelProps> = ({ project, settings, onChange }) => {
+  const rules = RuleRegistry.getInstance().getRules();
+
+  const update = (rule: CodeRule, changes: RuleConfig) => {
+    onChange({ ...settings, [rule.id]: { ...settings[rule.id], ...changes } });
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="text-sm text-gray-700">基础检查规则</div>
+      <p className="text-xs text-gray-500 mt-1 break-all">
+        {project ? `按项目保存：${project}` : '选择代码来源后按项目保存'}
+      </p>
+      <div className="mt-2 divide-y divide-gray-200 border border-ui rounded-md">
+        {rules.map(rule => {
+          const config = settings[rule.id] || {};
+          const enabled = config.enabled !== false;
+          return (
+            <div key={rule.id} className="p-2 flex flex-wrap items-center gap-2 text-sm">
+              <label className="flex items-center space-x-2 flex-1 min-w-[12rem]">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  disabled={!project}
+                  onChange={(e) => update(rule, { enabled: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-gray-700">{rule.name}</span>
+                <span className="font-mono text-xs text-gray-500">{rule.id}</span>
+                {rule.languages && <span className="text-xs text-gray-500">（{rule.languages.join(' / ')}）</span>}
+              </label>
+              {rule.threshold && (
+                <label className="flex items-center space-x-1 text-gray-600">
+                  <span>{rule.threshold.label}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={config.threshold ?? rule.threshold.default}
+                    disabled={!project || !enabled}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      update(rule, { threshold: Number.isFinite(value) && value > 0 ? value : undefined });
+                    }}
+                    className="w-20 px-2 py-1 border border-ui rounded-md text-gray-700 disabled:opacity-50"
+                  />
+                </label>
+              )}
+              <select
+                value={config.severity || rule.severity}
+                disabled={!project || !enabled}
+                onChange={(e) => update(rule, { severity: e.target.value as RuleSeverity })}
+                className="px-2 py-1 border border-ui rounded-md text-gray-700 disabled:opacity-50"
+              >
+                {ISSUE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">也可以在代码中用 ai-review-disable-next-line &lt;规则 id&gt; 忽略单处问题</p>
+    </div>
+  );
+};
+
+export default RuleSettingsPanel;
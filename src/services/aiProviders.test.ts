@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { AIRequest, createBuiltinProviders } from './aiProviders';
+
+const request = (model: string): AIRequest => ({
+  model,
+  prompt: 'p',
+  maxTokens: 100,
+  stream: false,
+  responseSchema: { name: 'report_issues', description: 'd', schema: { type: 'object' } }
+});
+
+function provider(id: string) {
+  return createBuiltinProviders().find(item => item.id === id)!;
+}
+
+describe('结构化输出声明', () => {
+  it('OpenAI 只对支持的模型发送 json_schema，旧版 gpt-4 不发送 response_format', () => {
+    const openai = provider('openai');
+    expect(openai.getStructuredOutput('gpt-4o')).toBe('json-schema');
+    expect(openai.buildRequest(request('gpt-4o'), 'k').body.response_format).toMatchObject({ type: 'json_schema' });
+    expect(openai.getStructuredOutput('gpt-4')).toBe('none');
+    expect(openai.buildRequest(request('gpt-4'), 'k').body.response_format).toBeUndefined();
+  });
+
+  it('模型列表不包含内部的结构化输出声明', () => {
+    expect(provider('openai').getModels().map(model => Object.keys(model).sort())).toEqual(
+      Array(2).fill(['description', 'id', 'maxTokens', 'name', 'provider', 'providerId', 'supported'])
+    );
+  });
+
+  it('其他供应商沿用供应商默认值', () => {
+    expect(provider('deepseek').buildRequest(request('deepseek-chat'), 'k').body.response_format).toEqual({ type: 'json_object' });
+    expect(provider('doubao').buildRequest(request('doubao-pro'), 'k').body.response_format).toBeUndefined();
+  });
+});
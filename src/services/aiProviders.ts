@@ -0,0 +1,490 @@
+import { RateLimitError, parseRetryAfter } from './rateLimiter';
+import type { JsonSchema } from './issueSchema';
+
+export interface AIModel {
+  id: string;
+  name: string;
+  provider: string;
+  // 所属供应商适配器 id
+  providerId: string;
+  description: string;
+  maxTokens: number;
+  supported: boolean;
+}
+
+export interface AIRequest {
+  model: string;
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+  stream: boolean;
+  // 要求模型按 schema 输出（供应商支持时启用 JSON 模式或工具调用）
+  responseSchema?: { name: string; description: string; schema: JsonSchema };
+}
+
+// 供应商返回的 token 用量；流式响应中可能分多次到达
+export interface ReportedUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// 结构化输出方式：json-schema / json-object 为 OpenAI 的 response_format，tool 为 Anthropic 工具调用
+export type StructuredOutputMode = 'json-schema' | 'json-object' | 'tool' | 'none';
+
+export type AIErrorKind = 'auth' | 'model-not-found' | 'quota' | 'bad-request' | 'server' | 'unknown';
+
+// 供应商返回的非 2xx 响应（429 限流另见 RateLimitError）
+export class AIRequestError extends Error {
+  // body 为服务端返回的错误内容（参数错误时保留，用于判断被拒绝的参数）
+  constructor(message: string, public readonly kind: AIErrorKind, public readonly status?: number, public readonly body?: string) {
+    super(message);
+    this.name = 'AIRequestError';
+  }
+}
+
+// 供应商适配器：描述模型列表与请求协议（构建请求、鉴权、解析响应与流、错误归类）
+export interface AIProviderAdapter {
+  readonly id: string;
+  readonly name: string;
+  // 浏览器是否可直连（不支持时提示使用代理）
+  readonly corsSupported: boolean;
+  // 支持通过 OpenAI 兼容代理转发
+  readonly supportsProxy: boolean;
+  readonly requiresApiKey: boolean;
+  // 默认最小请求间隔，用于换算默认 RPM
+  readonly minIntervalMs: number;
+  // 默认并发请求数
+  readonly defaultConcurrency: number;
+  // 供应商默认的结构化输出方式，单个模型可以另行声明
+  readonly structuredOutput: StructuredOutputMode;
+  getStructuredOutput(modelId: string): StructuredOutputMode;
+  getModels(): AIModel[];
+  // 从服务端发现可用模型（本地模型服务）
+  discoverModels?(signal?: AbortSignal): Promise<AIModel[]>;
+  getEndpoints(): string[];
+  buildRequest(request: AIRequest, apiKey: string): { headers: Record<string, string>; body: Record<string, unknown> };
+  extractText(json: unknown): string;
+  // 解析一条 SSE 事件，返回本次增量文本
+  extractStreamDelta(data: unknown, event?: string): string | undefined;
+  // 从完整响应或单条 SSE 事件中读取 usage
+  extractUsage(data: unknown): ReportedUsage | undefined;
+  toError(res: Response): Promise<Error>;
+}
+
+// 自定义 OpenAI 兼容端点（vLLM、Ollama、自建网关等）
+export interface CustomEndpointConfig {
+  id: string;
+  name: string;
+  // 如 http://localhost:8000/v1，也可直接填写完整的 /chat/completions 地址
+  baseUrl: string;
+  modelId: string;
+  contextWindow: number;
+  apiKeyRequired: boolean;
+}
+
+const CUSTOM_ENDPOINTS_KEY = 'ai-code-review:custom-endpoints';
+
+// 从 JSON 中按路径取字符串
+function pick(json: unknown, ...path: Array<string | number>): string | undefined {
+  let value: unknown = json;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function pickNumber(json: unknown, ...path: Array<string | number>): number | undefined {
+  let value: unknown = json;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return typeof value === 'number' ? value : undefined;
+}
+
+abstract class BaseAIProvider implements AIProviderAdapter {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly corsSupported: boolean;
+  abstract readonly supportsProxy: boolean;
+  abstract readonly requiresApiKey: boolean;
+  abstract readonly structuredOutput: StructuredOutputMode;
+  readonly minIntervalMs: number = 1000;
+  readonly defaultConcurrency: number = 2;
+
+  // 单独声明了结构化输出方式的模型，按模型 id 索引
+  protected modelStructuredOutput: Record<string, StructuredOutputMode> = {};
+
+  getStructuredOutput(modelId: string): StructuredOutputMode {
+    return this.modelStructuredOutput[modelId] ?? this.structuredOutput;
+  }
+
+  abstract getModels(): AIModel[];
+  abstract getEndpoints(): string[];
+  abstract buildRequest(request: AIRequest, apiKey: string): { headers: Record<string, string>; body: Record<string, unknown> };
+  abstract extractText(json: unknown): string;
+  abstract extractStreamDelta(data: unknown, event?: string): string | undefined;
+  abstract extractUsage(data: unknown): ReportedUsage | undefined;
+
+  // 按状态码归类错误；429 中的额度耗尽不属于限流，不应重试
+  async toError(res: Response): Promise<Error> {
+    const text = await res.text().catch(() => '');
+    const detail = text.slice(0, 200);
+    const status = res.status;
+    if (status === 429) {
+      if (/insufficient_quota|quota|余额|billing/i.test(text)) {
+        return new AIRequestError(`额度不足 (HTTP 429) · ${detail}`, 'quota', status);
+      }
+      return new RateLimitError(`HTTP 429 · ${detail}`, parseRetryAfter(res.headers.get('Retry-After')));
+    }
+    if (status === 401 || status === 403) {
+      return new AIRequestError(`认证失败，请检查API密钥 (HTTP ${status}) · ${detail}`, 'auth', status);
+    }
+    if (status === 402) {
+      return new AIRequestError(`额度不足 (HTTP 402) · ${detail}`, 'quota', status);
+    }
+    if (status === 404 || /model_not_found|model.*(not exist|not found)/i.test(text)) {
+      return new AIRequestError(`模型或接口不存在 (HTTP ${status}) · ${detail}`, 'model-not-found', status);
+    }
+    if (status >= 500) {
+      return new AIRequestError(`服务端错误 (HTTP ${status}) · ${detail}`, 'server', status);
+    }
+    if (status === 400 || status === 422) {
+      return new AIRequestError(`请求参数错误 (HTTP ${status}) · ${detail}`, 'bad-request', status, text);
+    }
+    return new AIRequestError(`HTTP ${status} · ${detail}`, 'unknown', status);
+  }
+}
+
+interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  urls: string[];
+  // 模型的 structuredOutput 覆盖供应商默认值（同一供应商的旧模型可能不支持 response_format）
+  models: Array<Omit<AIModel, 'provider' | 'providerId' | 'supported'> & { structuredOutput?: StructuredOutputMode }>;
+  corsSupported?: boolean;
+  supportsProxy?: boolean;
+  requiresApiKey?: boolean;
+  // 默认不启用，兼容端点未必支持 response_format
+  structuredOutput?: StructuredOutputMode;
+}
+
+// OpenAI Chat Completions 协议，DeepSeek、Moonshot、豆包及自定义端点共用
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly corsSupported: boolean;
+  readonly supportsProxy: boolean;
+  readonly requiresApiKey: boolean;
+  readonly structuredOutput: StructuredOutputMode;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    super();
+    this.id = config.id;
+    this.name = config.name;
+    this.corsSupported = config.corsSupported ?? false;
+    this.supportsProxy = config.supportsProxy ?? true;
+    this.requiresApiKey = config.requiresApiKey ?? true;
+    this.structuredOutput = config.structuredOutput ?? 'none';
+    config.models.forEach(model => {
+      if (model.structuredOutput) this.modelStructuredOutput[model.id] = model.structuredOutput;
+    });
+  }
+
+  getModels(): AIModel[] {
+    return this.config.models.map(({ id, name, description, maxTokens }) => ({
+      id, name, description, maxTokens, provider: this.name, providerId: this.id, supported: true
+    }));
+  }
+
+  getEndpoints(): string[] {
+    return this.config.urls;
+  }
+
+  buildRequest(request: AIRequest, apiKey: string) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages,
+      temperature: 0,
+      max_tokens: request.maxTokens,
+      stream: request.stream
+    };
+    const mode = this.getStructuredOutput(request.model);
+    if (request.responseSchema && mode === 'json-schema') {
+      const { name, description, schema } = request.responseSchema;
+      body.response_format = { type: 'json_schema', json_schema: { name, description, schema } };
+    } else if (request.responseSchema && mode === 'json-object') {
+      body.response_format = { type: 'json_object' };
+    }
+    return { headers, body };
+  }
+
+  extractText(json: unknown): string {
+    return pick(json, 'choices', 0, 'message', 'content') || pick(json, 'data') || JSON.stringify(json);
+  }
+
+  extractStreamDelta(data: unknown): string | undefined {
+    return pick(data, 'choices', 0, 'delta', 'content');
+  }
+
+  // 流式响应中 usage 随最后一个分片返回（部分供应商不返回）
+  extractUsage(data: unknown): ReportedUsage | undefined {
+    const promptTokens = pickNumber(data, 'usage', 'prompt_tokens');
+    const completionTokens = pickNumber(data, 'usage', 'completion_tokens');
+    return promptTokens === undefined && completionTokens === undefined ? undefined : { promptTokens, completionTokens };
+  }
+}
+
+// Anthropic Messages 协议
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicProvider extends BaseAIProvider {
+  readonly id = 'anthropic';
+  readonly name = 'Anthropic';
+  // 带 anthropic-dangerous-direct-browser-access 请求头时允许浏览器直连
+  readonly corsSupported = true;
+  readonly supportsProxy = false;
+  readonly requiresApiKey = true;
+  readonly structuredOutput = 'tool';
+
+  getModels(): AIModel[] {
+    return [
+      {
+        id: 'claude-3-5-sonnet-20241022',
+        name: 'Claude 3.5 Sonnet',
+        provider: this.name,
+        providerId: this.id,
+        description: '专注于代码理解和分析',
+        maxTokens: 200000,
+        supported: true
+      }
+    ];
+  }
+
+  getEndpoints(): string[] {
+    return ['https://api.anthropic.com/v1/messages'];
+  }
+
+  // 需要结构化输出时强制调用唯一的工具，工具入参即为结果
+  buildRequest(request: AIRequest, apiKey: string) {
+    const tool = request.responseSchema;
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        // Messages API 必须指定版本；浏览器直连需显式声明
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(tool
+          ? {
+            tools: [{ name: tool.name, description: tool.description, input_schema: tool.schema }],
+            tool_choice: { type: 'tool', name: tool.name }
+          }
+          : {}),
+        stream: request.stream
+      }
+    };
+  }
+
+  extractText(json: unknown): string {
+    const blocks = (json as { content?: Array<{ type?: string; text?: string; input?: unknown }> })?.content;
+    const toolUse = Array.isArray(blocks) ? blocks.find(block => block?.type === 'tool_use') : undefined;
+    if (toolUse) return JSON.stringify(toolUse.input ?? {});
+    return pick(json, 'content', 0, 'text') || JSON.stringify(json);
+  }
+
+  // 工具调用的入参以 input_json_delta 分段到达
+  extractStreamDelta(data: unknown): string | undefined {
+    if (pick(data, 'type') !== 'content_block_delta') return undefined;
+    return pick(data, 'delta', 'type') === 'input_json_delta' ? pick(data, 'delta', 'partial_json') : pick(data, 'delta', 'text');
+  }
+
+  // 流式响应中输入用量在 message_start，输出用量在 message_delta
+  extractUsage(data: unknown): ReportedUsage | undefined {
+    const source = pick(data, 'type') === 'message_start' ? (data as { message?: unknown }).message : data;
+    const promptTokens = pickNumber(source, 'usage', 'input_tokens');
+    const completionTokens = pickNumber(source, 'usage', 'output_tokens');
+    return promptTokens === undefined && completionTokens === undefined ? undefined : { promptTokens, completionTokens };
+  }
+}
+
+// 本地模型服务（Ollama、llama.cpp server），请求只发往该地址，不经代理
+export interface LocalEndpointConfig {
+  // 如 http://localhost:11434（Ollama）或 http://localhost:8080（llama.cpp）
+  baseUrl: string;
+  // 本地模型通常以较小的上下文运行
+  contextWindow: number;
+}
+
+export const LOCAL_PROVIDER_ID = 'local';
+export const DEFAULT_LOCAL_ENDPOINT: LocalEndpointConfig = { baseUrl: 'http://localhost:11434', contextWindow: 4096 };
+const LOCAL_ENDPOINT_KEY = 'ai-code-review:local-endpoint';
+
+export function isLoopbackUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname;
+    return host === 'localhost' || host === '[::1]' || /^127\./.test(host);
+  } catch {
+    return false;
+  }
+}
+
+export class LocalModelProvider extends OpenAICompatibleProvider {
+  readonly minIntervalMs: number = 100;
+  // 本地推理一般串行执行，并发只会排队
+  readonly defaultConcurrency: number = 1;
+  private discovered: string[] = [];
+
+  constructor(private endpoint: LocalEndpointConfig) {
+    super({
+      id: LOCAL_PROVIDER_ID,
+      name: '本地模型',
+      urls: [`${LocalModelProvider.root(endpoint.baseUrl)}/v1/chat/completions`],
+      models: [],
+      corsSupported: true,
+      supportsProxy: false,
+      requiresApiKey: false,
+      // Ollama 与 llama.cpp 的兼容接口均支持 JSON 模式
+      structuredOutput: 'json-object'
+    });
+  }
+
+  // 去掉末尾的 /v1，得到服务根地址
+  private static root(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  getModels(): AIModel[] {
+    return this.discovered.map(id => ({
+      id,
+      name: id,
+      provider: this.name,
+      providerId: this.id,
+      description: `本地推理 · ${this.endpoint.baseUrl}`,
+      maxTokens: this.endpoint.contextWindow,
+      supported: true
+    }));
+  }
+
+  // 先尝试 Ollama 的 /api/tags，再尝试 OpenAI 兼容的 /v1/models（llama.cpp server）
+  async discoverModels(signal?: AbortSignal): Promise<AIModel[]> {
+    const root = LocalModelProvider.root(this.endpoint.baseUrl);
+    let lastError: unknown = null;
+    for (const path of ['/api/tags', '/v1/models']) {
+      try {
+        const res = await fetch(`${root}${path}`, { signal });
+        if (!res.ok) {
+          lastError = await this.toError(res);
+          continue;
+        }
+        const json = await res.json();
+        const list: unknown[] = Array.isArray(json?.models) ? json.models : Array.isArray(json?.data) ? json.data : [];
+        const ids = list.map(item => pick(item, 'name') || pick(item, 'model') || pick(item, 'id')).filter((id): id is string => !!id);
+        this.discovered = Array.from(new Set(ids));
+        return this.getModels();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        lastError = error;
+      }
+    }
+    const reason = lastError instanceof Error ? lastError.message : '未知错误';
+    throw new Error(`无法连接本地模型服务 ${root}：${reason}（确认服务已启动，Ollama 需设置 OLLAMA_ORIGINS 允许浏览器访问）`);
+  }
+}
+
+export function loadLocalEndpoint(): LocalEndpointConfig {
+  try {
+    const raw = localStorage.getItem(LOCAL_ENDPOINT_KEY);
+    return raw ? { ...DEFAULT_LOCAL_ENDPOINT, ...JSON.parse(raw) } : { ...DEFAULT_LOCAL_ENDPOINT };
+  } catch {
+    return { ...DEFAULT_LOCAL_ENDPOINT };
+  }
+}
+
+export function saveLocalEndpoint(config: LocalEndpointConfig): void {
+  localStorage.setItem(LOCAL_ENDPOINT_KEY, JSON.stringify(config));
+}
+
+// 内置供应商
+export function createBuiltinProviders(): AIProviderAdapter[] {
+  return [
+    new OpenAICompatibleProvider({
+      id: 'deepseek',
+      name: 'DeepSeek',
+      urls: ['https://api.deepseek.com/v1/chat/completions'],
+      structuredOutput: 'json-object',
+      models: [{ id: 'deepseek-chat', name: 'DeepSeek Chat', description: '专为代码审查优化的模型', maxTokens: 32768 }]
+    }),
+    new OpenAICompatibleProvider({
+      id: 'openai',
+      name: 'OpenAI',
+      urls: ['https://api.openai.com/v1/chat/completions'],
+      structuredOutput: 'json-schema',
+      models: [
+        { id: 'gpt-4o', name: 'GPT-4o', description: '支持结构化输出的通用模型', maxTokens: 128000 },
+        // 旧版 gpt-4 不接受 response_format
+        { id: 'gpt-4', name: 'GPT-4', description: '强大的通用语言模型', maxTokens: 8192, structuredOutput: 'none' }
+      ]
+    }),
+    new AnthropicProvider(),
+    new OpenAICompatibleProvider({
+      id: 'moonshot',
+      name: 'Moonshot',
+      urls: ['https://api.moonshot.cn/v1/chat/completions', 'https://api.moonshot.ai/v1/chat/completions'],
+      structuredOutput: 'json-object',
+      models: [{ id: 'kimi-k2', name: 'Kimi K2', description: '中文友好的代码分析模型', maxTokens: 200000 }]
+    }),
+    new OpenAICompatibleProvider({
+      id: 'doubao',
+      name: 'ByteDance',
+      urls: ['https://api.doubao.com/v1/chat/completions'],
+      models: [{ id: 'doubao-pro', name: '豆包Pro', description: '企业级代码审查模型', maxTokens: 32768 }]
+    })
+  ];
+}
+
+// 自定义端点地址：未以 /chat/completions 结尾时自动补全
+export function resolveChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+export function createCustomProvider(config: CustomEndpointConfig): AIProviderAdapter {
+  return new OpenAICompatibleProvider({
+    id: `custom:${config.id}`,
+    name: config.name,
+    urls: [resolveChatCompletionsUrl(config.baseUrl)],
+    models: [{ id: config.modelId, name: config.modelId, description: `自定义端点 · ${config.baseUrl}`, maxTokens: config.contextWindow }],
+    // 自建网关通常已配置 CORS，且无需经代理转发
+    corsSupported: true,
+    supportsProxy: false,
+    requiresApiKey: config.apiKeyRequired
+  });
+}
+
+export function loadCustomEndpoints(): CustomEndpointConfig[] {
+  try {
+    const raw = localStorage.getItem(CUSTOM_ENDPOINTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomEndpoints(endpoints: CustomEndpointConfig[]): void {
+  localStorage.setItem(CUSTOM_ENDPOINTS_KEY, JSON.stringify(endpoints));
+}
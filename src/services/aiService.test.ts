@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AIService from './aiService';
+
+interface SentRequest {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+const completion = (content: string) => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+const ISSUES = '{"issues": [{"line": 1, "type": "warning", "category": "security", "message": "m", "suggestion": "s", "code": "c", "context": []}]}';
+
+// 按顺序返回预设响应并记录请求
+function stubFetch(responses: Array<() => Response>): SentRequest[] {
+  const sent: SentRequest[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    sent.push({ url, body: JSON.parse(String(init.body)) });
+    const next = responses.shift();
+    if (!next) throw new Error('unexpected request');
+    return next();
+  }));
+  return sent;
+}
+
+function model(providerId: string, id: string) {
+  return AIService.getInstance().getProvider(providerId)!.getModels().find(item => item.id === id)!;
+}
+
+describe('AIService.reviewCode', () => {
+  const service = AIService.getInstance();
+
+  beforeEach(() => {
+    service.setCacheEnabled(false);
+    service.setConnectionMode('direct');
+    service.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 });
+    service.setApiKey('key');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    service.setFallbackModels([]);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('可重试错误按重试策略重发', async () => {
+    service.setModel(model('deepseek', 'deepseek-chat'));
+    const sent = stubFetch([() => new Response('busy', { status: 503 }), () => completion(ISSUES)]);
+    const review = await service.reviewCode('a.ts', 'code', 'typescript', '');
+    expect(sent).toHaveLength(2);
+    expect(review).toMatchObject({ status: 'completed', model: 'deepseek-chat' });
+    expect(review.issues).toHaveLength(1);
+  });
+
+  it('主模型用尽重试后按顺序切换备用模型', async () => {
+    service.setModel(model('deepseek', 'deepseek-chat'));
+    service.setFallbackModels([
+      { model: model('doubao', 'doubao-pro'), apiKey: 'k2' },
+      { model: model('openai', 'gpt-4o'), apiKey: 'k3' }
+    ]);
+    const sent = stubFetch([
+      () => new Response('busy', { status: 503 }),
+      () => new Response('busy', { status: 503 }),
+      // 认证失败不重试，直接切换下一个备用模型
+      () => new Response('bad key', { status: 401 }),
+      () => completion(ISSUES)
+    ]);
+    const onReset = vi.fn();
+    const review = await service.reviewCode('a.ts', 'code', 'typescript', '', undefined, { onReset });
+    expect(sent.map(request => request.body.model)).toEqual(['deepseek-chat', 'deepseek-chat', 'doubao-pro', 'gpt-4o']);
+    expect(review).toMatchObject({ status: 'completed', model: 'gpt-4o' });
+    expect(onReset).toHaveBeenCalledTimes(2);
+  });
+
+  it('所有模型失败时返回失败状态而不是抛出', async () => {
+    service.setModel(model('deepseek', 'deepseek-chat'));
+    stubFetch([() => new Response('bad key', { status: 401 })]);
+    const review = await service.reviewCode('a.ts', 'code', 'typescript', '');
+    expect(review).toMatchObject({ status: 'failed', issues: [] });
+    expect(review.error).toContain('401');
+  });
+
+  it('结构化输出参数被拒绝时改为普通输出重发，之后不再发送', async () => {
+    service.setModel(model('openai', 'gpt-4o'));
+    const sent = stubFetch([
+      () => new Response('{"error": {"message": "Invalid parameter: response_format"}}', { status: 400 }),
+      () => completion(ISSUES),
+      () => completion(ISSUES)
+    ]);
+    const first = await service.reviewCode('a.ts', 'code', 'typescript', '');
+    await service.reviewCode('b.ts', 'code', 'typescript', '');
+    expect(first.status).toBe('completed');
+    expect(sent.map(request => request.body.response_format?.['type'])).toEqual(['json_schema', undefined, undefined]);
+  });
+
+  it('与结构化输出无关的参数错误不重发', async () => {
+    service.setModel(model('deepseek', 'deepseek-chat'));
+    const sent = stubFetch([
+      () => new Response('{"error": {"message": "context length exceeded"}}', { status: 400 }),
+      () => completion(ISSUES)
+    ]);
+    const review = await service.reviewCode('a.ts', 'code', 'typescript', '');
+    expect(sent).toHaveLength(1);
+    expect(review.status).toBe('failed');
+  });
+});
@@ -1,29 +1,162 @@
-export interface AIModel {
-  id: string;
-  name: string;
-  provider: string;
-  description: string;
-  maxTokens: number;
-  supported: boolean;
-}
+import { RateLimiter, RateLimitError, RateLimits, sleep } from './rateLimiter';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getBackoffDelay, isRetryableError } from './retryPolicy';
+import { TokenUsage, addUsage, emptyUsage, estimateTokens, getModelPrice, isBudgetEnforceable, measureUsage } from './tokenUsage';
+import { IncrementalJsonArrayParser, readSseEvents } from './streamParser';
+import { ReviewCache, hashKey } from './reviewCache';
+import type { IssueStatus } from './issueTracking';
+import type { IssueTriage } from './triageService';
+import { CODE_ISSUE_SCHEMA, ISSUE_CATEGORIES, ISSUE_LIST_SCHEMA, ISSUE_TYPES, parseIssueOutput, validateSchema } from './issueSchema';
+import {
+  AIModel,
+  AIProviderAdapter,
+  AIRequestError,
+  CustomEndpointConfig,
+  LOCAL_PROVIDER_ID,
+  LocalEndpointConfig,
+  LocalModelProvider,
+  ReportedUsage,
+  createBuiltinProviders,
+  createCustomProvider,
+  loadCustomEndpoints,
+  loadLocalEndpoint,
+  saveCustomEndpoints,
+  saveLocalEndpoint
+} from './aiProviders';
+
+export type { AIModel, AIProviderAdapter, CustomEndpointConfig, LocalEndpointConfig };
+export { LOCAL_PROVIDER_ID, isLoopbackUrl } from './aiProviders';
+export { AIRequestError } from './aiProviders';
+export type { AIErrorKind } from './aiProviders';
+export type { RetryPolicy } from './retryPolicy';
+export type { TokenUsage } from './tokenUsage';
+export type { IssueStatus } from './issueTracking';
+export type { IssueTriage, TriageState } from './triageService';
 
 export interface CodeReview {
   file: string;
   issues: CodeIssue[];
   summary: string;
+  // AI 审查失败时为 failed，issues 仅含基础检查结果；缺省视为 completed
+  status?: 'completed' | 'failed';
+  error?: string;
+  // 实际给出结果的模型（主模型失败后可能由备用模型完成）
+  model?: string;
+  // 本文件所有 AI 请求（含重试成功、结构修正与备用模型）的用量
+  usage?: TokenUsage;
+  // 结果来自响应缓存，未发送请求
+  cached?: boolean;
+  // 审查时文件内容的 blob SHA，用于增量审查判断文件是否变化
+  sha?: string;
+  // 增量审查：文件未变化，结果沿用基准审查
+  carriedForward?: boolean;
+  // 增量审查：基准审查中存在、本次已不再出现的问题
+  fixedIssues?: CodeIssue[];
+  // 标记为不修复或误报而隐藏的问题
+  suppressedIssues?: CodeIssue[];
+  // 未抑制任何问题的行内忽略指令（ai-review-disable 注释）
+  unusedDirectives?: Array<{ line: number; text: string }>;
+  // 与基线匹配而不再报告的问题数
+  baselinedIssues?: number;
+}
+
+// 备用模型：主模型重试耗尽后按顺序切换
+export interface FallbackModel {
+  model: AIModel;
+  apiKey: string;
 }
 
 export interface CodeIssue {
   line: number;
   column?: number;
+  // 问题范围的结束位置（AST 检查给出）
+  endLine?: number;
+  endColumn?: number;
   type: 'error' | 'warning' | 'info' | 'style';
   category: 'security' | 'performance' | 'maintainability' | 'readability' | 'best-practices';
   message: string;
   suggestion: string;
   code: string;
   context: string[];
+  // 模型返回的原始问题对象（JSON），便于排查归一化差异
+  rawOutput?: string;
+  // 增量审查中相对基准审查的变化
+  status?: IssueStatus;
+  // 分诊状态（接受、不修复、误报）
+  triage?: IssueTriage;
+  // 产生该问题的基础检查规则 id；AI 问题为空
+  rule?: string;
+}
+
+export interface ReviewCodeOptions {
+  // 代码为带行号前缀的差异片段（差异审查模式）
+  excerpt?: boolean;
+  // 代码为大文件的一段，带原文件行号前缀
+  chunk?: { index: number; total: number; startLine: number; ownStartLine: number; endLine: number };
+  // 取消审查时中止请求
+  signal?: AbortSignal;
+  // 流式输出时，每解析出一个完整问题即回调（行号为模型原始输出）
+  onIssue?: (issue: CodeIssue) => void;
+  // 重试或切换备用模型前回调：此前通过 onIssue 推送的问题作废
+  onReset?: () => void;
+  // 每个请求完成后回调其用量，用于实时累计费用
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export type ConnectionTestStatus =
+  | 'ok'
+  | 'auth-failed'
+  | 'cors-blocked'
+  | 'model-not-found'
+  | 'quota-exceeded'
+  | 'rate-limited'
+  | 'network'
+  | 'timeout'
+  | 'error';
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  status: ConnectionTestStatus;
+  // 实际使用的连接方式
+  via: 'direct' | 'proxy';
+  // 探测请求耗时（毫秒）
+  latencyMs: number;
+  // 密钥是否通过校验；请求未到达服务端时为 null
+  authOk: boolean | null;
+  message: string;
+}
+
+// 连接测试超时
+const CONNECTION_TEST_TIMEOUT_MS = 15000;
+// 输出未通过结构校验时，携带校验错误请模型修正的最多次数
+const MAX_REPAIR_ATTEMPTS = 2;
+const SYSTEM_PROMPT = '你是资深代码审查专家。';
+// 提示词或结果归一化逻辑变化时递增，使旧的缓存结果失效
+const PROMPT_VERSION = '1';
+const ISSUE_RESPONSE_SCHEMA = { name: 'report_issues', description: '提交代码审查发现的问题', schema: ISSUE_LIST_SCHEMA };
+
+// 一次请求使用的模型、供应商与密钥（主模型或备用模型）
+interface ModelTarget {
+  model: AIModel;
+  provider: AIProviderAdapter;
+  apiKey: string;
 }
 
+// 单次请求预留给模型输出的 token 数
+const RESPONSE_TOKENS = 2048;
+// 提示词模板本身占用的 token 数（估算）
+const PROMPT_OVERHEAD_TOKENS = 400;
+// 上下文窗口小于该值的模型（多为本地模型）使用精简提示词
+const SMALL_CONTEXT_TOKENS = 8192;
+const COMPACT_RESPONSE_TOKENS = 1024;
+const COMPACT_PROMPT_OVERHEAD_TOKENS = 150;
+// 精简提示词下每段代码最多报告的问题数，避免输出被截断
+const COMPACT_MAX_ISSUES = 8;
+// 字符与 token 的换算，按 3 字符/token 保守估算（兼顾中文注释与规范）
+const CHARS_PER_TOKEN = 3;
+// 单段代码的字符上下限：上限避免单次响应问题过多被截断
+const MIN_CODE_CHARS = 2000;
+const MAX_CODE_CHARS = 40000;
+
 export class AIService {
   private static instance: AIService;
   private apiKey: string = '';
@@ -31,9 +164,26 @@ export class AIService {
   private connectionMode: 'auto' | 'direct' | 'proxy' = 'auto';
   private proxyUrl: string = '';
   private requestCountByModel: Record<string, number> = {};
-  private lastRequestAtByModel: Record<string, number> = {};
+  private limiters: Map<string, RateLimiter> = new Map();
+  private providers: Map<string, AIProviderAdapter> = new Map();
+  private customEndpoints: CustomEndpointConfig[] = [];
+  private localEndpoint: LocalEndpointConfig;
   private warnedProviders: Set<string> = new Set();
   private stats: { success: number; fail: number; lastError?: string } = { success: 0, fail: 0 };
+  private streaming: boolean = true;
+  // 拒绝 response_format 的模型（如旧版 gpt-4），按 providerId:modelId 记录后不再启用
+  private structuredUnsupported: Set<string> = new Set();
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  private fallbacks: FallbackModel[] = [];
+  private cacheEnabled: boolean = true;
+
+  constructor() {
+    createBuiltinProviders().forEach(provider => this.registerProvider(provider));
+    this.customEndpoints = loadCustomEndpoints();
+    this.customEndpoints.forEach(config => this.registerProvider(createCustomProvider(config)));
+    this.localEndpoint = loadLocalEndpoint();
+    this.registerProvider(new LocalModelProvider(this.localEndpoint));
+  }
 
   public static getInstance(): AIService {
     if (!AIService.instance) {
@@ -42,49 +192,75 @@ export class AIService {
     return AIService.instance;
   }
 
+  // 注册供应商适配器；id 相同时覆盖
+  registerProvider(provider: AIProviderAdapter): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  unregisterProvider(providerId: string): void {
+    this.providers.delete(providerId);
+    this.limiters.delete(providerId);
+  }
+
+  getProvider(providerId: string): AIProviderAdapter | undefined {
+    return this.providers.get(providerId);
+  }
+
+  getCustomEndpoints(): CustomEndpointConfig[] {
+    return [...this.customEndpoints];
+  }
+
+  // 新增或更新自定义 OpenAI 兼容端点，并持久化到本地
+  saveCustomEndpoint(config: CustomEndpointConfig): AIModel {
+    if (!config.baseUrl.trim() || !config.modelId.trim()) {
+      throw new Error('请填写端点地址和模型ID');
+    }
+    const normalized: CustomEndpointConfig = {
+      ...config,
+      name: config.name.trim() || config.modelId.trim(),
+      baseUrl: config.baseUrl.trim(),
+      modelId: config.modelId.trim(),
+      contextWindow: Math.max(4096, Math.floor(config.contextWindow) || 8192)
+    };
+    this.customEndpoints = [...this.customEndpoints.filter(item => item.id !== normalized.id), normalized];
+    saveCustomEndpoints(this.customEndpoints);
+    const provider = createCustomProvider(normalized);
+    this.registerProvider(provider);
+    return provider.getModels()[0];
+  }
+
+  removeCustomEndpoint(id: string): void {
+    this.customEndpoints = this.customEndpoints.filter(item => item.id !== id);
+    saveCustomEndpoints(this.customEndpoints);
+    this.unregisterProvider(`custom:${id}`);
+  }
+
+  getLocalEndpoint(): LocalEndpointConfig {
+    return { ...this.localEndpoint };
+  }
+
+  // 修改本地模型服务地址后需重新发现模型
+  setLocalEndpoint(config: LocalEndpointConfig): void {
+    if (!config.baseUrl.trim()) {
+      throw new Error('请填写本地模型服务地址');
+    }
+    this.localEndpoint = {
+      baseUrl: config.baseUrl.trim(),
+      contextWindow: Math.max(2048, Math.floor(config.contextWindow) || 4096)
+    };
+    saveLocalEndpoint(this.localEndpoint);
+    this.unregisterProvider(LOCAL_PROVIDER_ID);
+    this.registerProvider(new LocalModelProvider(this.localEndpoint));
+  }
+
+  // 从本地模型服务的模型列表接口发现已安装的模型
+  async discoverLocalModels(signal?: AbortSignal): Promise<AIModel[]> {
+    const provider = this.providers.get(LOCAL_PROVIDER_ID);
+    return provider?.discoverModels ? provider.discoverModels(signal) : [];
+  }
+
   getAvailableModels(): AIModel[] {
-    return [
-      {
-        id: 'deepseek-chat',
-        name: 'DeepSeek Chat',
-        provider: 'DeepSeek',
-        description: '专为代码审查优化的模型',
-        maxTokens: 32768,
-        supported: true
-      },
-      {
-        id: 'gpt-4',
-        name: 'GPT-4',
-        provider: 'OpenAI',
-        description: '强大的通用语言模型',
-        maxTokens: 8192,
-        supported: true
-      },
-      {
-        id: 'claude-3-sonnet',
-        name: 'Claude 3 Sonnet',
-        provider: 'Anthropic',
-        description: '专注于代码理解和分析',
-        maxTokens: 200000,
-        supported: true
-      },
-      {
-        id: 'kimi-k2',
-        name: 'Kimi K2',
-        provider: 'Moonshot',
-        description: '中文友好的代码分析模型',
-        maxTokens: 200000,
-        supported: true
-      },
-      {
-        id: 'doubao-pro',
-        name: '豆包Pro',
-        provider: 'ByteDance',
-        description: '企业级代码审查模型',
-        maxTokens: 32768,
-        supported: true
-      }
-    ];
+    return Array.from(this.providers.values()).flatMap(provider => provider.getModels());
   }
 
   setConnectionMode(mode: 'auto' | 'direct' | 'proxy'): void {
@@ -95,32 +271,85 @@ export class AIService {
     this.proxyUrl = url.trim();
   }
 
+  // 是否使用 SSE 流式输出（供应商不支持时自动按普通响应处理）
+  setStreaming(enabled: boolean): void {
+    this.streaming = enabled;
+  }
+
+  isStreaming(): boolean {
+    return this.streaming;
+  }
+
+  // 关闭后跳过缓存读取（仍写入新结果），用于强制重新审查
+  setCacheEnabled(enabled: boolean): void {
+    this.cacheEnabled = enabled;
+  }
+
+  isCacheEnabled(): boolean {
+    return this.cacheEnabled;
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = {
+      maxAttempts: Math.max(1, Math.floor(policy.maxAttempts)),
+      baseDelayMs: Math.max(0, policy.baseDelayMs),
+      maxDelayMs: Math.max(policy.baseDelayMs, policy.maxDelayMs)
+    };
+  }
+
+  getFallbackModels(): FallbackModel[] {
+    return [...this.fallbacks];
+  }
+
+  // 设置有序的备用模型列表
+  setFallbackModels(fallbacks: FallbackModel[]): void {
+    this.fallbacks = [...fallbacks];
+  }
+
   getStats(): { success: number; fail: number; lastError?: string } {
     return { ...this.stats };
   }
 
-  private getProviderConfig(modelId: string) {
-    const map: Record<string, { type: 'openai' | 'deepseek' | 'anthropic' | 'moonshot' | 'doubao', urls: string[], headerAuth: string, minIntervalMs: number, corsSupported?: boolean }> = {
-      'gpt-4': { type: 'openai', urls: ['https://api.openai.com/v1/chat/completions'], headerAuth: 'Authorization', minIntervalMs: 1000, corsSupported: false },
-      'deepseek-chat': { type: 'deepseek', urls: ['https://api.deepseek.com/v1/chat/completions'], headerAuth: 'Authorization', minIntervalMs: 1000, corsSupported: false },
-      'claude-3-sonnet': { type: 'anthropic', urls: ['https://api.anthropic.com/v1/messages'], headerAuth: 'x-api-key', minIntervalMs: 1000, corsSupported: false },
-      'kimi-k2': { type: 'moonshot', urls: ['https://api.moonshot.cn/v1/chat/completions','https://api.moonshot.ai/v1/chat/completions'], headerAuth: 'Authorization', minIntervalMs: 1000, corsSupported: false },
-      'doubao-pro': { type: 'doubao', urls: ['https://api.doubao.com/v1/chat/completions'], headerAuth: 'Authorization', minIntervalMs: 1000, corsSupported: false }
-    };
-    return map[modelId];
+  private getProviderFor(model: AIModel): AIProviderAdapter | undefined {
+    return this.providers.get(model.providerId);
+  }
+
+  // 当前模型是否需要API密钥（自建端点可不填）
+  requiresApiKey(model: AIModel | null = this.model): boolean {
+    const provider = model ? this.getProviderFor(model) : undefined;
+    return provider ? provider.requiresApiKey : true;
   }
 
-  private async enforceRateLimit(modelId: string) {
-    const now = Date.now();
-    const last = this.lastRequestAtByModel[modelId] || 0;
-    const cfg = this.getProviderConfig(modelId);
-    const minInterval = cfg?.minIntervalMs || 500;
-    const diff = now - last;
-    if (diff < minInterval) {
-      await new Promise(r => setTimeout(r, minInterval - diff));
+  // 供应商限流器，按供应商共享；默认 RPM 由最小请求间隔换算
+  private getLimiter(provider: AIProviderAdapter): RateLimiter {
+    let limiter = this.limiters.get(provider.id);
+    if (!limiter) {
+      limiter = new RateLimiter({
+        concurrency: provider.defaultConcurrency,
+        requestsPerMinute: Math.floor(60000 / provider.minIntervalMs)
+      });
+      this.limiters.set(provider.id, limiter);
     }
-    this.lastRequestAtByModel[modelId] = Date.now();
-    this.requestCountByModel[modelId] = (this.requestCountByModel[modelId] || 0) + 1;
+    return limiter;
+  }
+
+  getProviderLimits(model: AIModel): RateLimits | null {
+    const provider = this.getProviderFor(model);
+    return provider ? this.getLimiter(provider).getLimits() : null;
+  }
+
+  // 设置模型所属供应商的并发与每分钟请求数
+  setProviderLimits(model: AIModel, limits: RateLimits): void {
+    const provider = this.getProviderFor(model);
+    if (!provider) return;
+    this.getLimiter(provider).setLimits({
+      concurrency: Math.max(1, Math.floor(limits.concurrency)),
+      requestsPerMinute: Math.max(1, Math.floor(limits.requestsPerMinute))
+    });
   }
 
   private maskSensitive(text: string): string {
@@ -136,45 +365,147 @@ export class AIService {
     return masked;
   }
 
-  private buildPrompt(filePath: string, code: string, language: string, standards: string): string {
+  // 小上下文模型使用精简提示词，并缩小输出预留
+  private getPromptProfile(model: AIModel | null = this.model): { compact: boolean; responseTokens: number; overheadTokens: number } {
+    const compact = (model?.maxTokens || 8192) < SMALL_CONTEXT_TOKENS;
+    return compact
+      ? { compact, responseTokens: COMPACT_RESPONSE_TOKENS, overheadTokens: COMPACT_PROMPT_OVERHEAD_TOKENS }
+      : { compact, responseTokens: RESPONSE_TOKENS, overheadTokens: PROMPT_OVERHEAD_TOKENS };
+  }
+
+  // 规范可占用的字符上限：不超过输入预算的一半（精简模式为四分之一），其余留给代码
+  private getStandardsLimit(model: AIModel | null = this.model): number {
+    const maxTokens = model?.maxTokens || 8192;
+    const { compact, responseTokens, overheadTokens } = this.getPromptProfile(model);
+    return Math.floor((maxTokens - responseTokens - overheadTokens) / (compact ? 4 : 2)) * CHARS_PER_TOKEN;
+  }
+
+  // 单次请求可发送的代码字符数；配置备用模型时取各模型中最小的，保证切换后仍放得下
+  getCodeBudget(standards: string): number {
+    const models = [this.model, ...this.fallbacks.map(fallback => fallback.model)];
+    return Math.min(...models.map(model => this.getCodeBudgetFor(model, standards)));
+  }
+
+  // 由模型 maxTokens 扣除输出、提示词与规范后得出
+  private getCodeBudgetFor(model: AIModel | null, standards: string): number {
+    const maxTokens = model?.maxTokens || 8192;
+    const { compact, responseTokens, overheadTokens } = this.getPromptProfile(model);
+    const standardsTokens = Math.ceil(Math.min(standards.length, this.getStandardsLimit(model)) / CHARS_PER_TOKEN);
+    const available = (maxTokens - responseTokens - overheadTokens - standardsTokens) * CHARS_PER_TOKEN;
+    // 小上下文下不强行抬高到下限，否则会超出窗口
+    return compact
+      ? Math.max(500, Math.min(MAX_CODE_CHARS, available))
+      : Math.max(MIN_CODE_CHARS, Math.min(MAX_CODE_CHARS, available));
+  }
+
+  private buildPrompt(target: ModelTarget, filePath: string, code: string, language: string, standards: string, options: ReviewCodeOptions = {}): string {
+    if (this.getPromptProfile(target.model).compact) {
+      return this.buildCompactPrompt(target, filePath, code, language, standards, options);
+    }
     const header = `你是代码审查专家。严格依据以下开发规范进行审查，并只返回JSON：\n`;
-    const std = standards.slice(0, 8000);
-    const body = `文件: ${filePath}\n语言: ${language}\n请输出如下JSON数组，每项为问题：{ line, type, category, message, suggestion, code, context }，且仅返回JSON。`;
-    const content = `规范:\n${std}\n---\n代码:\n${code.substring(0, 15000)}`;
+    const std = standards.slice(0, this.getStandardsLimit(target.model));
+    const shape = this.usesStructuredOutput(target) ? '以 {"issues": [...]} 对象返回问题列表' : '请输出如下JSON数组';
+    let body = `文件: ${filePath}\n语言: ${language}\n${shape}，每项为问题：{ line, type, category, message, suggestion, code, context }，且仅返回JSON。`;
+    if (options.excerpt) {
+      body += `\n以下代码为本次变更片段及其上下文，每行格式为 "原文件行号 |标记 代码"，标记为 "+" 的行是变更行。只审查变更行，line 使用原文件行号，code 不包含行号与标记前缀。`;
+    } else if (options.chunk) {
+      const { index, total, startLine, ownStartLine, endLine } = options.chunk;
+      body += `\n文件较大，分段审查。以下为第 ${index + 1}/${total} 段（原文件第 ${startLine}-${endLine} 行），每行格式为 "原文件行号 | 代码"。line 使用原文件行号，code 不包含行号前缀。`;
+      if (ownStartLine > startLine) {
+        body += `第 ${startLine}-${ownStartLine - 1} 行为与上一段重叠的上下文，仅供理解，不要报告其中的问题。`;
+      }
+    }
+    const content = `规范:\n${std}\n---\n代码:\n${code}`;
     return `${header}${body}\n${content}`;
   }
 
-  private normalizeIssuesFromText(text: string, filePath: string, code: string): CodeIssue[] {
-    try {
-      const trimmed = text.trim();
-      const jsonStart = trimmed.indexOf('[');
-      const jsonEnd = trimmed.lastIndexOf(']');
-      if (jsonStart >= 0 && jsonEnd > jsonStart) {
-        const json = trimmed.substring(jsonStart, jsonEnd + 1);
-        const arr = JSON.parse(json);
-        if (Array.isArray(arr)) {
-          return arr.map((x: any) => ({
-            line: Number(x.line) || 1,
-            column: x.column ? Number(x.column) : undefined,
-            type: ['error','warning','info','style'].includes(x.type) ? x.type : 'info',
-            category: ['security','performance','maintainability','readability','best-practices'].includes(x.category) ? x.category : 'maintainability',
-            message: String(x.message || '问题'),
-            suggestion: String(x.suggestion || ''),
-            code: String(x.code || ''),
-            context: Array.isArray(x.context) ? x.context.map(String) : []
-          }));
-        }
+  // 精简提示词：小模型对长指令的遵循度差，只保留输出格式与行号约定
+  private buildCompactPrompt(target: ModelTarget, filePath: string, code: string, language: string, standards: string, options: ReviewCodeOptions): string {
+    const std = standards.slice(0, this.getStandardsLimit(target.model));
+    const shape = this.usesStructuredOutput(target) ? '只输出 {"issues": [...]} 对象' : '只输出JSON数组';
+    const lines = [
+      `审查 ${language} 文件 ${filePath}，${shape}，最多 ${COMPACT_MAX_ISSUES} 项，按严重程度排序。`,
+      '每项：{"line":行号,"type":"error|warning|info|style","category":"security|performance|maintainability|readability|best-practices","message":"","suggestion":"","code":""}'
+    ];
+    if (options.excerpt) {
+      lines.push('每行前缀为 "行号 |标记"，只审查标记为 + 的行，line 取前缀行号。');
+    } else if (options.chunk) {
+      const { startLine, ownStartLine } = options.chunk;
+      lines.push('每行前缀为 "行号 |"，line 取前缀行号。');
+      if (ownStartLine > startLine) lines.push(`第 ${ownStartLine} 行之前仅为上下文，不要报告。`);
+    }
+    if (std.trim()) lines.push(`规范:\n${std}`);
+    lines.push(`代码:\n${code}`);
+    return lines.join('\n');
+  }
+
+  private normalizeIssue(x: Record<string, unknown>): CodeIssue {
+    return {
+      line: Number(x.line) || 1,
+      column: x.column ? Number(x.column) : undefined,
+      type: (ISSUE_TYPES as readonly string[]).includes(x.type as string) ? x.type as CodeIssue['type'] : 'info',
+      category: (ISSUE_CATEGORIES as readonly string[]).includes(x.category as string)
+        ? x.category as CodeIssue['category']
+        : 'maintainability',
+      message: String(x.message || '问题'),
+      suggestion: String(x.suggestion || ''),
+      code: String(x.code || ''),
+      context: Array.isArray(x.context) ? x.context.map(String) : [],
+      rawOutput: JSON.stringify(x)
+    };
+  }
+
+  // 参数错误是否由结构化输出参数引起（密钥格式、上下文超长等其他 400 不算）
+  private isStructuredOutputRejected(error: unknown): boolean {
+    return error instanceof AIRequestError && error.kind === 'bad-request' &&
+      /response_format|json_schema|json_object|tool_choice|\btools?\b/i.test(error.body ?? error.message);
+  }
+
+  // 是否启用供应商的结构化输出（JSON 模式或工具调用）
+  private usesStructuredOutput({ provider, model }: ModelTarget): boolean {
+    if (provider.getStructuredOutput(model.id) === 'none') return false;
+    return !this.structuredUnsupported.has(`${provider.id}:${model.id}`);
+  }
+
+  private buildRepairPrompt(output: string, errors: string[]): string {
+    const listed = errors.slice(0, 20).map(error => `- ${error}`).join('\n');
+    return [
+      '你上一次的代码审查输出未通过结构校验，错误如下：',
+      listed,
+      `问题对象的 JSON Schema：${JSON.stringify(CODE_ISSUE_SCHEMA)}`,
+      '请修正后重新输出完整结果，保持问题内容不变，只返回 {"issues": [...]} 形式的JSON，不要附加说明。',
+      `上一次的输出：\n${output.slice(0, 12000)}`
+    ].join('\n');
+  }
+
+  // 解析并校验模型输出；未通过时把校验错误发回模型修正，最多 MAX_REPAIR_ATTEMPTS 次；仍无法解析时抛出
+  private async resolveIssues(
+    target: ModelTarget,
+    responseText: string,
+    log?: (phase: string, info?: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<CodeIssue[]> {
+    let output = responseText;
+    let result = parseIssueOutput(output);
+    for (let attempt = 1; result.errors.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (log) log('结构校验失败', `${result.errors.length} 处错误，第 ${attempt} 次请求修正：${result.errors.slice(0, 3).join('；')}`);
+      const repairedText = await this.requestWithLimit(target, this.buildRepairPrompt(output, result.errors), log, signal, undefined, onUsage);
+      const repaired = parseIssueOutput(repairedText);
+      // 修正结果更差时保留原结果
+      if (repaired.parsed && (repaired.errors.length === 0 || repaired.valid.length >= result.valid.length)) {
+        output = repairedText;
+        result = repaired;
       }
-    } catch {}
-    return [{
-      line: 1,
-      type: 'info',
-      category: 'readability',
-      message: 'AI返回非结构化内容，已记录文本',
-      suggestion: '调整提示词以返回JSON结构',
-      code: code.split('\n')[0] || '',
-      context: (code.split('\n').slice(0,3))
-    }];
+    }
+
+    if (result.errors.length > 0 && log) {
+      log('结构校验未通过', `已丢弃 ${result.invalidCount} 个无效问题：${result.errors.slice(0, 3).join('；')}`);
+    }
+    if (!result.parsed) {
+      throw new Error(`AI返回内容无法解析：${result.errors[0]}`);
+    }
+    return result.valid.map(item => this.normalizeIssue(item));
   }
 
   setApiKey(key: string): void {
@@ -189,178 +520,461 @@ export class AIService {
     return this.model;
   }
 
-  // 测试API连接
-  async testConnection(): Promise<boolean> {
-    if (!this.apiKey || !this.model) {
-      return false;
+  // 测试连接：向供应商发送最小请求（本地服务请求模型列表），按连接模式走直连或代理
+  async testConnection(): Promise<ConnectionTestResult> {
+    const failed = (status: ConnectionTestStatus, message: string, authOk: boolean | null): ConnectionTestResult =>
+      ({ ok: false, status, via: 'direct', latencyMs: 0, authOk, message });
+    if (!this.model) return failed('error', '未选择模型', null);
+    if (!this.apiKey && this.requiresApiKey()) return failed('auth-failed', '未填写API密钥', false);
+    const provider = this.getProviderFor(this.model);
+    if (!provider) return failed('error', '未配置的模型提供方', null);
+
+    const signal = AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS);
+    if (provider.discoverModels) {
+      return this.probeModelList(provider, signal);
+    }
+
+    const request = provider.buildRequest({ model: this.model.id, prompt: 'ping', maxTokens: 1, stream: false }, this.apiKey);
+    if (this.connectionMode === 'proxy' && provider.supportsProxy) {
+      return this.probeCompletion(provider, request, 'proxy', signal);
+    }
+    const direct = await this.probeCompletion(provider, request, 'direct', signal);
+    const unreachable = direct.status === 'cors-blocked' || direct.status === 'network';
+    if (this.connectionMode === 'auto' && provider.supportsProxy && this.proxyUrl && unreachable) {
+      return this.probeCompletion(provider, request, 'proxy', signal);
+    }
+    return direct;
+  }
+
+  // 能发现模型的供应商（本地服务）请求模型列表，确认服务可达且模型已安装
+  private async probeModelList(provider: AIProviderAdapter, signal: AbortSignal): Promise<ConnectionTestResult> {
+    const start = performance.now();
+    const result = (status: ConnectionTestStatus, message: string): ConnectionTestResult => ({
+      ok: status === 'ok',
+      status,
+      via: 'direct',
+      latencyMs: Math.round(performance.now() - start),
+      authOk: status === 'ok' || status === 'model-not-found' ? true : null,
+      message
+    });
+    try {
+      const models = await provider.discoverModels(signal);
+      return models.some(model => model.id === this.model?.id)
+        ? result('ok', `服务可达，共 ${models.length} 个模型`)
+        : result('model-not-found', `服务中未找到模型 ${this.model?.id}`);
+    } catch (error) {
+      if (signal.aborted) return result('timeout', '连接超时');
+      return result('network', error instanceof Error ? error.message : '无法连接本地模型服务');
+    }
+  }
+
+  private async probeCompletion(
+    provider: AIProviderAdapter,
+    request: { headers: Record<string, string>; body: Record<string, unknown> },
+    via: 'direct' | 'proxy',
+    signal: AbortSignal
+  ): Promise<ConnectionTestResult> {
+    const start = performance.now();
+    const result = (status: ConnectionTestStatus, message: string, authOk: boolean | null): ConnectionTestResult => ({
+      ok: status === 'ok',
+      status,
+      via,
+      latencyMs: Math.round(performance.now() - start),
+      authOk,
+      message
+    });
+    if (via === 'proxy' && !this.proxyUrl) return result('error', '未配置代理地址', null);
+
+    const targets = via === 'proxy'
+      ? [{ url: this.getProxyEndpoint(), headers: { 'Content-Type': 'application/json' }, body: { ...request.body, api_key: this.apiKey } }]
+      : provider.getEndpoints().map(url => ({ url, headers: request.headers, body: request.body }));
+    let last = result('error', '未配置请求地址', null);
+    for (const target of targets) {
+      try {
+        const res = await fetch(target.url, {
+          method: 'POST',
+          headers: target.headers,
+          body: JSON.stringify(target.body),
+          signal
+        });
+        if (res.ok) return result('ok', `HTTP ${res.status}`, true);
+        const error = await provider.toError(res);
+        if (error instanceof RateLimitError) return result('rate-limited', error.message, true);
+        if (error instanceof AIRequestError) {
+          if (error.kind === 'auth') return result('auth-failed', error.message, false);
+          if (error.kind === 'model-not-found') return result('model-not-found', error.message, true);
+          if (error.kind === 'quota') return result('quota-exceeded', error.message, true);
+          if (error.kind === 'bad-request') return result('error', error.message, true);
+        }
+        return result('error', error.message, null);
+      } catch (error) {
+        if (signal.aborted) return result('timeout', '连接超时', null);
+        last = via === 'direct' && await this.isReachableWithoutCors(target.url, signal)
+          ? result('cors-blocked', '服务可达，但浏览器跨域请求被拦截，请使用代理', null)
+          : result('network', error instanceof Error ? error.message : '网络错误', null);
+      }
     }
+    return last;
+  }
 
+  // 跨域拦截与网络不可达在浏览器中同为 TypeError；no-cors 请求能拿到不透明响应即说明服务可达
+  private async isReachableWithoutCors(url: string, signal: AbortSignal): Promise<boolean> {
     try {
-      // 模拟API测试
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await fetch(url, { method: 'POST', mode: 'no-cors', signal });
       return true;
-    } catch (error) {
-      console.error('API连接测试失败:', error);
+    } catch {
       return false;
     }
   }
 
+  private getProxyEndpoint(): string {
+    return `${this.proxyUrl.replace(/\/$/, '')}/v1/chat/completions`;
+  }
+
+  // 读取模型输出：SSE 流逐段回调 onDelta 并拼接全文，普通 JSON 响应直接取文本
+  private async readCompletion(
+    res: Response,
+    provider: AIProviderAdapter,
+    onDelta?: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; usage: ReportedUsage }> {
+    if (!(res.headers.get('content-type') || '').includes('text/event-stream')) {
+      const json = await res.json();
+      return { text: provider.extractText(json), usage: provider.extractUsage(json) || {} };
+    }
+
+    let text = '';
+    const usage: ReportedUsage = {};
+    await readSseEvents(res, (data, event) => {
+      if (data === '[DONE]') return;
+      let json: unknown;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        return;
+      }
+      const delta = provider.extractStreamDelta(json, event);
+      if (delta) {
+        text += delta;
+        onDelta?.(delta);
+      }
+      const reported = provider.extractUsage(json);
+      if (reported?.promptTokens !== undefined) usage.promptTokens = reported.promptTokens;
+      if (reported?.completionTokens !== undefined) usage.completionTokens = reported.completionTokens;
+    }, signal);
+    return { text, usage };
+  }
+
+  // 按供应商协议发送请求，返回模型输出文本；错误由适配器归类，HTTP 429 为 RateLimitError
+  private async sendRequest(
+    target: ModelTarget,
+    prompt: string,
+    log?: (phase: string, info?: string) => void,
+    signal?: AbortSignal,
+    onDelta?: (text: string) => void,
+    structured = this.usesStructuredOutput(target)
+  ): Promise<{ text: string; usage: ReportedUsage }> {
+    const { provider, model, apiKey } = target;
+    const stream = this.streaming && !!onDelta;
+    const { responseTokens } = this.getPromptProfile(model);
+    const request = provider.buildRequest({
+      model: model.id,
+      system: SYSTEM_PROMPT,
+      prompt,
+      maxTokens: responseTokens,
+      stream,
+      responseSchema: structured ? ISSUE_RESPONSE_SCHEMA : undefined
+    }, apiKey);
+    const preview = { model: model.id, max_tokens: responseTokens, stream, prompt: '<已省略>' };
+
+    const doDirect = async () => {
+      let lastErr: unknown = null;
+      for (const url of provider.getEndpoints()) {
+        try {
+          if (log) log('AI请求发送', JSON.stringify({ url, body: preview }));
+          const res = await fetch(url, {
+            method: 'POST',
+            headers: request.headers,
+            body: JSON.stringify(request.body),
+            signal
+          });
+          if (!res.ok) throw await provider.toError(res);
+          return await this.readCompletion(res, provider, onDelta, signal);
+        } catch (e) {
+          if (e instanceof RateLimitError || signal?.aborted) throw e;
+          lastErr = e;
+          if (log) log('AI请求异常', (e as Error).message);
+        }
+      }
+      throw lastErr ?? new Error('未配置请求地址');
+    };
+
+    const doProxy = async () => {
+      if (!provider.supportsProxy) throw new Error(`${provider.name} 不支持代理转发`);
+      if (!this.proxyUrl) throw new Error('未配置代理地址');
+      const proxyEndpoint = this.getProxyEndpoint();
+      const proxyBody = { ...request.body, api_key: apiKey };
+      if (log) log('代理请求发送', proxyEndpoint);
+      const res = await fetch(proxyEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(proxyBody),
+        signal
+      });
+      if (!res.ok) throw await provider.toError(res);
+      return this.readCompletion(res, provider, onDelta, signal);
+    };
+
+    if (this.connectionMode === 'direct' || !provider.supportsProxy) {
+      return doDirect();
+    }
+    if (this.connectionMode === 'proxy') {
+      return doProxy();
+    }
+    try {
+      return await doDirect();
+    } catch (e) {
+      if (this.proxyUrl && !(e instanceof RateLimitError) && !signal?.aborted) {
+        if (log) log('自动切换到代理', (e as Error).message);
+        return doProxy();
+      }
+      throw e;
+    }
+  }
+
+  // 经供应商限流器发送请求，按重试策略处理可重试错误：429 由限流器退避，其余指数退避加抖动；
+  // 模型拒绝结构化输出参数时关闭后重发。成功后通过 onUsage 上报用量（未返回 usage 时估算）。
+  // 流式输出时每次尝试通过 createDeltaSink 新建解析器，重发前调用 onReset 作废已推送的问题
+  private async requestWithLimit(
+    target: ModelTarget,
+    prompt: string,
+    log?: (phase: string, info?: string) => void,
+    signal?: AbortSignal,
+    createDeltaSink?: () => (text: string) => void,
+    onUsage?: (usage: TokenUsage) => void,
+    onReset?: () => void
+  ): Promise<string> {
+    const { provider, model } = target;
+    const limiter = this.getLimiter(provider);
+    // 结构化输出参数被拒绝后，本次请求改为普通输出重发一次
+    let plainRetry = false;
+    for (let attempt = 1; ; attempt++) {
+      const release = await limiter.acquire(signal);
+      this.requestCountByModel[model.id] = (this.requestCountByModel[model.id] || 0) + 1;
+      if (log) log('频率限制', `累计: ${this.requestCountByModel[model.id]} 次 · 并发 ${limiter.getEffectiveConcurrency()}`);
+      const structured = !plainRetry && this.usesStructuredOutput(target);
+      let wait = 0;
+      const sink = createDeltaSink?.();
+      let streamed = false;
+      const onDelta = sink && ((text: string) => { streamed = true; sink(text); });
+      try {
+        const { text, usage } = await this.sendRequest(target, prompt, log, signal, onDelta, structured);
+        limiter.reportSuccess();
+        // 普通输出重发成功，说明该模型确实不支持结构化输出参数，本次会话内不再使用
+        if (plainRetry) this.structuredUnsupported.add(`${provider.id}:${model.id}`);
+        onUsage?.(measureUsage(model, usage, SYSTEM_PROMPT + prompt, text));
+        return text;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        if (streamed) onReset?.();
+        if (structured && this.isStructuredOutputRejected(e)) {
+          plainRetry = true;
+          if (log) log('结构化输出不可用', `${model.name} 拒绝结构化输出参数，改为普通输出后重试`);
+          attempt--;
+          continue;
+        }
+        if (!isRetryableError(e) || attempt >= this.retryPolicy.maxAttempts) throw e;
+        if (e instanceof RateLimitError) {
+          const pause = limiter.reportRateLimited(e.retryAfterMs);
+          if (log) log('触发限流', `HTTP 429，${Math.ceil(pause / 1000)}s 后重试，并发降至 ${limiter.getEffectiveConcurrency()}`);
+        } else {
+          wait = getBackoffDelay(this.retryPolicy, attempt);
+          if (log) log('请求重试', `${(e as Error).message} · ${wait}ms 后第 ${attempt + 1}/${this.retryPolicy.maxAttempts} 次尝试`);
+        }
+      } finally {
+        release();
+      }
+      // 退避期间不占用并发名额
+      if (wait > 0) await sleep(wait, signal);
+    }
+  }
+
+  // 主模型在前，其后为可用的备用模型
+  private getTargets(): ModelTarget[] {
+    const candidates: FallbackModel[] = [{ model: this.model, apiKey: this.apiKey }, ...this.fallbacks];
+    const seen = new Set<string>();
+    return candidates.flatMap(({ model, apiKey }) => {
+      const key = `${model.providerId}:${model.id}`;
+      const provider = this.getProviderFor(model);
+      if (seen.has(key) || !provider || (!apiKey && provider.requiresApiKey)) return [];
+      seen.add(key);
+      return [{ model, provider, apiKey }];
+    });
+  }
+
+  // 预估一次审查请求的输入 token 与输出上限（按主模型）
+  estimateRequest(filePath: string, code: string, language: string, standards: string, options: ReviewCodeOptions = {}): { promptTokens: number; maxCompletionTokens: number } {
+    const provider = this.model ? this.getProviderFor(this.model) : undefined;
+    if (!provider) return { promptTokens: 0, maxCompletionTokens: 0 };
+    const target: ModelTarget = { model: this.model, provider, apiKey: this.apiKey };
+    const prompt = this.buildPrompt(target, filePath, this.maskSensitive(code), language, standards, options);
+    return {
+      promptTokens: estimateTokens(SYSTEM_PROMPT + prompt),
+      maxCompletionTokens: this.getPromptProfile(target.model).responseTokens
+    };
+  }
+
+  // 按主模型价格计算费用（美元）；未配置价格时返回 null
+  estimateCost(promptTokens: number, completionTokens: number, model: AIModel | null = this.model): number | null {
+    const price = model ? getModelPrice(model) : undefined;
+    return price ? (promptTokens * price.input + completionTokens * price.output) / 1e6 : null;
+  }
+
+  // 主模型与备用模型中无法按费用上限计费的模型
+  getUnpricedModels(): AIModel[] {
+    return [this.model, ...this.fallbacks.map(fallback => fallback.model)].filter(model => model && !isBudgetEnforceable(model));
+  }
+
   // 代码审查
   async reviewCode(
     filePath: string,
     code: string,
     language: string,
     standards: string,
-    log?: (phase: string, info?: string) => void
+    log?: (phase: string, info?: string) => void,
+    options: ReviewCodeOptions = {}
   ): Promise<CodeReview> {
-    if (!this.apiKey || !this.model) {
+    if (!this.model || (!this.apiKey && this.requiresApiKey())) {
       throw new Error('请先设置API密钥和选择模型');
     }
 
     console.log(`开始审查文件: ${filePath}`);
-    if (log) log('AI请求构建', `${this.model.name} · 基于规范执行`);
-    const start = performance.now();
-    const modelId = this.model.id;
-    const cfg = this.getProviderConfig(modelId);
     const maskedCode = this.maskSensitive(code);
-    const prompt = this.buildPrompt(filePath, maskedCode, language, standards);
-    const paramsPreview = { model: this.model.id, max_tokens: Math.min(this.model.maxTokens, 4096) };
-    if (log) log('参数校验', JSON.stringify(paramsPreview));
-    await this.enforceRateLimit(modelId);
-    if (log) log('频率限制', `累计: ${(this.requestCountByModel[modelId] || 0)} 次`);
+    const targets = this.getTargets();
+    let lastError: Error = new Error('未配置的模型提供方');
+    let usage = emptyUsage();
+    const recordUsage = (request: TokenUsage) => {
+      usage = addUsage(usage, request);
+      options.onUsage?.(request);
+    };
 
-    try {
-      let responseText = '';
-      if (!cfg) throw new Error('未配置的模型提供方');
+    const primary = targets[0];
+    const cacheKey = primary ? await this.getCacheKey(primary, maskedCode, language, standards, options) : null;
+    if (cacheKey && this.cacheEnabled) {
+      const cached = await this.readCache(cacheKey, log);
+      if (cached) {
+        if (log) log('缓存命中', `${filePath} · ${cached.issues.length} 个问题`);
+        cached.issues.forEach(issue => options.onIssue?.(issue));
+        return { ...cached, file: filePath, usage: emptyUsage(), cached: true };
+      }
+    }
 
-      // 提示（去重）：多数大模型供应商不支持浏览器直接跨域调用
-      if (cfg.corsSupported === false && !this.warnedProviders.has(modelId)) {
-        this.warnedProviders.add(modelId);
-        if (log) log('提示', '该供应商可能不支持浏览器直连，建议使用服务器代理');
+    for (const [index, target] of targets.entries()) {
+      if (index > 0 && log) log('切换备用模型', `${targets[index - 1].model.name} -> ${target.model.name}`);
+      try {
+        const issues = await this.reviewWithModel(target, filePath, maskedCode, language, standards, log, options, recordUsage);
+        this.stats.success++;
+        const summary = `审查完成，发现${issues.length}个问题`;
+        if (log) log('AI结果生成', summary);
+        const review: CodeReview = { file: filePath, issues, summary, status: 'completed', model: target.model.id, usage };
+        // 只缓存主模型的结果，避免备用模型的结果冒充主模型
+        if (cacheKey && target === primary) await this.writeCache(cacheKey, target, review, log);
+        return review;
+      } catch (err) {
+        // 取消不是调用失败，直接向上抛出
+        if (options.signal?.aborted) throw err;
+        lastError = err as Error;
+        if (log) log('AI请求失败', `${target.model.name} · ${lastError.message}`);
+        // 该模型已推送的问题不再有效（切换备用模型或最终失败）
+        options.onReset?.();
       }
+    }
 
-      if (cfg.type === 'openai' || cfg.type === 'deepseek' || cfg.type === 'moonshot' || cfg.type === 'doubao') {
-        const body = {
-          model: this.model.id,
-          messages: [
-            { role: 'system', content: '你是资深代码审查专家。' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0,
-          max_tokens: 2048
-        };
-        const doDirect = async () => {
-          let lastErr: any = null;
-          for (const url of cfg.urls) {
-            try {
-              if (log) log('AI请求发送', JSON.stringify({ url, body: { ...body, messages: [{ role: 'system' }, { role: 'user', content: '<已省略>' }] } }));
-              const res = await fetch(url, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  [cfg.headerAuth]: `Bearer ${this.apiKey}`
-                },
-                body: JSON.stringify(body)
-              });
-              if (!res.ok) {
-                const text = await res.text();
-                if (log) log('AI请求失败', `status ${res.status} · ${text.slice(0,200)}`);
-                lastErr = new Error(`HTTP ${res.status}`);
-                continue;
-              }
-              const json = await res.json();
-              return json?.choices?.[0]?.message?.content || json?.data || JSON.stringify(json);
-            } catch (e) {
-              lastErr = e;
-              if (log) log('AI请求异常', (e as Error).message);
-              continue;
-            }
-          }
-          if (lastErr) throw lastErr;
-          return '';
-        };
-
-        const doProxy = async () => {
-          if (!this.proxyUrl) throw new Error('未配置代理地址');
-          const proxyEndpoint = `${this.proxyUrl.replace(/\/$/, '')}/v1/chat/completions`;
-          const proxyBody: any = { ...body, api_key: this.apiKey };
-          if (log) log('代理请求发送', proxyEndpoint);
-          const res = await fetch(proxyEndpoint, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(proxyBody)
-          });
-          if (!res.ok) {
-            const text = await res.text();
-            throw new Error(`代理HTTP ${res.status} · ${text.slice(0,200)}`);
-          }
-          const json = await res.json();
-          return json?.choices?.[0]?.message?.content || json?.data || JSON.stringify(json);
-        };
-
-        if (this.connectionMode === 'direct') {
-          responseText = await doDirect();
-        } else if (this.connectionMode === 'proxy') {
-          responseText = await doProxy();
-        } else {
-          try {
-            responseText = await doDirect();
-          } catch (e) {
-            if (this.proxyUrl) {
-              if (log) log('自动切换到代理', (e as Error).message);
-              responseText = await doProxy();
-            } else {
-              throw e;
-            }
+    // 所有模型均失败：记录为文件状态，不再伪造问题
+    this.stats.fail++;
+    this.stats.lastError = lastError.message;
+    return { file: filePath, issues: [], summary: `AI调用失败：${lastError.message}`, status: 'failed', error: lastError.message, usage };
+  }
+
+  // 缓存键：代码、规范、提示词版本、模型与分段方式共同决定一次请求的结果
+  private async getCacheKey(
+    target: ModelTarget,
+    maskedCode: string,
+    language: string,
+    standards: string,
+    options: ReviewCodeOptions
+  ): Promise<string | null> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+    const shape = JSON.stringify({ excerpt: !!options.excerpt, chunk: options.chunk || null });
+    return hashKey([PROMPT_VERSION, `${target.model.providerId}:${target.model.id}`, language, shape, standards, maskedCode]);
+  }
+
+  // 缓存不可用（如隐私模式禁用 IndexedDB）时按未命中处理
+  private async readCache(key: string, log?: (phase: string, info?: string) => void): Promise<CodeReview | null> {
+    try {
+      return await ReviewCache.getInstance().get(key);
+    } catch (error) {
+      if (log) log('缓存不可用', (error as Error).message);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, target: ModelTarget, review: CodeReview, log?: (phase: string, info?: string) => void): Promise<void> {
+    try {
+      await ReviewCache.getInstance().set(key, `${target.model.providerId}:${target.model.id}`, { ...review, usage: undefined });
+    } catch (error) {
+      if (log) log('缓存写入失败', (error as Error).message);
+    }
+  }
+
+  // 使用指定模型完成一次审查（含重试与结构修正），失败时抛出
+  private async reviewWithModel(
+    target: ModelTarget,
+    filePath: string,
+    maskedCode: string,
+    language: string,
+    standards: string,
+    log: ((phase: string, info?: string) => void) | undefined,
+    options: ReviewCodeOptions,
+    onUsage: (usage: TokenUsage) => void
+  ): Promise<CodeIssue[]> {
+    const { model, provider } = target;
+    if (log) log('AI请求构建', `${model.name} · 基于规范执行`);
+    const start = performance.now();
+    const prompt = this.buildPrompt(target, filePath, maskedCode, language, standards, options);
+    const standardsLimit = this.getStandardsLimit(model);
+    if (log && standards.length > standardsLimit) {
+      log('规范截断', `规范 ${standards.length} 字符，超出模型预算，仅发送前 ${standardsLimit} 字符`);
+    }
+    const { compact, responseTokens } = this.getPromptProfile(model);
+    if (log && compact) log('精简提示词', `上下文 ${model.maxTokens} tokens，使用精简提示词`);
+    const paramsPreview = { model: model.id, max_tokens: responseTokens, stream: this.streaming && !!options.onIssue };
+    if (log) log('参数校验', JSON.stringify(paramsPreview));
+
+    // 提示（去重）：多数大模型供应商不支持浏览器直接跨域调用
+    if (!provider.corsSupported && !this.warnedProviders.has(model.id)) {
+      this.warnedProviders.add(model.id);
+      if (log) log('提示', '该供应商可能不支持浏览器直连，建议使用服务器代理');
+    }
+
+    // 流式输出时只推送通过校验的问题；每次请求尝试使用新的解析器
+    const createDeltaSink = options.onIssue
+      ? () => {
+        const parser = new IncrementalJsonArrayParser(value => {
+          if (validateSchema(value, CODE_ISSUE_SCHEMA).length === 0) {
+            options.onIssue?.(this.normalizeIssue(value as Record<string, unknown>));
           }
-        }
-      } else if (cfg.type === 'anthropic') {
-        const body = {
-          model: this.model.id,
-          max_tokens: 2048,
-          messages: [
-            { role: 'user', content: prompt }
-          ]
-        };
-        const url = cfg.urls[0];
-        if (log) log('AI请求发送', JSON.stringify({ url, body: { ...body, messages: [{ role: 'user', content: '<已省略>' }] } }));
-        const res = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            [cfg.headerAuth]: this.apiKey
-          },
-          body: JSON.stringify(body)
         });
-        const json = await res.json();
-        responseText = json?.content?.[0]?.text || JSON.stringify(json);
+        return (text: string) => parser.feed(text);
       }
+      : undefined;
+    const responseText = await this.requestWithLimit(target, prompt, log, options.signal, createDeltaSink, onUsage, options.onReset);
 
-      const duration = Math.round(performance.now() - start);
-      if (log) log('AI响应接收', `耗时 ${duration}ms`);
-      if (log) log('响应内容', responseText.slice(0, 1000));
-
-      const issues = this.normalizeIssuesFromText(responseText, filePath, code);
-      this.stats.success++;
-      const summary = `审查完成，发现${issues.length}个问题`;
-      if (log) log('AI结果生成', summary);
-      return { file: filePath, issues, summary };
-    } catch (err) {
-      if (log) log('AI请求失败', (err as Error).message);
-      this.stats.fail++;
-      this.stats.lastError = (err as Error).message;
-      const failIssue: CodeIssue = {
-        line: 1,
-        type: 'error',
-        category: 'maintainability',
-        message: 'AI调用失败，使用基础检查替代',
-        suggestion: '检查API密钥、CORS或网络；或稍后重试',
-        code: code.split('\n')[0] || '',
-        context: code.split('\n').slice(0,3)
-      };
-      const summary = 'AI调用失败，返回降级结果';
-      return { file: filePath, issues: [failIssue], summary };
-    }
+    const duration = Math.round(performance.now() - start);
+    if (log) log('AI响应接收', `耗时 ${duration}ms`);
+    if (log) log('响应内容', responseText.slice(0, 1000));
+
+    return this.resolveIssues(target, responseText, log, options.signal, onUsage);
   }
 
   // 批量审查
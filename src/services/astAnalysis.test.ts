@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSource } from './astAnalysis';
+
+describe('analyzeSource', () => {
+  it('函数范围与行数从 1 开始', () => {
+    const report = analyzeSource('a.ts', 'const x = 1;\n\n  function foo() {\n    return x;\n  }\n');
+    expect(report.functions).toEqual([{
+      name: 'foo',
+      range: { line: 3, column: 3, endLine: 5, endColumn: 4 },
+      complexity: 1,
+      nesting: 0,
+      lines: 3
+    }]);
+  });
+
+  it('圈复杂度统计分支与逻辑运算符，嵌套函数单独统计', () => {
+    const content = [
+      'function f(a, b) {',
+      '  for (const x of a) {',
+      '    if (x && b) continue;',
+      '    switch (x) { case 1: break; case 2: break; default: break; }',
+      '  }',
+      '  try { g(); } catch (e) { throw e; }',
+      '  const h = () => (a ? 1 : b ?? 2);',
+      '  return a || b;',
+      '}'
+    ].join('\n');
+    const [f, h] = analyzeSource('a.js', content).functions;
+    // 1 + for + if + && + 2 case + catch + ||
+    expect(f).toMatchObject({ name: 'f', complexity: 8 });
+    // 1 + 三元 + ??
+    expect(h).toMatchObject({ name: 'h', complexity: 3 });
+  });
+
+  it('else if 不增加嵌套层数', () => {
+    const content = [
+      'function f(a) {',
+      '  if (a === 1) {',
+      '  } else if (a === 2) {',
+      '  } else if (a === 3) {',
+      '    while (a) { a--; }',
+      '  }',
+      '}'
+    ].join('\n');
+    expect(analyzeSource('a.js', content).functions[0]).toMatchObject({ complexity: 5, nesting: 2 });
+  });
+
+  it('方法、构造函数和赋值的函数表达式使用对应名称', () => {
+    const content = 'class A {\n  constructor() {}\n  run() {}\n}\nconst obj = { go: function () {} };\n[1].map(() => 1);\n';
+    expect(analyzeSource('a.ts', content).functions.map(fn => fn.name)).toEqual(['constructor', 'run', 'go', '匿名函数']);
+  });
+
+  it('报告未使用的导入，类型位置的使用也算使用', () => {
+    const content = [
+      "import React, { useState } from 'react';",
+      "import * as fs from 'fs';",
+      "import type { Foo } from './foo';",
+      "import './side-effect';",
+      'let v: Foo = useState();'
+    ].join('\n');
+    expect(analyzeSource('a.ts', content).unusedImports).toEqual([
+      { name: 'React', range: { line: 1, column: 8, endLine: 1, endColumn: 13 } },
+      { name: 'fs', range: { line: 2, column: 13, endLine: 2, endColumn: 15 } }
+    ]);
+  });
+
+  it('JSX 隐式使用 React，经典运行时下不报告未使用', () => {
+    const component = "import React from 'react';\nexport const A = () => <><div /></>;\n";
+    expect(analyzeSource('a.tsx', component).unusedImports).toEqual([]);
+    expect(analyzeSource('b.tsx', "import React from 'react';\nexport const n = 1;\n").unusedImports.map(item => item.name)).toEqual(['React']);
+    // @jsx 注释指定的工厂函数
+    const preact = "/** @jsx h */\nimport { h } from 'preact';\nimport React from 'react';\nexport const A = () => <div />;\n";
+    expect(analyzeSource('c.jsx', preact).unusedImports.map(item => item.name)).toEqual(['React']);
+  });
+
+  it('报告空 catch 块，块内有注释时视为有意留空', () => {
+    const content = 'try { a(); } catch (e) {}\ntry { b(); } catch {\n  // 忽略\n}\n';
+    expect(analyzeSource('a.js', content).emptyCatches).toEqual([{ line: 1, column: 14, endLine: 1, endColumn: 26 }]);
+  });
+
+  it('报告 console 调用及方法名，不受字符串和注释影响', () => {
+    const content = '// console.log(1)\nconst s = "console.log";\n  console.error(s);\nlogger.console.log(s);\n';
+    expect(analyzeSource('a.js', content).consoleCalls).toEqual([
+      { method: 'error', range: { line: 3, column: 3, endLine: 3, endColumn: 19 } }
+    ]);
+  });
+
+  it('报告 any 类型的位置', () => {
+    const content = 'function f(a: any): Array<any> {\n  return a as any;\n}\n';
+    expect(analyzeSource('a.ts', content).anyTypes).toEqual([
+      { line: 1, column: 15, endLine: 1, endColumn: 18 },
+      { line: 1, column: 27, endLine: 1, endColumn: 30 },
+      { line: 2, column: 15, endLine: 2, endColumn: 18 }
+    ]);
+  });
+
+  it('按扩展名解析 TSX', () => {
+    const report = analyzeSource('a.tsx', 'const C = () => <div>{console.log(1)}</div>;\n');
+    expect(report.functions.map(fn => fn.name)).toEqual(['C']);
+    expect(report.consoleCalls).toHaveLength(1);
+  });
+});
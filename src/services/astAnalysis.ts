@@ -0,0 +1,192 @@
+import ts from 'typescript';
+
+// 源码中的位置范围，行列均从 1 开始
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  range: SourceRange;
+  // 圈复杂度：1 + 分支数（if、三元、循环、case、catch、&& / || / ??）
+  complexity: number;
+  // 控制语句最大嵌套层数；else if 不增加层数
+  nesting: number;
+  lines: number;
+}
+
+// 一次解析得到的全部指标，阈值判断由各规则完成
+export interface AstReport {
+  functions: FunctionMetrics[];
+  unusedImports: Array<{ name: string; range: SourceRange }>;
+  anyTypes: SourceRange[];
+  emptyCatches: SourceRange[];
+  consoleCalls: Array<{ method: string; range: SourceRange }>;
+}
+
+function scriptKind(fileName: string): ts.ScriptKind {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'ts':
+    case 'mts':
+    case 'cts':
+      return ts.ScriptKind.TS;
+    case 'tsx':
+      return ts.ScriptKind.TSX;
+    case 'jsx':
+      return ts.ScriptKind.JSX;
+    default:
+      return ts.ScriptKind.JS;
+  }
+}
+
+function rangeOf(sourceFile: ts.SourceFile, node: ts.Node): SourceRange {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { line: start.line + 1, column: start.character + 1, endLine: end.line + 1, endColumn: end.character + 1 };
+}
+
+function isFunctionWithBody(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node)) && !!node.body;
+}
+
+function functionName(node: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name) return node.name.getText(sourceFile);
+  // 赋值给变量或属性的函数表达式 / 箭头函数
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+    return parent.name.getText(sourceFile);
+  }
+  return '匿名函数';
+}
+
+const BRANCH_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+function isBranch(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression:
+      return BRANCH_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind);
+    default:
+      return false;
+  }
+}
+
+function isNestingStatement(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.SwitchStatement:
+    case ts.SyntaxKind.TryStatement:
+      return true;
+    default:
+      return false;
+  }
+}
+
+// 统计函数体的复杂度与嵌套；嵌套函数单独统计，不计入外层
+function measureFunction(node: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): FunctionMetrics {
+  let complexity = 1;
+  let nesting = 0;
+  const visit = (child: ts.Node, depth: number) => {
+    if (isFunctionWithBody(child)) return;
+    if (isBranch(child)) complexity++;
+    let childDepth = depth;
+    if (isNestingStatement(child)) {
+      const elseIf = ts.isIfStatement(child) && ts.isIfStatement(child.parent) && child.parent.elseStatement === child;
+      childDepth = elseIf ? depth : depth + 1;
+      nesting = Math.max(nesting, childDepth);
+    }
+    ts.forEachChild(child, grandchild => visit(grandchild, childDepth));
+  };
+  ts.forEachChild(node.body!, child => visit(child, 0));
+
+  const range = rangeOf(sourceFile, node);
+  return { name: functionName(node, sourceFile), range, complexity, nesting, lines: range.endLine - range.line + 1 };
+}
+
+// 导入的绑定名（不含仅有副作用的导入）
+function importBindings(declaration: ts.ImportDeclaration): ts.Identifier[] {
+  const clause = declaration.importClause;
+  if (!clause) return [];
+  const names: ts.Identifier[] = clause.name ? [clause.name] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) names.push(bindings.name);
+  if (bindings && ts.isNamedImports(bindings)) bindings.elements.forEach(element => names.push(element.name));
+  return names;
+}
+
+// 经典 JSX 运行时把 JSX 编译为 React.createElement，工厂名可用 @jsx 注释指定
+function jsxFactory(content: string): string {
+  return content.match(/@jsx\s+([A-Za-z_$][\w$]*)/)?.[1] || 'React';
+}
+
+function isJsx(node: ts.Node): boolean {
+  return ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+}
+
+// 解析 TS/JS 源码并收集指标；只做语法分析，不做类型检查
+export function analyzeSource(fileName: string, content: string): AstReport {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind(fileName));
+  const report: AstReport = { functions: [], unusedImports: [], anyTypes: [], emptyCatches: [], consoleCalls: [] };
+  const imports: ts.Identifier[] = [];
+  // 导入声明之外出现过的标识符
+  const referenced = new Set<string>();
+  const factory = jsxFactory(content);
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      imports.push(...importBindings(node));
+      return;
+    }
+    // JSX 隐式使用工厂函数，如 import React from 'react'
+    if (isJsx(node)) referenced.add(factory);
+    if (ts.isIdentifier(node)) {
+      referenced.add(node.text);
+    } else if (isFunctionWithBody(node)) {
+      report.functions.push(measureFunction(node, sourceFile));
+    } else if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      report.anyTypes.push(rangeOf(sourceFile, node));
+    } else if (ts.isCatchClause(node) && node.block.statements.length === 0) {
+      // 块内有注释视为有意留空
+      const body = node.block.getText(sourceFile).slice(1, -1);
+      if (!body.trim()) report.emptyCatches.push(rangeOf(sourceFile, node));
+    } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) && node.expression.expression.text === 'console') {
+      report.consoleCalls.push({ method: node.expression.name.text, range: rangeOf(sourceFile, node) });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  report.unusedImports = imports
+    .filter(identifier => !referenced.has(identifier.text))
+    .map(identifier => ({ name: identifier.text, range: rangeOf(sourceFile, identifier) }));
+  return report;
+}
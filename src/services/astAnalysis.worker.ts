@@ -0,0 +1,23 @@
+import { analyzeSource } from './astAnalysis';
+
+export interface AstWorkerRequest {
+  id: number;
+  fileName: string;
+  content: string;
+}
+
+export type AstWorkerResponse =
+  | { id: number; report: ReturnType<typeof analyzeSource> }
+  | { id: number; error: string };
+
+// TypeScript 编译器体积较大，在 Worker 中加载和解析，不阻塞页面
+self.addEventListener('message', (event: MessageEvent<AstWorkerRequest>) => {
+  const { id, fileName, content } = event.data;
+  let response: AstWorkerResponse;
+  try {
+    response = { id, report: analyzeSource(fileName, content) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
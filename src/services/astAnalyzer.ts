@@ -0,0 +1,89 @@
+import type { AstReport } from './astAnalysis';
+import type { AstWorkerRequest, AstWorkerResponse } from './astAnalysis.worker';
+
+// 单个文件的解析超时；超时或 Worker 不可用时跳过 AST 检查
+const ANALYZE_TIMEOUT_MS = 15000;
+
+export const AST_LANGUAGES = ['javascript', 'typescript'];
+
+// 在 Worker 中运行 TypeScript 编译器 API 分析 TS/JS 文件
+export class AstAnalyzer {
+  private static instance: AstAnalyzer;
+  private worker: Worker | null = null;
+  private unavailable = false;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (report: AstReport) => void; reject: (error: Error) => void }>();
+  // 同一文件的多条 AST 规则共用一次解析
+  private lastKey = '';
+  private lastReport: Promise<AstReport | null> | null = null;
+
+  public static getInstance(): AstAnalyzer {
+    if (!AstAnalyzer.instance) {
+      AstAnalyzer.instance = new AstAnalyzer();
+    }
+    return AstAnalyzer.instance;
+  }
+
+  // 返回 null 表示无法分析（不支持 Worker、解析失败或超时），调用方应跳过或回退
+  analyze(fileName: string, content: string): Promise<AstReport | null> {
+    const key = `${fileName}\u0000${content}`;
+    if (key !== this.lastKey || !this.lastReport) {
+      this.lastKey = key;
+      this.lastReport = this.request(fileName, content).catch(error => {
+        console.error(`AST分析失败: ${fileName}`, error);
+        return null;
+      });
+    }
+    return this.lastReport;
+  }
+
+  private getWorker(): Worker {
+    if (this.unavailable || typeof Worker === 'undefined') {
+      throw new Error('当前环境不支持 Web Worker');
+    }
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./astAnalysis.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<AstWorkerResponse>) => {
+        const data = event.data;
+        const entry = this.pending.get(data.id);
+        if (!entry) return;
+        this.pending.delete(data.id);
+        if ('error' in data) entry.reject(new Error(data.error));
+        else entry.resolve(data.report);
+      });
+      // Worker 加载失败时不再重试，本次会话内跳过 AST 检查
+      this.worker.addEventListener('error', () => {
+        this.unavailable = true;
+        this.terminate(new Error('AST Worker 加载失败'));
+      });
+    }
+    return this.worker;
+  }
+
+  private request(fileName: string, content: string): Promise<AstReport> {
+    return new Promise((resolve, reject) => {
+      const worker = this.getWorker();
+      const id = ++this.nextId;
+      // 超时后重建 Worker，避免卡住的解析影响后续文件
+      const timer = setTimeout(() => {
+        if (!this.pending.has(id)) return;
+        this.terminate(new Error(`解析超时（${ANALYZE_TIMEOUT_MS / 1000}秒）`));
+      }, ANALYZE_TIMEOUT_MS);
+      this.pending.set(id, {
+        resolve: report => { clearTimeout(timer); resolve(report); },
+        reject: error => { clearTimeout(timer); reject(error); }
+      });
+      const message: AstWorkerRequest = { id, fileName, content };
+      worker.postMessage(message);
+    });
+  }
+
+  private terminate(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(entry => entry.reject(error));
+    this.pending.clear();
+  }
+}
+
+export default AstAnalyzer;
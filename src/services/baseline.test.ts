@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeIssue, CodeReview } from './aiService';
+import type { ReviewResult } from './reviewService';
+import { applyBaseline, baselineCounts, createBaseline, parseBaseline } from './baseline';
+
+function makeIssue(line: number, message: string, code: string): CodeIssue {
+  return { line, type: 'warning', category: 'maintainability', message, suggestion: '', code, context: [] };
+}
+
+function review(file: string, issues: CodeIssue[], suppressedIssues?: CodeIssue[]): CodeReview {
+  return { file, issues, summary: '', suppressedIssues };
+}
+
+const result = {
+  repository: 'https://github.com/acme/app',
+  reviews: [
+    review('a.ts', [makeIssue(1, 'a', 'x()'), makeIssue(2, 'a', 'x()')], [makeIssue(9, 'ignored', 'q()')]),
+    review('b.ts', [makeIssue(5, 'b', 'y()')])
+  ]
+} as ReviewResult;
+
+describe('createBaseline / parseBaseline', () => {
+  it('包含全部问题（含被分诊隐藏的），可以序列化后读回', () => {
+    const baseline = createBaseline(result);
+    expect(baseline.repository).toBe(result.repository);
+    expect(baseline.issues.map(issue => `${issue.file}:${issue.line}`)).toEqual(['a.ts:1', 'a.ts:2', 'a.ts:9', 'b.ts:5']);
+    expect(parseBaseline(JSON.stringify(baseline))).toEqual(baseline);
+  });
+
+  it('拒绝不是基线的 JSON', () => {
+    expect(() => parseBaseline('{"issues": []}')).toThrow('不是有效的基线文件');
+    expect(() => parseBaseline('[]')).toThrow();
+  });
+});
+
+describe('applyBaseline', () => {
+  it('行号变化后仍匹配，基线之外的问题照常报告', () => {
+    const counts = baselineCounts(createBaseline(result));
+    const later = review('b.ts', [makeIssue(50, 'b', '  y( )'), makeIssue(51, 'new', 'z()')]);
+    const { review: filtered, matched } = applyBaseline(later, counts);
+    expect(matched).toBe(1);
+    expect(filtered.issues.map(issue => issue.message)).toEqual(['new']);
+    expect(filtered.baselinedIssues).toBe(1);
+  });
+
+  it('同一指纹按基线中的次数匹配，多出的视为新问题', () => {
+    const counts = baselineCounts(createBaseline(result));
+    const later = review('a.ts', [1, 2, 3].map(line => makeIssue(line, 'a', 'x()')));
+    const { review: filtered } = applyBaseline(later, counts);
+    expect(filtered.issues.map(issue => issue.line)).toEqual([3]);
+  });
+
+  it('没有基线时原样返回', () => {
+    const original = review('a.ts', [makeIssue(1, 'a', 'x()')]);
+    expect(applyBaseline(original, new Map())).toEqual({ review: original, matched: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import type { CodeReview } from './aiService';
+import type { ReviewResult } from './reviewService';
+import { issueFingerprint } from './issueTracking';
+
+// 提交到仓库根目录的基线文件名
+export const BASELINE_FILE = '.ai-review-baseline.json';
+
+export interface BaselineIssue {
+  file: string;
+  fingerprint: string;
+  // 以下字段仅便于人工查看，匹配只用指纹
+  line: number;
+  category: string;
+  message: string;
+}
+
+// 基线：采纳工具时已存在的问题，后续审查只报告基线之外的问题
+export interface ReviewBaseline {
+  version: 1;
+  repository?: string;
+  createdAt: string;
+  issues: BaselineIssue[];
+}
+
+// 由审查结果生成基线；被分诊隐藏的问题同样计入
+export function createBaseline(result: ReviewResult): ReviewBaseline {
+  return {
+    version: 1,
+    repository: result.repository,
+    createdAt: new Date().toISOString(),
+    issues: result.reviews.flatMap(review =>
+      [...review.issues, ...(review.suppressedIssues || [])].map(issue => ({
+        file: review.file,
+        fingerprint: issueFingerprint(review.file, issue),
+        line: issue.line,
+        category: issue.category,
+        message: issue.message
+      })))
+  };
+}
+
+export function parseBaseline(text: string): ReviewBaseline {
+  const data = JSON.parse(text) as ReviewBaseline;
+  if (!data || data.version !== 1 || !Array.isArray(data.issues)) {
+    throw new Error('不是有效的基线文件');
+  }
+  return data;
+}
+
+// 指纹 -> 剩余可匹配次数；同一指纹出现多次时按次数匹配，一次审查内共用
+export function baselineCounts(baseline: ReviewBaseline): Map<string, number> {
+  const counts = new Map<string, number>();
+  baseline.issues.forEach(issue => counts.set(issue.fingerprint, (counts.get(issue.fingerprint) || 0) + 1));
+  return counts;
+}
+
+// 去掉基线中已存在的问题；指纹不含行号，问题代码上下移动后仍能匹配
+export function applyBaseline(review: CodeReview, counts: Map<string, number>): { review: CodeReview; matched: number } {
+  if (counts.size === 0) return { review, matched: 0 };
+  const issues = review.issues.filter(issue => {
+    const key = issueFingerprint(review.file, issue);
+    const remaining = counts.get(key) || 0;
+    if (remaining === 0) return true;
+    counts.set(key, remaining - 1);
+    return false;
+  });
+  const matched = review.issues.length - issues.length;
+  return { review: matched > 0 ? { ...review, issues, baselinedIssues: matched } : review, matched };
+}
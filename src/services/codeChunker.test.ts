@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { chunkCode } from './codeChunker';
+
+// 生成 count 个函数，每个函数 bodyLines 行函数体
+function functions(count: number, bodyLines: number): string {
+  return Array.from({ length: count }, (_, n) => [
+    `function f${n}() {`,
+    ...Array.from({ length: bodyLines }, (_, i) => `  const v${i} = ${i};`),
+    '}',
+    ''
+  ].join('\n')).join('\n');
+}
+
+describe('chunkCode', () => {
+  it('小文件不切分', () => {
+    const chunks = chunkCode('const a = 1;\nconst b = 2;', 'javascript', { maxChars: 1000 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ startLine: 1, ownStartLine: 1, endLine: 2 });
+    expect(chunks[0].content).toBe('1 | const a = 1;\n2 | const b = 2;');
+  });
+
+  it('各段负责的行连续且覆盖整个文件，每段不超过预算', () => {
+    const content = functions(12, 8);
+    const total = content.split('\n').length;
+    const chunks = chunkCode(content, 'javascript', { maxChars: 600, overlapLines: 3 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].ownStartLine).toBe(1);
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.ownStartLine).toBe(chunks[i].endLine + 1));
+    expect(chunks[chunks.length - 1].endLine).toBe(total);
+    chunks.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(600));
+  });
+
+  it('在函数声明处切分，并保留与上一段重叠的上下文', () => {
+    const content = functions(12, 8);
+    const lines = content.split('\n');
+    const chunks = chunkCode(content, 'javascript', { maxChars: 600, overlapLines: 3 });
+    chunks.slice(1).forEach(chunk => {
+      expect(lines[chunk.ownStartLine - 1]).toMatch(/^function f\d+/);
+      expect(chunk.startLine).toBe(chunk.ownStartLine - 3);
+      expect(chunk.content.split('\n')[0].trim().startsWith(`${chunk.startLine} |`)).toBe(true);
+    });
+  });
+
+  it('声明上方的注释与声明放在同一段', () => {
+    const block = (n: number) => [`# helper ${n}`, `def f${n}():`, ...Array.from({ length: 6 }, () => '    pass'), ''].join('\n');
+    const content = Array.from({ length: 8 }, (_, n) => block(n)).join('\n');
+    const lines = content.split('\n');
+    const chunks = chunkCode(content, 'python', { maxChars: 400, overlapLines: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.slice(1).forEach(chunk => expect(lines[chunk.ownStartLine - 1]).toMatch(/^# helper/));
+  });
+});
@@ -0,0 +1,132 @@
+export interface CodeChunk {
+  // 含重叠上下文的起始行（从 1 开始）
+  startLine: number;
+  // 本段负责审查的起始行；startLine 至 ownStartLine - 1 为与上一段重叠的上下文
+  ownStartLine: number;
+  endLine: number;
+  // 带原文件行号前缀的代码，格式为 "行号 | 代码"
+  content: string;
+}
+
+export interface ChunkOptions {
+  // 单段最大字符数（含行号前缀）
+  maxChars: number;
+  // 与上一段重叠的行数
+  overlapLines?: number;
+}
+
+const DEFAULT_OVERLAP_LINES = 20;
+
+const JS_DECLARATION = /^\s*(export\s+(default\s+)?)?(async\s+)?(function\b|class\b|(const|let|var)\s+[\w$]+\s*=\s*(async\s+)?(function\b|\([^)]*\)\s*=>|[\w$]+\s*=>))/;
+const TS_DECLARATION = /^\s*(export\s+(default\s+)?)?(declare\s+)?(abstract\s+)?(interface|type\s+\w+|enum|namespace|module)\b/;
+// Java / C# / C / C++：类型声明，或形如 "修饰符 返回类型 名称(" 的方法声明
+const C_FAMILY_DECLARATION = /^\s*(?!(if|else|for|while|switch|return|catch|do|new|throw|case)\b)((public|private|protected|internal|static|final|abstract|virtual|override|async|inline|unsafe|synchronized|sealed|partial)\s+)*((class|struct|interface|enum|namespace|record)\s+\w+|[\w<>[\],.:*&]+\s+[*&]?[\w:~]+\s*\([^;]*$)/;
+
+// 各语言的函数/类声明起始行
+const DECLARATION_PATTERNS: Record<string, RegExp[]> = {
+  javascript: [JS_DECLARATION],
+  typescript: [JS_DECLARATION, TS_DECLARATION],
+  vue: [JS_DECLARATION, TS_DECLARATION],
+  svelte: [JS_DECLARATION, TS_DECLARATION],
+  python: [/^\s*(async\s+def|def|class)\s/],
+  go: [/^(func|type)\s/],
+  rust: [/^\s*(pub(\([^)]*\))?\s+)?(async\s+|unsafe\s+|const\s+)?(fn|struct|enum|impl|trait|mod)\b/],
+  ruby: [/^\s*(def|class|module)\s/],
+  php: [/^\s*((abstract|final|public|private|protected|static)\s+)*(function|class|interface|trait)\s/],
+  kotlin: [/^\s*((public|private|protected|internal|override|open|abstract|data|sealed|suspend|inline)\s+)*(fun|class|object|interface)\s/],
+  swift: [/^\s*((public|private|fileprivate|internal|open|static|final|override)\s+)*(func|class|struct|enum|protocol|extension)\s/],
+  java: [C_FAMILY_DECLARATION],
+  csharp: [C_FAMILY_DECLARATION],
+  c: [C_FAMILY_DECLARATION],
+  cpp: [C_FAMILY_DECLARATION]
+};
+
+// 紧贴声明之上的注释、装饰器与注解，切分时与声明放在同一段
+const LEADING_TRIVIA = /^\s*(\/\/|\/\*|\*|#|@|\[\w)/;
+
+function indentOf(line: string): number {
+  const match = line.match(/^[ \t]*/);
+  return match ? match[0].replace(/\t/g, '    ').length : 0;
+}
+
+// 返回可作为切分点的行（0 起索引）及其缩进，缩进越小越优先
+function findBoundaries(lines: string[], language: string): Map<number, number> {
+  const patterns = DECLARATION_PATTERNS[language] || [JS_DECLARATION];
+  const boundaries = new Map<number, number>();
+  lines.forEach((line, i) => {
+    if (patterns.some(rx => rx.test(line))) {
+      boundaries.set(i, indentOf(line));
+    } else if (i > 0 && !lines[i - 1].trim() && line.trim() && indentOf(line) === 0) {
+      // 空行后的顶层代码，作为无法识别声明时的后备切分点
+      boundaries.set(i, Number.MAX_SAFE_INTEGER - 1);
+    }
+  });
+  return boundaries;
+}
+
+// 在 (own, end] 中选择切分行：优先后半段中缩进最小、位置最靠后的声明
+function pickCut(lines: string[], boundaries: Map<number, number>, own: number, end: number): number {
+  const half = own + Math.floor((end - own) / 2);
+  const pick = (from: number): number | null => {
+    let best: number | null = null;
+    let bestIndent = Number.MAX_SAFE_INTEGER;
+    for (let i = from; i <= end && i < lines.length; i++) {
+      const indent = boundaries.get(i);
+      if (indent !== undefined && indent <= bestIndent) {
+        best = i;
+        bestIndent = indent;
+      }
+    }
+    return best;
+  };
+  let cut = pick(Math.max(own + 1, half)) ?? pick(own + 1);
+  if (cut === null) return end;
+
+  while (cut - 1 > own && LEADING_TRIVIA.test(lines[cut - 1])) cut--;
+  return cut;
+}
+
+export function formatNumberedLines(lines: string[], startLine: number, width: number): string {
+  return lines.map((line, i) => `${String(startLine + i).padStart(width)} | ${line}`).join('\n');
+}
+
+// 按函数/类边界将代码切分为多段，相邻段之间保留重叠的上下文行
+export function chunkCode(content: string, language: string, options: ChunkOptions): CodeChunk[] {
+  const lines = content.split('\n');
+  const width = String(lines.length).length;
+  const overlap = options.overlapLines ?? DEFAULT_OVERLAP_LINES;
+  const cost = (i: number) => lines[i].length + width + 4;
+  const boundaries = findBoundaries(lines, language);
+  const chunks: CodeChunk[] = [];
+
+  let own = 0;
+  while (own < lines.length) {
+    // 重叠上下文最多占用一半预算
+    let start = Math.max(0, own - overlap);
+    let size = 0;
+    for (let i = start; i < own; i++) size += cost(i);
+    while (start < own && size > options.maxChars / 2) {
+      size -= cost(start);
+      start++;
+    }
+
+    let end = own;
+    while (end < lines.length && (end === own || size + cost(end) <= options.maxChars)) {
+      size += cost(end);
+      end++;
+    }
+    if (end < lines.length) {
+      end = pickCut(lines, boundaries, own, end);
+    }
+
+    chunks.push({
+      startLine: start + 1,
+      ownStartLine: own + 1,
+      endLine: end,
+      content: formatNumberedLines(lines.slice(start, end), start + 1, width)
+    });
+    own = end;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { analyzeSource } from './astAnalysis';
+import RuleRegistry, { CodeRule } from './codeRules';
+
+// 测试环境没有 Web Worker，直接在当前线程解析
+vi.mock('./astAnalyzer', () => ({
+  AST_LANGUAGES: ['javascript', 'typescript'],
+  default: { getInstance: () => ({ analyze: async (fileName: string, content: string) => analyzeSource(fileName, content) }) }
+}));
+
+const registry = RuleRegistry.getInstance();
+
+function ruleIds(issues: { rule?: string }[]): string[] {
+  return [...new Set(issues.map(issue => issue.rule))].sort();
+}
+
+describe('RuleRegistry.run', () => {
+  afterEach(() => {
+    registry.unregister('custom');
+    vi.restoreAllMocks();
+  });
+
+  it('按行检查并附带规则 id、代码和上下文', async () => {
+    const issues = await registry.run('a.py', 'x = 1 \n# TODO later\n', 'python');
+    expect(ruleIds(issues)).toEqual(['todo-comment', 'trailing-whitespace']);
+    const trailing = issues.find(issue => issue.rule === 'trailing-whitespace')!;
+    expect(trailing).toMatchObject({ line: 1, type: 'style', code: 'x = 1 ', context: ['x = 1 ', '# TODO later', ''] });
+  });
+
+  it('只运行适用于该语言的规则', async () => {
+    const content = 'console.log(1);\nlet a: any;\n';
+    expect(ruleIds(await registry.run('a.ts', content, 'typescript'))).toEqual(['no-console', 'no-explicit-any']);
+    expect(ruleIds(await registry.run('a.js', 'console.log(1);\n', 'javascript'))).toEqual(['no-console']);
+    expect(await registry.run('a.py', 'print(1)\n', 'python')).toEqual([]);
+  });
+
+  it('AST 规则给出精确范围，注释中的 console 不报告', async () => {
+    const content = '// console.log(1)\nconst s = "console.x";\nconsole.warn(s);\n';
+    const issues = await registry.run('a.ts', content, 'typescript');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rule: 'no-console', line: 3, column: 1, endLine: 3, endColumn: 16, code: 'console.warn(s);' });
+  });
+
+  it('Vue 文件按行匹配 console 与定义数量', async () => {
+    const defs = Array.from({ length: 3 }, (_, i) => `function f${i}() {}`).join('\n');
+    const issues = await registry.run('a.vue', `${defs}\nconsole.log(1)\n`, 'vue', { 'max-definitions': { threshold: 2 } });
+    expect(ruleIds(issues)).toEqual(['max-definitions', 'no-console']);
+  });
+
+  it('使用项目配置的阈值、级别和启用状态', async () => {
+    const line = 'x'.repeat(50);
+    const content = `${line}\n// TODO\n`;
+    expect(await registry.run('a.py', content, 'python')).toHaveLength(1);
+    const issues = await registry.run('a.py', content, 'python', {
+      'max-line-length': { threshold: 40, severity: 'error' },
+      'todo-comment': { enabled: false }
+    });
+    expect(issues.map(issue => [issue.rule, issue.type])).toEqual([['max-line-length', 'error']]);
+    expect(issues[0].message).toContain('40');
+  });
+
+  it('复杂度、嵌套与函数长度按阈值报告', async () => {
+    const content = 'function f(a) {\n  if (a) {\n    if (a > 1) {\n      return a && a.b;\n    }\n  }\n}\n';
+    const settings = { complexity: { threshold: 3 }, 'max-nesting': { threshold: 1 }, 'max-function-lines': { threshold: 6 } };
+    const issues = await registry.run('a.js', content, 'javascript', settings);
+    expect(issues.map(issue => issue.message)).toEqual([
+      '函数 f 的圈复杂度为 4，超过 3',
+      '函数 f 的控制语句嵌套 2 层，超过 1 层',
+      '函数 f 共 7 行，超过 6 行'
+    ]);
+  });
+
+  it('注册的规则参与检查，出错的规则不影响其他规则', async () => {
+    const custom: CodeRule = {
+      id: 'custom',
+      name: '自定义',
+      languages: ['python'],
+      severity: 'info',
+      category: 'security',
+      check: ({ lines }) => lines.flatMap((text, i) => text.includes('eval') ? [{ line: i + 1, message: 'eval', suggestion: '' }] : [])
+    };
+    registry.register(custom);
+    expect(registry.getRules()).toContain(custom);
+    expect((await registry.run('a.py', 'eval(x)\n', 'python')).map(issue => issue.rule)).toEqual(['custom']);
+
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    registry.register({ ...custom, check: () => { throw new Error('boom'); } });
+    expect(await registry.run('a.py', 'eval(x) \n', 'python')).toMatchObject([{ rule: 'trailing-whitespace' }]);
+    expect(console.error).toHaveBeenCalled();
+
+    registry.unregister('custom');
+    expect(registry.getRules().some(rule => rule.id === 'custom')).toBe(false);
+  });
+});
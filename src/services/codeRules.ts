@@ -0,0 +1,294 @@
+import type { CodeIssue } from './aiService';
+import type { AstReport, SourceRange } from './astAnalysis';
+import AstAnalyzer, { AST_LANGUAGES } from './astAnalyzer';
+
+export type RuleSeverity = CodeIssue['type'];
+
+// 规则命中的位置与描述；类型与类别由规则定义和项目配置决定
+export interface RuleFinding {
+  line: number;
+  // AST 规则给出精确范围
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  message: string;
+  suggestion: string;
+  // 默认取该行代码及上下各 2 行
+  code?: string;
+  context?: string[];
+}
+
+export interface RuleContext {
+  filePath: string;
+  content: string;
+  lines: string[];
+  language: string;
+  // 规则阈值（项目配置或默认值）；规则无阈值时为 undefined
+  threshold?: number;
+}
+
+export interface CodeRule {
+  id: string;
+  name: string;
+  // 适用的语言（与 detectLanguage 结果一致）；不设置表示所有语言
+  languages?: string[];
+  severity: RuleSeverity;
+  category: CodeIssue['category'];
+  threshold?: { label: string; default: number };
+  check(context: RuleContext): RuleFinding[] | Promise<RuleFinding[]>;
+}
+
+// 单条规则的项目配置，未设置的字段使用规则默认值
+export interface RuleConfig {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  threshold?: number;
+}
+
+export type RuleSettings = Record<string, RuleConfig>;
+
+const SCRIPT_LANGUAGES = ['javascript', 'typescript', 'vue', 'svelte'];
+
+function contextLines(lines: string[], index: number, size = 2): string[] {
+  return lines.slice(Math.max(0, index - size), Math.min(lines.length, index + size + 1));
+}
+
+// 对每一行调用 test，命中时生成问题
+function eachLine(lines: string[], test: (line: string) => boolean, message: string, suggestion: string): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  lines.forEach((line, index) => {
+    if (test(line)) findings.push({ line: index + 1, message, suggestion });
+  });
+  return findings;
+}
+
+function rangeFinding(range: SourceRange, message: string, suggestion: string): RuleFinding {
+  return { ...range, message, suggestion };
+}
+
+// 用 AST 报告生成问题；无法解析时不报告
+async function withAst(
+  { filePath, content }: RuleContext,
+  collect: (report: AstReport) => RuleFinding[]
+): Promise<RuleFinding[]> {
+  const report = await AstAnalyzer.getInstance().analyze(filePath, content);
+  return report ? collect(report) : [];
+}
+
+// 内置规则
+export const BUILTIN_RULES: CodeRule[] = [
+  {
+    id: 'trailing-whitespace',
+    name: '行尾空白',
+    severity: 'style',
+    category: 'maintainability',
+    check: ({ lines }) => eachLine(lines, line => line.endsWith(' ') || line.endsWith('\t'),
+      '行尾存在多余空格或制表符', '删除行尾的空格和制表符')
+  },
+  {
+    id: 'max-line-length',
+    name: '行长度',
+    severity: 'warning',
+    category: 'readability',
+    threshold: { label: '最大字符数', default: 120 },
+    check: ({ lines, threshold }) => eachLine(lines, line => line.length > threshold,
+      `代码行过长，建议不超过${threshold}个字符`, '将长行拆分为多行，提高可读性')
+  },
+  {
+    id: 'todo-comment',
+    name: 'TODO/FIXME 注释',
+    severity: 'info',
+    category: 'maintainability',
+    check: ({ lines }) => eachLine(lines, line => /todo|fixme/i.test(line),
+      '存在TODO/FIXME注释', '及时处理TODO事项或创建任务跟踪')
+  },
+  {
+    id: 'no-console',
+    name: 'console 语句',
+    languages: SCRIPT_LANGUAGES,
+    severity: 'warning',
+    category: 'best-practices',
+    // TS/JS 按调用表达式识别，不受注释和字符串影响；Vue / Svelte 仍按行匹配
+    check: context => AST_LANGUAGES.includes(context.language)
+      ? withAst(context, report => report.consoleCalls.map(call =>
+        rangeFinding(call.range, `代码中包含console.${call.method}调用`, '生产代码中应移除调试用的console语句')))
+      : eachLine(context.lines, line => line.toLowerCase().includes('console.') && !line.includes('//'),
+        '代码中包含console语句', '生产代码中应移除调试用的console语句')
+  },
+  {
+    id: 'final-newline',
+    name: '文件末尾空行',
+    severity: 'style',
+    category: 'maintainability',
+    check: ({ content, lines }) => content.length > 0 && !content.endsWith('\n')
+      ? [{ line: lines.length, message: '文件末尾缺少空行', suggestion: '在文件末尾添加一个空行', context: lines.slice(-2) }]
+      : []
+  },
+  {
+    id: 'max-definitions',
+    name: '文件内函数/类数量',
+    // TS/JS 由 AST 规则按函数检查
+    languages: ['vue', 'svelte'],
+    severity: 'warning',
+    category: 'maintainability',
+    threshold: { label: '最大数量', default: 10 },
+    check: ({ content, lines, threshold }) => {
+      const matches = content.match(/function\s+\w+|const\s+\w+\s*=\s*\([^)]*\)\s*=>|class\s+\w+/g);
+      return matches && matches.length > threshold
+        ? [{
+          line: 1,
+          message: `文件中定义了过多的函数/类（${matches.length} 个，建议不超过 ${threshold} 个）`,
+          suggestion: '考虑将代码拆分到多个文件中，每个文件专注一个功能',
+          context: lines.slice(0, 3)
+        }]
+        : [];
+    }
+  },
+  {
+    id: 'complexity',
+    name: '圈复杂度',
+    languages: AST_LANGUAGES,
+    severity: 'warning',
+    category: 'maintainability',
+    threshold: { label: '最大复杂度', default: 10 },
+    check: context => withAst(context, report => report.functions
+      .filter(fn => fn.complexity > context.threshold)
+      .map(fn => rangeFinding(fn.range, `函数 ${fn.name} 的圈复杂度为 ${fn.complexity}，超过 ${context.threshold}`,
+        '拆分条件分支或提取子函数，降低复杂度')))
+  },
+  {
+    id: 'max-nesting',
+    name: '嵌套深度',
+    languages: AST_LANGUAGES,
+    severity: 'warning',
+    category: 'readability',
+    threshold: { label: '最大层数', default: 4 },
+    check: context => withAst(context, report => report.functions
+      .filter(fn => fn.nesting > context.threshold)
+      .map(fn => rangeFinding(fn.range, `函数 ${fn.name} 的控制语句嵌套 ${fn.nesting} 层，超过 ${context.threshold} 层`,
+        '使用提前返回或提取子函数减少嵌套')))
+  },
+  {
+    id: 'max-function-lines',
+    name: '函数长度',
+    languages: AST_LANGUAGES,
+    severity: 'info',
+    category: 'maintainability',
+    threshold: { label: '最大行数', default: 80 },
+    check: context => withAst(context, report => report.functions
+      .filter(fn => fn.lines > context.threshold)
+      .map(fn => rangeFinding(fn.range, `函数 ${fn.name} 共 ${fn.lines} 行，超过 ${context.threshold} 行`,
+        '将函数按职责拆分为多个较小的函数')))
+  },
+  {
+    id: 'no-unused-imports',
+    name: '未使用的导入',
+    languages: AST_LANGUAGES,
+    severity: 'warning',
+    category: 'maintainability',
+    check: context => withAst(context, report => report.unusedImports.map(item =>
+      rangeFinding(item.range, `导入的 ${item.name} 未被使用`, '删除未使用的导入')))
+  },
+  {
+    id: 'no-explicit-any',
+    name: 'any 类型',
+    languages: ['typescript'],
+    severity: 'warning',
+    category: 'best-practices',
+    check: context => withAst(context, report => report.anyTypes.map(range =>
+      rangeFinding(range, '使用了 any 类型', '使用具体类型或 unknown，保留类型检查')))
+  },
+  {
+    id: 'no-empty-catch',
+    name: '空 catch 块',
+    languages: AST_LANGUAGES,
+    severity: 'warning',
+    category: 'best-practices',
+    check: context => withAst(context, report => report.emptyCatches.map(range =>
+      rangeFinding(range, 'catch 块为空，异常被静默吞掉', '记录或处理异常；确需忽略时在块内注释说明原因')))
+  }
+];
+
+// 规则注册表：内置规则之外的规则通过 register 加入，无需修改 ReviewService
+export class RuleRegistry {
+  private static instance: RuleRegistry;
+  private rules = new Map<string, CodeRule>();
+
+  private constructor() {
+    BUILTIN_RULES.forEach(rule => this.register(rule));
+  }
+
+  public static getInstance(): RuleRegistry {
+    if (!RuleRegistry.instance) {
+      RuleRegistry.instance = new RuleRegistry();
+    }
+    return RuleRegistry.instance;
+  }
+
+  // 同 id 的规则会被替换
+  register(rule: CodeRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  unregister(id: string): void {
+    this.rules.delete(id);
+  }
+
+  getRules(): CodeRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  // 对文件运行所有启用且适用于该语言的规则；单条规则出错不影响其他规则
+  async run(filePath: string, content: string, language: string, settings: RuleSettings = {}): Promise<CodeIssue[]> {
+    const lines = content.split('\n');
+    const applicable = this.getRules().filter(rule =>
+      settings[rule.id]?.enabled !== false && (!rule.languages || rule.languages.includes(language)));
+    // 同时启动各规则，AST 规则共用同一次解析
+    const results = await Promise.all(applicable.map(async rule => {
+      const config = settings[rule.id] || {};
+      const threshold = rule.threshold ? config.threshold ?? rule.threshold.default : undefined;
+      try {
+        return { rule, config, findings: await rule.check({ filePath, content, lines, language, threshold }) };
+      } catch (error) {
+        console.error(`规则 ${rule.id} 执行失败: ${filePath}`, error);
+        return { rule, config, findings: [] as RuleFinding[] };
+      }
+    }));
+    const issues: CodeIssue[] = [];
+    results.forEach(({ rule, config, findings }) => {
+      findings.forEach(finding => issues.push({
+        line: finding.line,
+        column: finding.column,
+        endLine: finding.endLine,
+        endColumn: finding.endColumn,
+        type: config.severity || rule.severity,
+        category: rule.category,
+        message: finding.message,
+        suggestion: finding.suggestion,
+        code: finding.code ?? lines[finding.line - 1] ?? '',
+        context: finding.context ?? contextLines(lines, finding.line - 1),
+        rule: rule.id
+      }));
+    });
+    return issues;
+  }
+}
+
+const RULE_SETTINGS_PREFIX = 'ai-review-rules:';
+
+// 规则配置按项目（仓库地址或本地来源名称）保存
+export function loadRuleSettings(project: string): RuleSettings {
+  try {
+    const raw = localStorage.getItem(RULE_SETTINGS_PREFIX + project);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveRuleSettings(project: string, settings: RuleSettings): void {
+  localStorage.setItem(RULE_SETTINGS_PREFIX + project, JSON.stringify(settings));
+}
+
+export default RuleRegistry;
@@ -1,6 +1,26 @@
 import { saveAs } from 'file-saver';
-import { CodeReview, CodeIssue } from './aiService';
+import { CodeReview, CodeIssue, IssueStatus } from './aiService';
 import { ReviewResult, ReviewSummary } from './reviewService';
+import { formatCost } from './tokenUsage';
+import { IssueTriage, TRIAGE_STATE_LABELS } from './triageService';
+import { BASELINE_FILE, createBaseline } from './baseline';
+
+const ISSUE_STATUS_TEXT: Record<IssueStatus, string> = {
+  new: '新增',
+  persisting: '仍存在',
+  fixed: '已修复'
+};
+
+// 位置文字；AST 检查的问题带结束位置
+function locationText(issue: CodeIssue): string {
+  const start = `第${issue.line}行${issue.column ? `, 第${issue.column}列` : ''}`;
+  if (!issue.endLine) return start;
+  return `${start} 至 第${issue.endLine}行${issue.endColumn ? `, 第${issue.endColumn}列` : ''}`;
+}
+
+function triageText(triage: IssueTriage): string {
+  return `${TRIAGE_STATE_LABELS[triage.state]}${triage.reason ? `（${triage.reason}）` : ''}`;
+}
 
 export class ExportService {
   private static instance: ExportService;
@@ -36,13 +56,23 @@ export class ExportService {
     saveAs(blob, filename);
   }
 
+  // 导出基线文件，提交到仓库根目录后可在后续审查中使用
+  exportBaseline(result: ReviewResult): void {
+    const content = JSON.stringify(createBaseline(result), null, 2);
+    const blob = new Blob([content], { type: 'application/json;charset=utf-8' });
+    saveAs(blob, BASELINE_FILE);
+  }
+
   // 生成Markdown内容
   private generateMarkdownContent(result: ReviewResult): string {
-    let content = `# 代码审查报告
+    let content = `# 代码审查报告${result.demo ? '（演示数据）' : ''}${result.cancelled ? '（已取消，部分结果）' : ''}
 
 ## 基本信息
 - **仓库地址**: ${result.repository}
-- **分支**: ${result.branch}
+- **分支**: ${result.branch}${result.diff ? `
+- **审查模式**: 差异审查 (${result.diff.base}...${result.diff.head})` : ''}${result.commit ? `
+- **提交**: ${result.commit}` : ''}${result.incremental ? `
+- **审查模式**: 增量审查（基准 ${result.incremental.baseCommit || result.incremental.baseId}，重新审查 ${result.incremental.reviewedFiles} 个文件，沿用 ${result.incremental.carriedFiles} 个）` : ''}
 - **审查时间**: ${result.startTime.toLocaleString('zh-CN')}
 - **总耗时**: ${result.duration ? `${Math.round(result.duration / 1000)}秒` : '未知'}
 
@@ -50,8 +80,39 @@ export class ExportService {
 - **总文件数**: ${result.summary.totalFiles}
 - **总问题数**: ${result.summary.totalIssues}
 - **问题文件数**: ${result.summary.filesWithIssues}
-- **无问题文件数**: ${result.summary.totalFiles - result.summary.filesWithIssues}
+- **无问题文件数**: ${result.summary.totalFiles - result.summary.filesWithIssues}${result.summary.failedFiles ? `
+- **AI审查失败文件数**: ${result.summary.failedFiles}` : ''}${result.usage && result.usage.requests > 0 ? `
+- **AI请求**: ${result.usage.requests}次，输入 ${result.usage.promptTokens} / 输出 ${result.usage.completionTokens} tokens
+- **费用**: ${formatCost(result.usage.cost)}${result.usage.estimated ? '（部分用量为估算）' : ''}` : ''}${result.summary.issueChanges ? `
+- **相对基准**: 新增 ${result.summary.issueChanges.new} / 已修复 ${result.summary.issueChanges.fixed} / 仍存在 ${result.summary.issueChanges.persisting}` : ''}${result.summary.suppressedIssues ? `
+- **已忽略问题数**: ${result.summary.suppressedIssues}（标记为不修复或误报）` : ''}${result.summary.unusedDirectives ? `
+- **未使用的忽略指令**: ${result.summary.unusedDirectives}条` : ''}${result.baseline ? `
+- **基线**: ${result.baseline.issues} 个问题（${result.baseline.createdAt}），本次匹配 ${result.summary.baselinedIssues || 0} 个，不再报告` : ''}
+`;
 
+    const withUnused = result.reviews.filter(review => review.unusedDirectives?.length);
+    if (withUnused.length > 0) {
+      content += `
+### 未使用的忽略指令
+`;
+      withUnused.forEach(review => {
+        review.unusedDirectives.forEach(directive => {
+          content += `- \`${review.file}\` 第${directive.line}行: \`${directive.text}\`\n`;
+        });
+      });
+    }
+
+    const failed = result.reviews.filter(review => review.status === 'failed');
+    if (failed.length > 0) {
+      content += `
+### AI审查失败的文件
+`;
+      failed.forEach(review => {
+        content += `- \`${review.file}\`: ${review.error || '未知错误'}\n`;
+      });
+    }
+
+    content += `
 ### 问题类型分布
 `;
 
@@ -72,15 +133,18 @@ export class ExportService {
 
 `;
 
-    result.reviews.filter(review => review.issues.length > 0).forEach((review) => {
+    result.reviews.filter(review => review.issues.length > 0 || review.fixedIssues?.length || review.suppressedIssues?.length).forEach((review) => {
       content += `### ${review.file}\n`;
-      content += `**问题数量**: ${review.issues.length}个\n\n`;
+      content += `**问题数量**: ${review.issues.length}个${review.carriedForward ? '（文件未变化，沿用基准结果）' : ''}\n\n`;
 
       review.issues.forEach((issue, index) => {
         content += `#### ${index + 1}. ${issue.message}\n`;
+        if (issue.status) content += `- **状态**: ${ISSUE_STATUS_TEXT[issue.status]}\n`;
+        if (issue.triage) content += `- **分诊**: ${triageText(issue.triage)}\n`;
         content += `- **类型**: ${issue.type}\n`;
         content += `- **类别**: ${issue.category}\n`;
-        content += `- **位置**: 第${issue.line}行${issue.column ? `, 第${issue.column}列` : ''}\n`;
+        if (issue.rule) content += `- **规则**: ${issue.rule}\n`;
+        content += `- **位置**: ${locationText(issue)}\n`;
         content += `- **建议**: ${issue.suggestion}\n\n`;
         
         if (issue.context.length > 0) {
@@ -92,6 +156,20 @@ export class ExportService {
         }
       });
 
+      if (review.suppressedIssues?.length) {
+        content += `**已忽略**:\n`;
+        review.suppressedIssues.forEach(issue => {
+          content += `- 第${issue.line}行 · ${issue.category} · ${issue.message}${issue.triage ? ` — ${triageText(issue.triage)}` : ''}\n`;
+        });
+      }
+
+      if (review.fixedIssues?.length) {
+        content += `**已修复**:\n`;
+        review.fixedIssues.forEach(issue => {
+          content += `- ~~原第${issue.line}行 · ${issue.category} · ${issue.message}~~\n`;
+        });
+      }
+
       content += '\n---\n\n';
     });
 
@@ -227,9 +305,15 @@ ${result.standards}
 <body>
     <div class="container">
         <div class="header">
-            <h1 class="title">代码审查报告</h1>
+            <h1 class="title">代码审查报告${result.demo ? '（演示数据）' : ''}${result.cancelled ? '（已取消，部分结果）' : ''}</h1>
             <p><strong>仓库地址:</strong> ${result.repository}</p>
             <p><strong>分支:</strong> ${result.branch}</p>
+            ${result.diff ? `<p><strong>审查模式:</strong> 差异审查 (${result.diff.base}...${result.diff.head})</p>` : ''}
+            ${result.commit ? `<p><strong>提交:</strong> ${result.commit}</p>` : ''}
+            ${result.incremental ? `<p><strong>审查模式:</strong> 增量审查（基准 ${result.incremental.baseCommit || result.incremental.baseId}，重新审查 ${result.incremental.reviewedFiles} 个文件，沿用 ${result.incremental.carriedFiles} 个）</p>` : ''}
+            ${result.summary.suppressedIssues ? `<p><strong>已忽略问题数:</strong> ${result.summary.suppressedIssues}（标记为不修复或误报）</p>` : ''}
+            ${result.baseline ? `<p><strong>基线:</strong> ${result.baseline.issues} 个问题，本次匹配 ${result.summary.baselinedIssues || 0} 个，不再报告</p>` : ''}
+            ${result.summary.issueChanges ? `<p><strong>相对基准:</strong> 新增 ${result.summary.issueChanges.new} / 已修复 ${result.summary.issueChanges.fixed} / 仍存在 ${result.summary.issueChanges.persisting}</p>` : ''}
             <p><strong>审查时间:</strong> ${result.startTime.toLocaleString('zh-CN')}</p>
             ${result.duration ? `<p><strong>总耗时:</strong> ${Math.round(result.duration / 1000)}秒</p>` : ''}
         </div>
@@ -253,20 +337,28 @@ ${result.standards}
             </div>
         </div>
 
+        ${result.reviews.some(review => review.status === 'failed') ? `
+        <h2>AI审查失败的文件</h2>
+        <ul>
+            ${result.reviews.filter(review => review.status === 'failed').map(review => `<li><code>${review.file}</code>: ${review.error || '未知错误'}</li>`).join('')}
+        </ul>` : ''}
+
         <h2>详细问题分析</h2>
         
-        ${result.reviews.filter(review => review.issues.length > 0).map(review => `
+        ${result.reviews.filter(review => review.issues.length > 0 || review.fixedIssues?.length || review.suppressedIssues?.length).map(review => `
         <div class="file-section">
             <div class="file-header">
-                ${review.file} (${review.issues.length}个问题)
+                ${review.file} (${review.issues.length}个问题${review.carriedForward ? '，文件未变化' : ''})
             </div>
             
             ${review.issues.map(issue => `
             <div class="issue">
                 <div class="issue-header">
                     <span class="issue-type ${issue.type}">${issue.type.toUpperCase()}</span>
-                    <span><strong>位置:</strong> 第${issue.line}行${issue.column ? `, 第${issue.column}列` : ''}</span>
+                    <span><strong>位置:</strong> ${locationText(issue)}</span>
                     <span style="margin-left: 10px;"><strong>类别:</strong> ${issue.category}</span>
+                    ${issue.status ? `<span style="margin-left: 10px;"><strong>状态:</strong> ${ISSUE_STATUS_TEXT[issue.status]}</span>` : ''}
+                    ${issue.triage ? `<span style="margin-left: 10px;"><strong>分诊:</strong> ${triageText(issue.triage)}</span>` : ''}
                 </div>
                 
                 <p><strong>问题:</strong> ${issue.message}</p>
@@ -282,6 +374,16 @@ ${result.standards}
                 </div>
             </div>
             `).join('')}
+            ${review.suppressedIssues?.length ? `
+            <div class="issue">
+                <strong>已忽略:</strong>
+                <ul>${review.suppressedIssues.map(issue => `<li>第${issue.line}行 · ${issue.category} · ${issue.message}${issue.triage ? ` — ${triageText(issue.triage)}` : ''}</li>`).join('')}</ul>
+            </div>` : ''}
+            ${review.fixedIssues?.length ? `
+            <div class="issue">
+                <strong>已修复:</strong>
+                <ul>${review.fixedIssues.map(issue => `<li><s>原第${issue.line}行 · ${issue.category} · ${issue.message}</s></li>`).join('')}</ul>
+            </div>` : ''}
         </div>
         `).join('')}
 
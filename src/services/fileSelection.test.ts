@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FILE_SELECTION,
+  globToRegExp,
+  isGenerated,
+  isIgnored,
+  isVendored,
+  matchesAny,
+  parseGitattributes,
+  parseGitignore,
+  selectFiles
+} from './fileSelection';
+
+describe('globToRegExp', () => {
+  it('不含斜杠的模式匹配任意层级的文件名', () => {
+    expect(globToRegExp('*.ts').test('src/a/b.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/a/b.tsx')).toBe(false);
+  });
+
+  it('支持 **、?、{a,b} 与 [abc]', () => {
+    expect(globToRegExp('src/**/*.{js,jsx}').test('src/a/b/c.jsx')).toBe(true);
+    expect(globToRegExp('src/**/*.{js,jsx}').test('src/c.js')).toBe(true);
+    expect(globToRegExp('lib/?.c').test('lib/a.c')).toBe(true);
+    expect(globToRegExp('lib/?.c').test('lib/ab.c')).toBe(false);
+    expect(globToRegExp('v[12].py').test('v2.py')).toBe(true);
+    expect(globToRegExp('v[!12].py').test('v2.py')).toBe(false);
+  });
+
+  it('目录模式同时匹配其下文件', () => {
+    expect(matchesAny('vendor/lib/x.js', ['vendor'])).toBe(true);
+    expect(globToRegExp('vendor', true, false).test('vendor/lib/x.js')).toBe(false);
+  });
+});
+
+describe('.gitignore', () => {
+  it('忽略目录下的所有文件，且只匹配目录的规则不匹配同名文件', () => {
+    const rules = parseGitignore('build/\n');
+    expect(isIgnored('build/out.js', rules)).toBe(true);
+    expect(isIgnored('pkg/build/out.js', rules)).toBe(true);
+    expect(isIgnored('build', rules)).toBe(false);
+  });
+
+  it('支持取反与注释', () => {
+    const rules = parseGitignore('# logs\n*.log\n!keep.log\n');
+    expect(isIgnored('a/debug.log', rules)).toBe(true);
+    expect(isIgnored('a/keep.log', rules)).toBe(false);
+  });
+
+  it('含斜杠的模式相对 .gitignore 所在目录锚定', () => {
+    const rules = parseGitignore('/docs/*.md\n', 'pkg');
+    expect(isIgnored('pkg/docs/a.md', rules)).toBe(true);
+    expect(isIgnored('docs/a.md', rules)).toBe(false);
+    expect(isIgnored('pkg/sub/docs/a.md', rules)).toBe(false);
+  });
+});
+
+describe('第三方与生成代码', () => {
+  it('按内置规则识别，.gitattributes 可覆盖', () => {
+    expect(isVendored('node_modules/a/index.js')).toBe(true);
+    const attributes = parseGitattributes('third_party/** linguist-vendored\nnode_modules/** -linguist-vendored\napi/*.pb.go linguist-generated=true\n');
+    expect(isVendored('third_party/x.c', attributes)).toBe(true);
+    expect(isVendored('node_modules/a/index.js', attributes)).toBe(false);
+    expect(isGenerated('api/user.pb.go', attributes)).toBe(true);
+  });
+});
+
+describe('selectFiles', () => {
+  it('记录每个文件的跳过原因并限制文件数', () => {
+    const tree = ['README.md', 'src/a.ts', 'src/b.ts', 'dist/c.js', 'tmp/d.ts', 'src/e.ts'].map(path => ({ path }));
+    const result = selectFiles(tree, { ...DEFAULT_FILE_SELECTION, maxFiles: 2 }, parseGitignore('tmp/\n'));
+    expect(result.selected.map(entry => entry.path)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(result.skipped).toEqual([
+      { path: 'README.md', reason: 'not-code' },
+      { path: 'dist/c.js', reason: 'excluded' },
+      { path: 'tmp/d.ts', reason: 'gitignore' },
+      { path: 'src/e.ts', reason: 'limit' }
+    ]);
+  });
+});
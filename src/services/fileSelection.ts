@@ -0,0 +1,266 @@
+import type { TreeEntry } from './gitProviders';
+
+export interface FileSelectionOptions {
+  // 包含模式；为空时按代码文件扩展名筛选
+  include: string[];
+  // 排除模式
+  exclude: string[];
+  // 最多审查的文件数，0 表示不限制
+  maxFiles: number;
+  // 遵循仓库中的 .gitignore
+  respectGitignore: boolean;
+  // 跳过第三方（vendored）与生成（generated）代码，参考 GitHub Linguist 规则与 .gitattributes
+  skipVendored: boolean;
+}
+
+export type SkipReason = 'not-code' | 'excluded' | 'gitignore' | 'vendored' | 'generated' | 'limit';
+
+export interface SelectionResult<T extends TreeEntry = TreeEntry> {
+  selected: T[];
+  skipped: Array<{ path: string; reason: SkipReason }>;
+}
+
+export const DEFAULT_FILE_SELECTION: FileSelectionOptions = {
+  include: [],
+  exclude: [
+    '**/node_modules/**',
+    '**/dist/**',
+    '**/package-lock.json',
+    '**/yarn.lock',
+    '**/pnpm-lock.yaml',
+    '**/*.lock'
+  ],
+  maxFiles: 100,
+  respectGitignore: true,
+  skipVendored: true
+};
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  'not-code': '非代码文件',
+  'excluded': '排除规则',
+  'gitignore': '.gitignore',
+  'vendored': '第三方代码',
+  'generated': '生成代码',
+  'limit': '超出数量上限'
+};
+
+const CODE_EXTENSIONS = [
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.kt', '.cpp', '.c', '.cs',
+  '.go', '.rs', '.php', '.rb', '.swift', '.vue', '.svelte'
+];
+
+// Linguist vendor.yml 中常见的第三方目录与文件
+const VENDORED_PATTERNS = [
+  /(^|\/)node_modules\//,
+  /(^|\/)bower_components\//,
+  /(^|\/)vendors?\//,
+  /(^|\/)third[-_]?party\//,
+  /(^|\/)dist\//,
+  /(^|\/)\.yarn\//,
+  /(^|\/)(Pods|Carthage)\//,
+  /(^|\/)\.?venv\//,
+  /\.min\.(js|css)$/,
+  /-min\.js$/,
+  /(^|\/)jquery[^/]*\.js$/
+];
+
+// Linguist generated.rb 中可由路径判断的生成文件
+const GENERATED_PATTERNS = [
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|composer\.lock|Gemfile\.lock|poetry\.lock|go\.sum)$/,
+  /\.pb\.go$/,
+  /_pb2(_grpc)?\.py$/,
+  /\.g\.dart$/,
+  /\.designer\.cs$/,
+  /\.generated\.\w+$/,
+  /(^|\/)__generated__\//
+];
+
+export function isCodeFile(filePath: string): boolean {
+  return CODE_EXTENSIONS.some(ext => filePath.toLowerCase().endsWith(ext));
+}
+
+// 将 glob 转换为正则：支持 **、*、?、{a,b} 与 [abc]
+// matchBase: 不含斜杠的模式匹配任意层级的文件名，如 *.ts
+// matchDescendants: 模式匹配目录时，同时匹配其下所有文件
+export function globToRegExp(glob: string, matchBase: boolean = true, matchDescendants: boolean = true): RegExp {
+  let pattern = glob.trim().replace(/^\.?\//, '');
+  if (matchBase && !pattern.includes('/')) pattern = `**/${pattern}`;
+
+  let rx = '';
+  let i = 0;
+  let braceDepth = 0;
+  while (i < pattern.length) {
+    const c = pattern[i];
+    if (c === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          rx += '(?:.*/)?';
+          i += 3;
+        } else {
+          rx += '.*';
+          i += 2;
+        }
+        continue;
+      }
+      rx += '[^/]*';
+    } else if (c === '?') {
+      rx += '[^/]';
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end > i) {
+        rx += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      } else {
+        rx += '\\[';
+      }
+    } else if (c === '{') {
+      rx += '(?:';
+      braceDepth++;
+    } else if (c === '}' && braceDepth > 0) {
+      rx += ')';
+      braceDepth--;
+    } else if (c === ',' && braceDepth > 0) {
+      rx += '|';
+    } else {
+      rx += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+    i++;
+  }
+  return new RegExp(`^${rx}${matchDescendants ? '(?:/.*)?' : ''}$`);
+}
+
+export function matchesAny(filePath: string, patterns: string[]): boolean {
+  return patterns.some(p => p.trim() && globToRegExp(p).test(filePath));
+}
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+// 解析 .gitignore；base 为该文件所在目录（根目录为空串）
+export function parseGitignore(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach(raw => {
+    let line = raw.replace(/\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    // 含中间斜杠的模式相对 .gitignore 所在目录锚定，否则匹配任意层级
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    const glob = anchored ? line : `**/${line}`;
+    const prefix = base ? `${base}/` : '';
+    rules.push({ regex: globToRegExp(`${prefix}${glob}`, false, false), negate, dirOnly });
+  });
+  return rules;
+}
+
+// 判断文件是否被忽略：任一父目录被忽略时其下文件均被忽略
+export function isIgnored(filePath: string, rules: IgnoreRule[]): boolean {
+  if (rules.length === 0) return false;
+  const parts = filePath.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const candidate = parts.slice(0, i).join('/');
+    const isDir = i < parts.length;
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.regex.test(candidate)) ignored = !rule.negate;
+    }
+    if (ignored) return true;
+  }
+  return false;
+}
+
+interface AttributeRule {
+  regex: RegExp;
+  vendored?: boolean;
+  generated?: boolean;
+}
+
+// 解析 .gitattributes 中的 linguist-vendored / linguist-generated
+export function parseGitattributes(content: string): AttributeRule[] {
+  const rules: AttributeRule[] = [];
+  content.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const [pattern, ...attrs] = line.split(/\s+/);
+    const rule: AttributeRule = { regex: globToRegExp(pattern) };
+    attrs.forEach(attr => {
+      const value = attr.startsWith('-') ? false : !/=false$/.test(attr);
+      const name = attr.replace(/^[-!]/, '').replace(/=.*$/, '');
+      if (name === 'linguist-vendored') rule.vendored = value;
+      if (name === 'linguist-generated') rule.generated = value;
+    });
+    if (rule.vendored !== undefined || rule.generated !== undefined) rules.push(rule);
+  });
+  return rules;
+}
+
+function attributeFor(filePath: string, rules: AttributeRule[], key: 'vendored' | 'generated'): boolean | undefined {
+  let result: boolean | undefined;
+  rules.forEach(rule => {
+    if (rule[key] !== undefined && rule.regex.test(filePath)) result = rule[key];
+  });
+  return result;
+}
+
+export function isVendored(filePath: string, attributes: AttributeRule[] = []): boolean {
+  return attributeFor(filePath, attributes, 'vendored') ?? VENDORED_PATTERNS.some(rx => rx.test(filePath));
+}
+
+export function isGenerated(filePath: string, attributes: AttributeRule[] = []): boolean {
+  return attributeFor(filePath, attributes, 'generated') ?? GENERATED_PATTERNS.some(rx => rx.test(filePath));
+}
+
+// 通过文件头部标记判断生成代码（如 Go 的 "Code generated ... DO NOT EDIT."）
+export function isGeneratedContent(content: string): boolean {
+  const head = content.split('\n', 5).join('\n');
+  return /@generated\b|Code generated .* DO NOT EDIT|auto-?generated/i.test(head);
+}
+
+// 根据选项从仓库文件树中筛选待审查文件
+export function selectFiles<T extends TreeEntry>(
+  tree: T[],
+  options: FileSelectionOptions,
+  ignoreRules: IgnoreRule[] = [],
+  attributes: AttributeRule[] = []
+): SelectionResult<T> {
+  const selected: T[] = [];
+  const skipped: SelectionResult['skipped'] = [];
+
+  for (const entry of tree) {
+    const path = entry.path;
+    let reason: SkipReason | null = null;
+    if (options.include.length > 0 ? !matchesAny(path, options.include) : !isCodeFile(path)) {
+      reason = 'not-code';
+    } else if (matchesAny(path, options.exclude)) {
+      reason = 'excluded';
+    } else if (options.respectGitignore && isIgnored(path, ignoreRules)) {
+      reason = 'gitignore';
+    } else if (options.skipVendored && isVendored(path, attributes)) {
+      reason = 'vendored';
+    } else if (options.skipVendored && isGenerated(path, attributes)) {
+      reason = 'generated';
+    } else if (options.maxFiles > 0 && selected.length >= options.maxFiles) {
+      reason = 'limit';
+    }
+
+    if (reason) {
+      skipped.push({ path, reason });
+    } else {
+      selected.push(entry);
+    }
+  }
+
+  return { selected, skipped };
+}
+
+// 粗略估算 token 数：代码平均约 4 字节/token
+export function estimateTokensFromBytes(bytes: number): number {
+  return Math.ceil(bytes / 4);
+}
@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GitError, GitHubProvider, GitLabProvider, GiteeProvider, ProviderContext, RepoLocator, parsePatch } from './gitProviders';
+
+describe('parsePatch', () => {
+  it('按 head 侧行号记录新增行，删除行不占行号', () => {
+    const patch = [
+      '@@ -1,4 +1,5 @@',
+      ' a',
+      '-b',
+      '+B',
+      '+C',
+      ' d',
+      '@@ -20 +21,2 @@',
+      ' x',
+      '+y'
+    ].join('\n');
+    const { hunks, addedLines } = parsePatch(patch);
+    expect(hunks).toEqual([
+      { oldStart: 1, oldLines: 4, newStart: 1, newLines: 5 },
+      { oldStart: 20, oldLines: 1, newStart: 21, newLines: 2 }
+    ]);
+    expect(addedLines).toEqual([2, 3, 22]);
+  });
+
+  it('忽略 hunk 之前的内容与 "\\ No newline" 标记', () => {
+    const patch = ['diff --git a/f b/f', '+++ b/f', '@@ -0,0 +1,2 @@', '+one', '\\ No newline at end of file', '+two'].join('\n');
+    expect(parsePatch(patch).addedLines).toEqual([1, 2]);
+  });
+});
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+// 按顺序返回预设响应并记录请求地址与请求头
+function stubFetch(responses: Array<() => Response>): SentRequest[] {
+  const sent: SentRequest[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    sent.push({ url, headers: init.headers as Record<string, string> });
+    const next = responses.shift();
+    if (!next) throw new Error(`unexpected request: ${url}`);
+    return next();
+  }));
+  return sent;
+}
+
+const json = (data: unknown, headers: Record<string, string> = {}) => () =>
+  new Response(JSON.stringify(data), { status: 200, headers });
+
+function context(token?: string): ProviderContext {
+  return { getToken: () => token, reportRateLimit: vi.fn() };
+}
+
+const github: RepoLocator = {
+  provider: 'github', host: 'github.com', webBase: 'https://github.com', apiBase: 'https://api.github.com',
+  owner: 'acme', repo: 'app', fullPath: 'acme/app'
+};
+const gitlab: RepoLocator = {
+  provider: 'gitlab', host: 'git.example.com', webBase: 'https://git.example.com', apiBase: 'https://git.example.com/api/v4',
+  owner: 'group/sub', repo: 'app', fullPath: 'group/sub/app'
+};
+const gitee: RepoLocator = {
+  provider: 'gitee', host: 'gitee.com', webBase: 'https://gitee.com', apiBase: 'https://gitee.com/api/v5',
+  owner: 'acme', repo: 'app', fullPath: 'acme/app'
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GitHubProvider', () => {
+  it('分支按每页 100 条分页获取', async () => {
+    const page1 = Array.from({ length: 100 }, (_, i) => ({ name: `b${i}`, commit: { sha: 'abcdef123' } }));
+    const sent = stubFetch([json(page1), json([{ name: 'main', commit: { sha: '1234567890' }, protected: true }])]);
+    const branches = await new GitHubProvider(context()).listBranches(github);
+    expect(branches).toHaveLength(101);
+    expect(branches[100]).toEqual({ name: 'main', commit: '1234567', protected: true });
+    expect(sent.map(request => request.url)).toEqual([
+      'https://api.github.com/repos/acme/app/branches?per_page=100&page=1',
+      'https://api.github.com/repos/acme/app/branches?per_page=100&page=2'
+    ]);
+  });
+
+  it('文件树只保留文件，被截断时报错', async () => {
+    stubFetch([json({ tree: [{ path: 'src', type: 'tree' }, { path: 'src/a.ts', type: 'blob', sha: 's1', size: 3 }] })]);
+    expect(await new GitHubProvider(context()).listTree(github, 'main')).toEqual([{ path: 'src/a.ts', sha: 's1', size: 3 }]);
+
+    stubFetch([json({ tree: [], truncated: true })]);
+    await expect(new GitHubProvider(context()).listTree(github, 'main')).rejects.toThrow('文件树不完整');
+  });
+
+  it('文件路径逐段编码，Base64 内容按 UTF-8 解码', async () => {
+    const content = Buffer.from('const 名称 = 1;\n').toString('base64');
+    const sent = stubFetch([json({ encoding: 'base64', content })]);
+    expect(await new GitHubProvider(context()).getFileContent(github, 'feature/x', 'src/my file#1.ts')).toBe('const 名称 = 1;\n');
+    expect(sent[0].url).toBe('https://api.github.com/repos/acme/app/contents/src/my%20file%231.ts?ref=feature%2Fx');
+  });
+
+  it('缺少 patch（二进制或过大）的文件没有变更行信息', async () => {
+    stubFetch([json({ files: [
+      { filename: 'a.ts', status: 'modified', patch: '@@ -1 +1 @@\n-a\n+b' },
+      { filename: 'logo.png', status: 'added' },
+      { filename: 'b.ts', status: 'renamed', previous_filename: 'old.ts', patch: '' }
+    ] })]);
+    const diff = await new GitHubProvider(context()).getCompare(github, 'main', 'dev');
+    expect(diff.files.map(file => [file.path, file.status, file.changedLines, file.previousPath])).toEqual([
+      ['a.ts', 'modified', [1], undefined],
+      ['logo.png', 'added', null, undefined],
+      ['b.ts', 'renamed', null, 'old.ts']
+    ]);
+  });
+});
+
+describe('GitLabProvider', () => {
+  it('项目路径（含子分组）整体编码，按 X-Next-Page 分页', async () => {
+    const sent = stubFetch([
+      json([{ id: 's1', path: 'a.ts', type: 'blob' }, { id: 't', path: 'src', type: 'tree' }], { 'X-Next-Page': '2' }),
+      json([{ id: 's2', path: 'src/b.ts', type: 'blob' }], { 'X-Next-Page': '' })
+    ]);
+    const tree = await new GitLabProvider(context()).listTree(gitlab, 'main');
+    expect(tree).toEqual([{ path: 'a.ts', sha: 's1' }, { path: 'src/b.ts', sha: 's2' }]);
+    expect(sent.map(request => request.url)).toEqual([
+      'https://git.example.com/api/v4/projects/group%2Fsub%2Fapp/repository/tree?recursive=true&ref=main&per_page=100&page=1',
+      'https://git.example.com/api/v4/projects/group%2Fsub%2Fapp/repository/tree?recursive=true&ref=main&per_page=100&page=2'
+    ]);
+  });
+
+  it('合并请求的变更按新增、删除、重命名归类，空 diff 没有变更行信息', async () => {
+    stubFetch([json({
+      target_branch: 'main',
+      source_branch: 'feature',
+      diff_refs: { head_sha: 'abc' },
+      changes: [
+        { old_path: 'a.ts', new_path: 'a.ts', new_file: true, deleted_file: false, renamed_file: false, diff: '@@ -0,0 +1 @@\n+x' },
+        { old_path: 'old.ts', new_path: 'new.ts', new_file: false, deleted_file: false, renamed_file: true, diff: '' }
+      ]
+    })]);
+    const diff = await new GitLabProvider(context()).getPullRequestDiff(gitlab, 7);
+    expect(diff).toMatchObject({ base: 'main', head: 'abc', pullNumber: 7 });
+    expect(diff.files.map(file => [file.path, file.status, file.changedLines, file.previousPath])).toEqual([
+      ['a.ts', 'added', [1], undefined],
+      ['new.ts', 'renamed', null, 'old.ts']
+    ]);
+  });
+});
+
+describe('GiteeProvider', () => {
+  it('PR 变更中过大的文件不使用 patch', async () => {
+    stubFetch([
+      json({ base: { ref: 'master' }, head: { sha: 'def' } }),
+      json([
+        { filename: 'big.ts', status: 'modified', patch: { diff: '@@ -1 +1 @@\n+x', too_large: true } },
+        { filename: 'new.ts', status: 'renamed', patch: { diff: '@@ -1 +1,2 @@\n a\n+b', old_path: 'old.ts', renamed_file: true } }
+      ])
+    ]);
+    const diff = await new GiteeProvider(context()).getPullRequestDiff(gitee, 3);
+    expect(diff).toMatchObject({ base: 'master', head: 'def' });
+    expect(diff.files.map(file => [file.path, file.changedLines, file.previousPath])).toEqual([
+      ['big.ts', null, undefined],
+      ['new.ts', [2], 'old.ts']
+    ]);
+  });
+
+  it('原始文件路径逐段编码', async () => {
+    const sent = stubFetch([() => new Response('text')]);
+    expect(await new GiteeProvider(context()).getFileContent(gitee, 'master', 'docs/a b.md')).toBe('text');
+    expect(sent[0].url).toBe('https://gitee.com/api/v5/repos/acme/app/raw/docs/a%20b.md?ref=master');
+  });
+});
+
+describe('访问令牌', () => {
+  it('各平台按各自方式传递令牌', async () => {
+    const sent = stubFetch([json([]), json([]), json([])]);
+    await new GitHubProvider(context('gh')).listBranches(github);
+    await new GitLabProvider(context('gl')).listBranches(gitlab);
+    await new GiteeProvider(context('a&b')).listBranches(gitee);
+    expect(sent[0].headers).toMatchObject({ Authorization: 'Bearer gh', Accept: 'application/vnd.github+json' });
+    expect(sent[1].headers).toMatchObject({ 'PRIVATE-TOKEN': 'gl' });
+    expect(sent[2].url).toBe('https://gitee.com/api/v5/repos/acme/app/branches?per_page=100&page=1&access_token=a%26b');
+    expect(sent[2].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('未配置令牌时不发送认证信息', async () => {
+    const sent = stubFetch([json([])]);
+    await new GitHubProvider(context()).listBranches(github);
+    expect(sent[0].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('上报响应中的频率限制信息', async () => {
+    stubFetch([json([], { 'x-ratelimit-remaining': '42', 'x-ratelimit-limit': '60', 'x-ratelimit-reset': '1700000000' })]);
+    const ctx = context();
+    await new GitHubProvider(ctx).listBranches(github);
+    expect(ctx.reportRateLimit).toHaveBeenCalledWith({
+      provider: 'github', host: 'github.com', remaining: 42, limit: 60, reset: new Date(1700000000 * 1000)
+    });
+  });
+});
+
+describe('请求错误', () => {
+  const fail = async (response: () => Response, token?: string): Promise<GitError> => {
+    stubFetch([response]);
+    return new GitHubProvider(context(token)).listBranches(github).then(() => { throw new Error('未抛出'); }, error => error);
+  };
+
+  it('按状态码归类', async () => {
+    expect(await fail(() => new Response('', { status: 404 }))).toMatchObject({ kind: 'not-found', status: 404 });
+    expect(await fail(() => new Response('', { status: 401 }), 'bad')).toMatchObject({ kind: 'auth', status: 401 });
+    expect(await fail(() => new Response('', { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' } })))
+      .toMatchObject({ kind: 'rate-limited', resetAt: new Date(1700000000 * 1000) });
+    expect(await fail(() => new Response('', { status: 500 }))).toMatchObject({ kind: 'unknown', status: 500 });
+  });
+
+  it('网络失败归类为 network', async () => {
+    const error = await fail(() => { throw new TypeError('Failed to fetch'); });
+    expect(error).toBeInstanceOf(GitError);
+    expect(error.kind).toBe('network');
+  });
+});
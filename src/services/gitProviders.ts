@@ -0,0 +1,514 @@
+import type { GitBranch, ChangedFile, DiffHunk, RepositoryDiff } from './gitService';
+
+export type GitProviderType = 'github' | 'gitlab' | 'gitee';
+
+// 解析后的仓库定位信息
+export interface RepoLocator {
+  provider: GitProviderType;
+  // 主机名，用于匹配访问令牌，如 gitlab.example.com
+  host: string;
+  // Web 地址，如 https://gitlab.example.com
+  webBase: string;
+  // API 根地址，如 https://gitlab.example.com/api/v4
+  apiBase: string;
+  owner: string;
+  repo: string;
+  // 完整路径；GitLab 支持多级分组，如 group/sub/repo
+  fullPath: string;
+}
+
+export interface TreeEntry {
+  path: string;
+  sha?: string;
+  size?: number;
+}
+
+// API 响应中的频率限制信息
+export interface RateLimitInfo {
+  provider: GitProviderType;
+  host: string;
+  remaining: number;
+  limit?: number;
+  reset?: Date;
+}
+
+export type GitErrorKind = 'auth' | 'not-found' | 'rate-limited' | 'network' | 'unknown';
+
+// 代码托管平台请求错误
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: GitErrorKind,
+    public readonly status?: number,
+    public readonly resetAt?: Date
+  ) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+// 适配器运行所需的外部能力：令牌查询与频率限制上报
+export interface ProviderContext {
+  getToken(repo: RepoLocator): string | undefined;
+  reportRateLimit(info: RateLimitInfo): void;
+}
+
+// 代码托管平台适配器
+export interface GitProvider {
+  readonly type: GitProviderType;
+  listBranches(repo: RepoLocator, signal?: AbortSignal): Promise<GitBranch[]>;
+  listTree(repo: RepoLocator, ref: string, signal?: AbortSignal): Promise<TreeEntry[]>;
+  getFileContent(repo: RepoLocator, ref: string, filePath: string, signal?: AbortSignal): Promise<string>;
+  getCompare(repo: RepoLocator, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff>;
+  getPullRequestDiff(repo: RepoLocator, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff>;
+}
+
+// 解析 unified diff 片段，得到 hunk 列表与 head 侧新增行号
+export function parsePatch(patch: string): { hunks: DiffHunk[]; addedLines: number[] } {
+  const hunks: DiffHunk[] = [];
+  const addedLines: number[] = [];
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      const hunk: DiffHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newLines: header[4] !== undefined ? Number(header[4]) : 1
+      };
+      hunks.push(hunk);
+      newLine = hunk.newStart;
+      continue;
+    }
+    if (hunks.length === 0 || line.startsWith('\\')) continue;
+    if (line.startsWith('+')) {
+      addedLines.push(newLine);
+      newLine++;
+    } else if (line.startsWith('-')) {
+      // 删除行不占用 head 侧行号
+    } else {
+      newLine++;
+    }
+  }
+
+  return { hunks, addedLines };
+}
+
+function toChangedFile(
+  path: string,
+  status: ChangedFile['status'],
+  patch?: string,
+  previousPath?: string
+): ChangedFile {
+  const parsed = patch ? parsePatch(patch) : null;
+  return {
+    path,
+    status,
+    previousPath,
+    patch,
+    hunks: parsed?.hunks || [],
+    changedLines: parsed ? parsed.addedLines : null
+  };
+}
+
+// UTF-8 安全的 Base64 解码
+function decodeBase64(content: string): string {
+  try {
+    const binaryString = atob(content.replace(/\n/g, ''));
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new TextDecoder('utf-8').decode(bytes);
+  } catch (error) {
+    console.warn('Base64解码失败，尝试备用方法:', error);
+    return decodeURIComponent(escape(atob(content)));
+  }
+}
+
+abstract class BaseGitProvider implements GitProvider {
+  abstract readonly type: GitProviderType;
+
+  constructor(protected context: ProviderContext) {}
+
+  abstract listBranches(repo: RepoLocator, signal?: AbortSignal): Promise<GitBranch[]>;
+  abstract listTree(repo: RepoLocator, ref: string, signal?: AbortSignal): Promise<TreeEntry[]>;
+  abstract getFileContent(repo: RepoLocator, ref: string, filePath: string, signal?: AbortSignal): Promise<string>;
+  abstract getCompare(repo: RepoLocator, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff>;
+  abstract getPullRequestDiff(repo: RepoLocator, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff>;
+
+  protected headers(): Record<string, string> {
+    return {};
+  }
+
+  // 各平台的令牌传递方式不同，默认使用 Bearer 头
+  protected authorize(url: string, headers: Record<string, string>, token: string): string {
+    headers['Authorization'] = `Bearer ${token}`;
+    return url;
+  }
+
+  protected async request(repo: RepoLocator, url: string, errorMessage: string, signal?: AbortSignal): Promise<Response> {
+    const headers = this.headers();
+    const token = this.context.getToken(repo);
+    const finalUrl = token ? this.authorize(url, headers, token) : url;
+    let resp: Response;
+    try {
+      resp = await fetch(finalUrl, { headers, signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new GitError(`${errorMessage}：网络请求失败（网络不可用或被CORS拦截）- ${(error as Error).message}`, 'network');
+    }
+    const rateLimit = this.reportRateLimit(repo, resp);
+    if (!resp.ok) {
+      throw this.toGitError(resp, errorMessage, !!token, rateLimit);
+    }
+    return resp;
+  }
+
+  // 按状态码归类错误；GitHub 限流返回 403 且剩余配额为 0
+  private toGitError(resp: Response, errorMessage: string, authenticated: boolean, rateLimit: RateLimitInfo | null): GitError {
+    const status = resp.status;
+    if (status === 429 || (status === 403 && rateLimit?.remaining === 0)) {
+      const reset = rateLimit?.reset;
+      const hint = reset ? `，将于 ${reset.toLocaleTimeString('zh-CN')} 重置` : '';
+      const tokenHint = authenticated ? '' : '；配置访问令牌可提高限额';
+      return new GitError(`${errorMessage}：已触发API频率限制${hint}${tokenHint}`, 'rate-limited', status, reset);
+    }
+    if (status === 401 || status === 403) {
+      const hint = authenticated ? '访问令牌无效或权限不足' : '需要访问令牌';
+      return new GitError(`${errorMessage}：认证失败，${hint} (HTTP ${status})`, 'auth', status);
+    }
+    if (status === 404) {
+      const hint = authenticated ? '' : '；私有仓库需配置访问令牌';
+      return new GitError(`${errorMessage}：仓库、分支或文件不存在${hint} (HTTP 404)`, 'not-found', status);
+    }
+    return new GitError(`${errorMessage} (HTTP ${status})`, 'unknown', status);
+  }
+
+  protected async requestJson<T>(repo: RepoLocator, url: string, errorMessage: string, signal?: AbortSignal): Promise<T> {
+    const resp = await this.request(repo, url, errorMessage, signal);
+    return resp.json() as Promise<T>;
+  }
+
+  // GitHub 使用 X-RateLimit-*，GitLab 使用 RateLimit-*；重置时间为秒级时间戳
+  private reportRateLimit(repo: RepoLocator, resp: Response): RateLimitInfo | null {
+    const remaining = resp.headers.get('x-ratelimit-remaining') ?? resp.headers.get('ratelimit-remaining');
+    if (remaining === null) return null;
+    const limit = resp.headers.get('x-ratelimit-limit') ?? resp.headers.get('ratelimit-limit');
+    const reset = resp.headers.get('x-ratelimit-reset') ?? resp.headers.get('ratelimit-reset');
+    const info: RateLimitInfo = {
+      provider: this.type,
+      host: repo.host,
+      remaining: Number(remaining),
+      limit: limit !== null ? Number(limit) : undefined,
+      reset: reset !== null ? new Date(Number(reset) * 1000) : undefined
+    };
+    this.context.reportRateLimit(info);
+    return info;
+  }
+}
+
+// 文件路径逐段编码，保留目录分隔符
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+// 递归文件树超过平台上限时会被截断，只审查部分文件会让结果失真，直接报错
+function assertTreeComplete(data: { truncated?: boolean }): void {
+  if (data.truncated) {
+    throw new GitError('获取文件列表失败：仓库文件过多，平台返回的文件树不完整，请改用压缩包或本地目录审查', 'unknown');
+  }
+}
+
+interface GitHubBranch { name: string; commit?: { sha?: string }; protected?: boolean }
+interface GitHubTreeItem { path: string; type: string; sha?: string; size?: number }
+interface GitHubDiffFile { filename: string; status: string; previous_filename?: string; patch?: string }
+
+export class GitHubProvider extends BaseGitProvider {
+  readonly type = 'github' as const;
+
+  protected headers(): Record<string, string> {
+    return { 'Accept': 'application/vnd.github+json' };
+  }
+
+  private repoUrl(repo: RepoLocator): string {
+    return `${repo.apiBase}/repos/${repo.owner}/${repo.repo}`;
+  }
+
+  // 分页获取全部分支（每页最多100）
+  async listBranches(repo: RepoLocator, signal?: AbortSignal): Promise<GitBranch[]> {
+    const branches: GitBranch[] = [];
+    let page = 1;
+    while (true) {
+      const data = await this.requestJson<GitHubBranch[]>(repo, `${this.repoUrl(repo)}/branches?per_page=100&page=${page}`, '获取分支信息失败', signal);
+      if (!Array.isArray(data) || data.length === 0) break;
+      for (const branch of data) {
+        branches.push({
+          name: branch.name,
+          commit: (branch.commit?.sha || '').substring(0, 7),
+          protected: !!branch.protected
+        });
+      }
+      if (data.length < 100) break;
+      page++;
+    }
+    return branches;
+  }
+
+  async listTree(repo: RepoLocator, ref: string, signal?: AbortSignal): Promise<TreeEntry[]> {
+    const data = await this.requestJson<{ tree: GitHubTreeItem[]; truncated?: boolean }>(
+      repo,
+      `${this.repoUrl(repo)}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+      '获取文件列表失败', signal
+    );
+    assertTreeComplete(data);
+    return (data.tree || [])
+      .filter(item => item.type === 'blob')
+      .map(item => ({ path: item.path, sha: item.sha, size: item.size }));
+  }
+
+  async getFileContent(repo: RepoLocator, ref: string, filePath: string, signal?: AbortSignal): Promise<string> {
+    const data = await this.requestJson<{ encoding?: string; content?: string }>(
+      repo,
+      `${this.repoUrl(repo)}/contents/${encodePath(filePath)}?ref=${encodeURIComponent(ref)}`,
+      '获取文件内容失败', signal
+    );
+    return data.encoding === 'base64' ? decodeBase64(data.content || '') : (data.content || '');
+  }
+
+  async getCompare(repo: RepoLocator, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const data = await this.requestJson<{ files?: GitHubDiffFile[] }>(
+      repo,
+      `${this.repoUrl(repo)}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+      '获取差异失败', signal
+    );
+    return { base, head, files: (data.files || []).map(f => this.toChangedFile(f)) };
+  }
+
+  async getPullRequestDiff(repo: RepoLocator, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const pr = await this.requestJson<{ base?: { ref?: string }; head?: { sha?: string; ref?: string } }>(
+      repo,
+      `${this.repoUrl(repo)}/pulls/${pullNumber}`,
+      '获取PR信息失败', signal
+    );
+
+    const files: ChangedFile[] = [];
+    let page = 1;
+    while (true) {
+      const data = await this.requestJson<GitHubDiffFile[]>(
+        repo,
+        `${this.repoUrl(repo)}/pulls/${pullNumber}/files?per_page=100&page=${page}`,
+        '获取PR变更文件失败', signal
+      );
+      if (!Array.isArray(data) || data.length === 0) break;
+      data.forEach(f => files.push(this.toChangedFile(f)));
+      if (data.length < 100) break;
+      page++;
+    }
+
+    // head 使用提交 SHA，避免 fork 分支在本仓库中不存在
+    return { base: pr.base?.ref || '', head: pr.head?.sha || pr.head?.ref || '', pullNumber, files };
+  }
+
+  private toChangedFile(f: GitHubDiffFile): ChangedFile {
+    const status: ChangedFile['status'] =
+      f.status === 'added' || f.status === 'removed' || f.status === 'renamed' ? f.status : 'modified';
+    return toChangedFile(f.filename, status, f.patch, f.previous_filename);
+  }
+}
+
+interface GitLabBranch { name: string; commit?: { id?: string }; protected?: boolean }
+interface GitLabTreeItem { id: string; path: string; type: string }
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  deleted_file: boolean;
+  renamed_file: boolean;
+  diff: string;
+}
+
+export class GitLabProvider extends BaseGitProvider {
+  readonly type = 'gitlab' as const;
+
+  protected authorize(url: string, headers: Record<string, string>, token: string): string {
+    headers['PRIVATE-TOKEN'] = token;
+    return url;
+  }
+
+  private projectUrl(repo: RepoLocator): string {
+    return `${repo.apiBase}/projects/${encodeURIComponent(repo.fullPath)}`;
+  }
+
+  // GitLab 通过 X-Next-Page 响应头分页
+  private async paginate<T>(repo: RepoLocator, url: string, errorMessage: string, signal?: AbortSignal): Promise<T[]> {
+    const items: T[] = [];
+    let page = '1';
+    while (page) {
+      const sep = url.includes('?') ? '&' : '?';
+      const resp = await this.request(repo, `${url}${sep}per_page=100&page=${page}`, errorMessage, signal);
+      const data = await resp.json();
+      if (!Array.isArray(data) || data.length === 0) break;
+      items.push(...data);
+      page = resp.headers.get('X-Next-Page') || (data.length < 100 ? '' : String(Number(page) + 1));
+    }
+    return items;
+  }
+
+  async listBranches(repo: RepoLocator, signal?: AbortSignal): Promise<GitBranch[]> {
+    const data = await this.paginate<GitLabBranch>(repo, `${this.projectUrl(repo)}/repository/branches`, '获取分支信息失败', signal);
+    return data.map(branch => ({
+      name: branch.name,
+      commit: (branch.commit?.id || '').substring(0, 7),
+      protected: !!branch.protected
+    }));
+  }
+
+  async listTree(repo: RepoLocator, ref: string, signal?: AbortSignal): Promise<TreeEntry[]> {
+    const data = await this.paginate<GitLabTreeItem>(
+      repo,
+      `${this.projectUrl(repo)}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}`,
+      '获取文件列表失败', signal
+    );
+    return data
+      .filter(item => item.type === 'blob')
+      .map(item => ({ path: item.path, sha: item.id }));
+  }
+
+  async getFileContent(repo: RepoLocator, ref: string, filePath: string, signal?: AbortSignal): Promise<string> {
+    const resp = await this.request(
+      repo,
+      `${this.projectUrl(repo)}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(ref)}`,
+      '获取文件内容失败', signal
+    );
+    return resp.text();
+  }
+
+  async getCompare(repo: RepoLocator, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const data = await this.requestJson<{ diffs?: GitLabDiff[] }>(
+      repo,
+      `${this.projectUrl(repo)}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`,
+      '获取差异失败', signal
+    );
+    return { base, head, files: (data.diffs || []).map(d => this.toChangedFile(d)) };
+  }
+
+  // GitLab 中 PR 对应 Merge Request，编号为项目内 iid
+  async getPullRequestDiff(repo: RepoLocator, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const mr = await this.requestJson<{
+      target_branch?: string;
+      source_branch?: string;
+      diff_refs?: { head_sha?: string };
+      changes?: GitLabDiff[];
+    }>(repo, `${this.projectUrl(repo)}/merge_requests/${pullNumber}/changes`, '获取MR信息失败', signal);
+    return {
+      base: mr.target_branch || '',
+      head: mr.diff_refs?.head_sha || mr.source_branch || '',
+      pullNumber,
+      files: (mr.changes || []).map(d => this.toChangedFile(d))
+    };
+  }
+
+  private toChangedFile(d: GitLabDiff): ChangedFile {
+    const status: ChangedFile['status'] = d.new_file ? 'added' : d.deleted_file ? 'removed' : d.renamed_file ? 'renamed' : 'modified';
+    return toChangedFile(d.new_path, status, d.diff || undefined, d.renamed_file ? d.old_path : undefined);
+  }
+}
+
+interface GiteeBranch { name: string; commit?: { sha?: string }; protected?: boolean }
+interface GiteeDiffFile {
+  filename: string;
+  status: string;
+  // compare 接口为字符串，PR 文件接口为对象
+  patch?: string | { diff?: string; old_path?: string; renamed_file?: boolean; too_large?: boolean };
+}
+
+export class GiteeProvider extends BaseGitProvider {
+  readonly type = 'gitee' as const;
+
+  // Gitee 通过 access_token 查询参数传递令牌
+  protected authorize(url: string, headers: Record<string, string>, token: string): string {
+    return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+  }
+
+  private repoUrl(repo: RepoLocator): string {
+    return `${repo.apiBase}/repos/${repo.owner}/${repo.repo}`;
+  }
+
+  async listBranches(repo: RepoLocator, signal?: AbortSignal): Promise<GitBranch[]> {
+    const branches: GitBranch[] = [];
+    let page = 1;
+    while (true) {
+      const data = await this.requestJson<GiteeBranch[]>(repo, `${this.repoUrl(repo)}/branches?per_page=100&page=${page}`, '获取分支信息失败', signal);
+      if (!Array.isArray(data) || data.length === 0) break;
+      for (const branch of data) {
+        branches.push({
+          name: branch.name,
+          commit: (branch.commit?.sha || '').substring(0, 7),
+          protected: !!branch.protected
+        });
+      }
+      if (data.length < 100) break;
+      page++;
+    }
+    return branches;
+  }
+
+  async listTree(repo: RepoLocator, ref: string, signal?: AbortSignal): Promise<TreeEntry[]> {
+    const data = await this.requestJson<{ tree: GitHubTreeItem[]; truncated?: boolean }>(
+      repo,
+      `${this.repoUrl(repo)}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+      '获取文件列表失败', signal
+    );
+    assertTreeComplete(data);
+    return (data.tree || [])
+      .filter(item => item.type === 'blob')
+      .map(item => ({ path: item.path, sha: item.sha, size: item.size }));
+  }
+
+  async getFileContent(repo: RepoLocator, ref: string, filePath: string, signal?: AbortSignal): Promise<string> {
+    const resp = await this.request(
+      repo,
+      `${this.repoUrl(repo)}/raw/${encodePath(filePath)}?ref=${encodeURIComponent(ref)}`,
+      '获取文件内容失败', signal
+    );
+    return resp.text();
+  }
+
+  async getCompare(repo: RepoLocator, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const data = await this.requestJson<{ files?: GiteeDiffFile[] }>(
+      repo,
+      `${this.repoUrl(repo)}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+      '获取差异失败', signal
+    );
+    return { base, head, files: (data.files || []).map(f => this.toChangedFile(f)) };
+  }
+
+  async getPullRequestDiff(repo: RepoLocator, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const pr = await this.requestJson<{ base?: { ref?: string }; head?: { sha?: string; ref?: string } }>(
+      repo,
+      `${this.repoUrl(repo)}/pulls/${pullNumber}`,
+      '获取PR信息失败', signal
+    );
+    const data = await this.requestJson<GiteeDiffFile[]>(repo, `${this.repoUrl(repo)}/pulls/${pullNumber}/files`, '获取PR变更文件失败', signal);
+    return {
+      base: pr.base?.ref || '',
+      head: pr.head?.sha || pr.head?.ref || '',
+      pullNumber,
+      files: (Array.isArray(data) ? data : []).map(f => this.toChangedFile(f))
+    };
+  }
+
+  private toChangedFile(f: GiteeDiffFile): ChangedFile {
+    const status: ChangedFile['status'] =
+      f.status === 'added' || f.status === 'removed' || f.status === 'renamed' ? f.status : 'modified';
+    const patch = f.patch;
+    if (typeof patch !== 'object' || !patch) {
+      return toChangedFile(f.filename, status, typeof patch === 'string' ? patch : undefined);
+    }
+    const diff = patch.too_large ? undefined : patch.diff;
+    return toChangedFile(f.filename, status, diff, patch.renamed_file ? patch.old_path : undefined);
+  }
+}
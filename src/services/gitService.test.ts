@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import GitService from './gitService';
+
+describe('GitService.parseRepositoryUrl', () => {
+  const service = GitService.getInstance();
+
+  afterEach(() => {
+    service.setGitLabHosts([]);
+  });
+
+  it('识别 GitHub / GitLab / Gitee，支持 .git 后缀、末尾斜杠与 SSH 写法', () => {
+    expect(service.parseRepositoryUrl('https://github.com/acme/app.git')).toMatchObject({
+      provider: 'github', apiBase: 'https://api.github.com', owner: 'acme', repo: 'app', fullPath: 'acme/app'
+    });
+    expect(service.parseRepositoryUrl('git@gitee.com:acme/app.git')).toMatchObject({
+      provider: 'gitee', apiBase: 'https://gitee.com/api/v5', fullPath: 'acme/app'
+    });
+    expect(service.parseRepositoryUrl('https://gitlab.com/group/sub/app/')).toMatchObject({
+      provider: 'gitlab', owner: 'group/sub', repo: 'app', fullPath: 'group/sub/app'
+    });
+  });
+
+  it('GitHub 地址只取 owner/repo', () => {
+    expect(service.parseRepositoryUrl('https://github.com/acme/app/tree/main').fullPath).toBe('acme/app');
+  });
+
+  it('自建 GitLab 按配置的地址识别，支持多级分组与子路径部署', () => {
+    service.setGitLabHosts(['https://git.example.com/', 'https://example.org/gitlab']);
+    expect(service.parseRepositoryUrl('https://git.example.com/a/b/c/app.git')).toMatchObject({
+      provider: 'gitlab', host: 'git.example.com', apiBase: 'https://git.example.com/api/v4', owner: 'a/b/c', repo: 'app'
+    });
+    expect(service.parseRepositoryUrl('git@git.example.com:team/app.git')).toMatchObject({ provider: 'gitlab', fullPath: 'team/app' });
+    expect(service.parseRepositoryUrl('https://example.org/gitlab/team/app')).toMatchObject({
+      apiBase: 'https://example.org/gitlab/api/v4', fullPath: 'team/app'
+    });
+    expect(service.validateGitUrl('https://git.example.com/team/app')).toBe(true);
+  });
+
+  it('未配置的主机与缺少仓库名的地址无效', () => {
+    expect(() => service.parseRepositoryUrl('https://git.example.com/team/app')).toThrow('不支持的代码托管平台');
+    expect(() => service.parseRepositoryUrl('https://github.com/acme')).toThrow('无效的Git仓库地址');
+    expect(service.validateGitUrl('https://git.example.com/team/app')).toBe(false);
+  });
+});
+
+describe('GitService.getRepositoryKey', () => {
+  const service = GitService.getInstance();
+
+  it('同一仓库的不同地址写法得到相同标识', () => {
+    const keys = ['https://github.com/Acme/App', 'https://github.com/acme/app.git', 'https://github.com/acme/app/', 'git@github.com:acme/app.git']
+      .map(url => service.getRepositoryKey(url));
+    expect(new Set(keys)).toEqual(new Set(['github.com/acme/app']));
+  });
+
+  it('无法解析的来源（本地目录、压缩包）返回原名称', () => {
+    expect(service.getRepositoryKey(' my-project.zip ')).toBe('my-project.zip');
+  });
+});
@@ -1,4 +1,14 @@
 import { GitBranch, GitCommit, FileText, AlertCircle } from 'lucide-react';
+import { GitProvider, GitProviderType, RepoLocator, RateLimitInfo, ProviderContext, TreeEntry, GitError, GitHubProvider, GitLabProvider, GiteeProvider } from './gitProviders';
+import type { ReviewSource, SourceFile } from './reviewSources';
+import TokenService from './tokenService';
+import {
+  FileSelectionOptions, SelectionResult, DEFAULT_FILE_SELECTION, selectFiles, isGeneratedContent,
+  parseGitignore, parseGitattributes, estimateTokensFromBytes
+} from './fileSelection';
+
+export { GitError } from './gitProviders';
+export type { GitErrorKind } from './gitProviders';
 
 export interface GitBranch {
   name: string;
@@ -17,13 +27,68 @@ export interface CodeFile {
   content: string;
   language: string;
   size: number;
+  // 文件内容的 blob SHA（Git 源可用）
+  sha?: string;
+}
+
+// 差异审查目标：指定PR编号，或指定 base/head 两个引用
+export interface DiffTarget {
+  base?: string;
+  head?: string;
+  pullNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface ChangedFile {
+  path: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  previousPath?: string;
+  patch?: string;
+  hunks: DiffHunk[];
+  // head 侧新增/修改的行号；无 patch（二进制或变更过大）时为 null，表示整文件视为变更
+  changedLines: number[] | null;
+}
+
+export interface FileSelectionPreview<T extends TreeEntry = TreeEntry> extends SelectionResult<T> {
+  totalBytes: number;
+  // GitLab 文件树不返回大小，这部分文件不计入估算
+  unknownSizeCount: number;
+  estimatedTokens: number;
+}
+
+export interface RepositoryDiff {
+  base: string;
+  head: string;
+  pullNumber?: number;
+  files: ChangedFile[];
 }
 
 export class GitService {
   private static instance: GitService;
   private localStoragePath: string = 'ai-code-review';
   private repositoryFiles: Map<string, CodeFile> = new Map();
-  
+  private changedFiles: Map<string, ChangedFile> = new Map();
+  // 增量加载时 blob SHA 未变化、未读取内容的文件
+  private unchangedFiles: Map<string, string> = new Map();
+  private gitLabHosts: string[] = [];
+  private fileSelection: FileSelectionOptions = { ...DEFAULT_FILE_SELECTION };
+  private rateLimitCallbacks: Array<(info: RateLimitInfo) => void> = [];
+  private providerContext: ProviderContext = {
+    getToken: (repo) => TokenService.getInstance().getToken(repo.host),
+    reportRateLimit: (info) => this.rateLimitCallbacks.forEach(cb => cb(info))
+  };
+  private providers: Record<GitProviderType, GitProvider> = {
+    github: new GitHubProvider(this.providerContext),
+    gitlab: new GitLabProvider(this.providerContext),
+    gitee: new GiteeProvider(this.providerContext)
+  };
+
   public static getInstance(): GitService {
     if (!GitService.instance) {
       GitService.instance = new GitService();
@@ -36,168 +101,272 @@ export class GitService {
     this.localStoragePath = path;
   }
 
+  // 注册频率限制回调（每次API响应携带限额信息时触发）
+  onRateLimit(callback: (info: RateLimitInfo) => void): void {
+    this.rateLimitCallbacks.push(callback);
+  }
+
+  // 设置文件选择规则（包含/排除模式、数量上限等）
+  setFileSelection(options: Partial<FileSelectionOptions>): void {
+    this.fileSelection = { ...this.fileSelection, ...options };
+  }
+
+  getFileSelection(): FileSelectionOptions {
+    return { ...this.fileSelection };
+  }
+
+  // 注册自建GitLab地址，如 https://gitlab.example.com
+  setGitLabHosts(baseUrls: string[]): void {
+    this.gitLabHosts = baseUrls
+      .map(u => u.trim().replace(/\/+$/, ''))
+      .filter(u => /^https?:\/\/[^/\s]+/.test(u));
+  }
+
+  getGitLabHosts(): string[] {
+    return [...this.gitLabHosts];
+  }
+
   // 验证Git仓库地址（支持含/不含 .git）
   validateGitUrl(url: string): boolean {
     const patterns = [
       /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+(\.git)?$/,
-      /^https:\/\/gitlab\.com\/[\w.-]+\/[\w.-]+(\.git)?$/,
+      /^https:\/\/gitlab\.com\/[\w.-]+(\/[\w.-]+)+(\.git)?$/,
       /^git@github\.com:[\w.-]+\/[\w.-]+\.git$/,
-      /^git@gitlab\.com:[\w.-]+\/[\w.-]+\.git$/,
+      /^git@gitlab\.com:[\w.-]+(\/[\w.-]+)+\.git$/,
       /^https:\/\/gitee\.com\/[\w.-]+\/[\w.-]+(\.git)?$/,
       /^git@gitee\.com:[\w.-]+\/[\w.-]+\.git$/
     ];
-    return patterns.some(pattern => pattern.test(url));
+    if (patterns.some(pattern => pattern.test(url))) return true;
+    try {
+      return this.parseRepositoryUrl(url).provider === 'gitlab';
+    } catch {
+      return false;
+    }
   }
 
-  // 从GitHub API获取仓库信息
-  async getRepositoryInfo(url: string): Promise<GitRepository> {
-    if (!this.validateGitUrl(url)) {
+  // 解析仓库地址，识别托管平台（GitHub / GitLab / 自建GitLab / Gitee）
+  parseRepositoryUrl(url: string): RepoLocator {
+    const trimmed = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+
+    // git@host:path 形式转换为 https://host/path
+    const ssh = trimmed.match(/^git@([^:]+):(.+)$/);
+    const httpsUrl = ssh ? `https://${ssh[1]}/${ssh[2]}` : trimmed;
+
+    const selfHosted = this.gitLabHosts.find(base => httpsUrl.startsWith(`${base}/`));
+    if (selfHosted) {
+      return this.buildLocator('gitlab', selfHosted, `${selfHosted}/api/v4`, httpsUrl.slice(selfHosted.length + 1));
+    }
+
+    const match = httpsUrl.match(/^https?:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
       throw new Error('无效的Git仓库地址');
     }
+    const [, host, path] = match;
+    switch (host) {
+      case 'github.com':
+        return this.buildLocator('github', 'https://github.com', 'https://api.github.com', path);
+      case 'gitlab.com':
+        return this.buildLocator('gitlab', 'https://gitlab.com', 'https://gitlab.com/api/v4', path);
+      case 'gitee.com':
+        return this.buildLocator('gitee', 'https://gitee.com', 'https://gitee.com/api/v5', path);
+      default:
+        throw new Error(`不支持的代码托管平台: ${host}（自建GitLab请先配置地址）`);
+    }
+  }
 
+  // 获取仓库地址对应的主机名（用于匹配访问令牌），无法解析时返回空串
+  getHostForUrl(url: string): string {
     try {
-      // 解析GitHub仓库信息
-      const match = url.match(/github\.com\/([\w.-]+)\/([\w.-]+)/);
-      if (!match) {
-        throw new Error('只支持GitHub仓库');
-      }
+      return this.parseRepositoryUrl(url).host;
+    } catch {
+      return '';
+    }
+  }
 
-      const [, owner, repo] = match;
-      const repoName = repo.replace('.git', '');
-      
-      // 分页获取全部分支（每页最多100）
-      const branches: GitBranch[] = [];
-      let page = 1;
-      while (true) {
-        const resp = await fetch(`https://api.github.com/repos/${owner}/${repoName}/branches?per_page=100&page=${page}`, {
-          headers: { 'Accept': 'application/vnd.github+json' }
-        });
-        if (!resp.ok) throw new Error('获取分支信息失败');
-        const data = await resp.json();
-        if (!Array.isArray(data) || data.length === 0) break;
-        for (const branch of data) {
-          branches.push({
-            name: branch.name,
-            commit: (branch.commit?.sha || '').substring(0, 7),
-            protected: !!branch.protected
-          });
-        }
-        if (data.length < 100) break;
-        page++;
-      }
+  // 仓库的规范化标识（主机 + 完整路径），不受 .git 后缀、末尾斜杠、协议与 SSH 写法影响；无法解析时返回原地址
+  getRepositoryKey(url: string): string {
+    try {
+      const repo = this.parseRepositoryUrl(url);
+      return `${repo.host}/${repo.fullPath}`.toLowerCase();
+    } catch {
+      return url.trim();
+    }
+  }
 
-      return {
-        url,
-        branches,
-        currentBranch: branches[0]?.name || 'main'
-      };
-    } catch (error) {
-      console.error('获取仓库信息失败:', error);
-      // 如果API失败，返回模拟数据
-      return this.getMockRepositoryInfo(url);
+  private buildLocator(provider: GitProviderType, webBase: string, apiBase: string, path: string): RepoLocator {
+    const segments = path.split('/').filter(Boolean);
+    // GitHub / Gitee 只取 owner/repo；GitLab 允许多级分组
+    const parts = provider === 'gitlab' ? segments : segments.slice(0, 2);
+    if (parts.length < 2) {
+      throw new Error('无效的Git仓库地址');
     }
+    return {
+      provider,
+      host: new URL(webBase).host,
+      webBase,
+      apiBase,
+      owner: parts.slice(0, -1).join('/'),
+      repo: parts[parts.length - 1],
+      fullPath: parts.join('/')
+    };
   }
 
-  // 模拟仓库信息（备用）
-  private getMockRepositoryInfo(url: string): GitRepository {
+  private resolve(url: string): { provider: GitProvider; repo: RepoLocator } {
+    const repo = this.parseRepositoryUrl(url);
+    return { provider: this.providers[repo.provider], repo };
+  }
+
+  // 分支当前指向的提交（短 SHA）；分支不存在时返回 undefined
+  async getBranchCommit(url: string, branch: string, signal?: AbortSignal): Promise<string | undefined> {
+    const { provider, repo } = this.resolve(url);
+    const branches = await provider.listBranches(repo, signal);
+    return branches.find(item => item.name === branch)?.commit || undefined;
+  }
+
+  // 通过对应平台API获取仓库信息
+  async getRepositoryInfo(url: string): Promise<GitRepository> {
+    if (!this.validateGitUrl(url)) {
+      throw new Error('无效的Git仓库地址');
+    }
+
+    const { provider, repo } = this.resolve(url);
+    const branches = await provider.listBranches(repo);
+
     return {
       url,
-      branches: [
-        { name: 'main', commit: 'abc1234', protected: true },
-        { name: 'develop', commit: 'def5678', protected: false },
-        { name: 'feature/new-ui', commit: 'ghi9012', protected: false },
-        { name: 'hotfix/bug-fix', commit: 'jkl3456', protected: false }
-      ],
-      currentBranch: 'main'
+      branches,
+      currentBranch: branches[0]?.name || 'main'
     };
   }
 
-  // 获取仓库文件列表
+  // 获取仓库文件列表（按文件选择规则筛选）
   async getRepositoryFiles(url: string, branch: string): Promise<string[]> {
-    try {
-      const match = url.match(/github\.com\/([\w.-]+)\/([\w.-]+)/);
-      if (!match) {
-        throw new Error('只支持GitHub仓库');
-      }
+    const preview = await this.previewFileSelection(url, branch);
+    return preview.selected.map(item => item.path);
+  }
 
-      const [, owner, repo] = match;
-      const repoName = repo.replace('.git', '');
-      
-      // 获取仓库树信息
-      const treeResponse = await fetch(`https://api.github.com/repos/${owner}/${repoName}/git/trees/${branch}?recursive=1`);
-      if (!treeResponse.ok) {
-        throw new Error('获取文件列表失败');
+  // 预览文件选择结果：读取仓库 .gitignore / .gitattributes 后按规则筛选，并估算 token 用量
+  async previewFileSelection(url: string, branch: string): Promise<FileSelectionPreview> {
+    return this.previewSource(new GitRepositorySource(url, branch));
+  }
+
+  // 对任意审查源预览文件选择结果
+  async previewSource(source: ReviewSource, signal?: AbortSignal): Promise<FileSelectionPreview<SourceFile>> {
+    const tree = await source.listFiles(signal);
+    const options = this.fileSelection;
+
+    const ignoreRules: ReturnType<typeof parseGitignore> = [];
+    if (options.respectGitignore) {
+      const ignoreFiles = tree.filter(item => /(^|\/)\.gitignore$/.test(item.path)).slice(0, 20);
+      for (const item of ignoreFiles) {
+        const content = await this.readOptionalFile(item, signal);
+        const base = item.path.includes('/') ? item.path.slice(0, item.path.lastIndexOf('/')) : '';
+        ignoreRules.push(...parseGitignore(content, base));
       }
-      
-      const treeData = await treeResponse.json();
-      
-      // 过滤出代码文件
-      const codeFiles = treeData.tree
-        .filter((item: any) => item.type === 'blob')
-        .filter((item: any) => this.isCodeFile(item.path))
-        .map((item: any) => item.path)
-        .slice(0, 20); // 限制文件数量，避免过多请求
-      
-      return codeFiles;
+    }
+    const attributesFile = options.skipVendored ? tree.find(item => item.path === '.gitattributes') : undefined;
+    const attributes = attributesFile ? parseGitattributes(await this.readOptionalFile(attributesFile, signal)) : [];
+
+    const result = selectFiles(tree, options, ignoreRules, attributes);
+    const totalBytes = result.selected.reduce((sum, item) => sum + (item.size || 0), 0);
+    return {
+      ...result,
+      totalBytes,
+      unknownSizeCount: result.selected.filter(item => item.size === undefined).length,
+      estimatedTokens: estimateTokensFromBytes(totalBytes)
+    };
+  }
+
+  // 读取可选的配置文件，不存在时返回空串
+  private async readOptionalFile(file: SourceFile, signal?: AbortSignal): Promise<string> {
+    try {
+      return await file.read(signal);
     } catch (error) {
-      console.error('获取文件列表失败:', error);
-      return this.getMockCodeFiles();
+      if (error instanceof GitError && error.kind === 'not-found') return '';
+      throw error;
     }
   }
 
-  // 判断是否为代码文件
-  private isCodeFile(filePath: string): boolean {
-    const codeExtensions = [
-      '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.kt', '.cpp', '.c', '.cs',
-      '.go', '.rs', '.php', '.rb', '.swift', '.vue', '.svelte'
-    ];
-    
-    return codeExtensions.some(ext => filePath.toLowerCase().endsWith(ext));
+  // 读取审查源中的单个文件（如基线文件），不受文件选择规则影响；不存在时返回空串
+  async readSourceFile(source: ReviewSource, filePath: string, signal?: AbortSignal): Promise<string> {
+    if (source instanceof GitRepositorySource) {
+      return this.readOptionalFile({ path: filePath, read: (readSignal) => this.getFileContent(source.url, source.ref, filePath, readSignal) }, signal);
+    }
+    const file = (await source.listFiles(signal)).find(item => item.path === filePath);
+    return file ? this.readOptionalFile(file, signal) : '';
+  }
+
+  // 获取仓库文件树（全部文件，不做筛选）
+  async listTree(url: string, branch: string, signal?: AbortSignal): Promise<TreeEntry[]> {
+    const { provider, repo } = this.resolve(url);
+    return provider.listTree(repo, branch, signal);
   }
 
   // 获取文件内容
-  async getFileContent(url: string, branch: string, filePath: string): Promise<string> {
-    try {
-      const match = url.match(/github\.com\/([\w.-]+)\/([\w.-]+)/);
-      if (!match) {
-        throw new Error('只支持GitHub仓库');
-      }
+  async getFileContent(url: string, branch: string, filePath: string, signal?: AbortSignal): Promise<string> {
+    const { provider, repo } = this.resolve(url);
+    return provider.getFileContent(repo, branch, filePath, signal);
+  }
 
-      const [, owner, repo] = match;
-      const repoName = repo.replace('.git', '');
-      
-      // 获取文件内容
-      const contentResponse = await fetch(`https://api.github.com/repos/${owner}/${repoName}/contents/${filePath}?ref=${branch}`);
-      if (!contentResponse.ok) {
-        throw new Error('获取文件内容失败');
-      }
-      
-      const contentData = await contentResponse.json();
-      
-      if (contentData.encoding === 'base64') {
-        // 解码base64内容（支持Unicode）
-        try {
-          // 使用更可靠的Base64解码方法
-          const binaryString = atob(contentData.content);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-          // 使用TextDecoder处理Unicode字符
-          const decoder = new TextDecoder('utf-8');
-          return decoder.decode(bytes);
-        } catch (error) {
-          console.warn('Base64解码失败，尝试备用方法:', error);
-          // 备用解码方法
-          return decodeURIComponent(escape(atob(contentData.content)));
-        }
-      } else {
-        return contentData.content || '';
+  // 获取两个引用之间的差异
+  async getCompare(url: string, base: string, head: string, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const { provider, repo } = this.resolve(url);
+    return provider.getCompare(repo, base, head, signal);
+  }
+
+  // 获取PR（GitLab 为 MR）的差异
+  async getPullRequestDiff(url: string, pullNumber: number, signal?: AbortSignal): Promise<RepositoryDiff> {
+    const { provider, repo } = this.resolve(url);
+    return provider.getPullRequestDiff(repo, pullNumber, signal);
+  }
+
+  // 加载差异：只获取变更的代码文件（head 侧内容），并记录变更行
+  async loadDiff(url: string, target: DiffTarget, signal?: AbortSignal): Promise<RepositoryDiff> {
+    let diff: RepositoryDiff;
+    if (target.pullNumber) {
+      diff = await this.getPullRequestDiff(url, target.pullNumber, signal);
+    } else if (target.base && target.head) {
+      diff = await this.getCompare(url, target.base, target.head, signal);
+    } else {
+      throw new Error('差异审查需要PR编号或 base/head 引用');
+    }
+
+    this.repositoryFiles.clear();
+    this.changedFiles.clear();
+    this.unchangedFiles.clear();
+
+    // 差异模式同样遵循包含/排除与第三方代码规则，但不限制数量
+    const candidates = diff.files.filter(file => file.status !== 'removed');
+    const selection = selectFiles(candidates.map(file => ({ path: file.path })), { ...this.fileSelection, maxFiles: 0 });
+    const selectedPaths = new Set(selection.selected.map(item => item.path));
+
+    for (const file of candidates) {
+      if (!selectedPaths.has(file.path)) continue;
+      signal?.throwIfAborted();
+      try {
+        const content = await this.getFileContent(url, diff.head, file.path, signal);
+        this.repositoryFiles.set(file.path, {
+          path: file.path,
+          content,
+          language: this.detectLanguage(file.path),
+          size: content.length
+        });
+        this.changedFiles.set(file.path, file);
+
+        // 避免请求过于频繁
+        await new Promise(resolve => setTimeout(resolve, 100));
+      } catch (error) {
+        if (signal?.aborted || this.isFatalError(error)) throw error;
+        console.error(`处理变更文件失败: ${file.path}`, error);
       }
-    } catch (error) {
-      console.error(`获取文件内容失败: ${filePath}`, error);
-      return this.getMockFileContent(filePath);
     }
+
+    return diff;
+  }
+
+  // 获取文件的变更信息（仅差异模式下存在）
+  getChangedFile(filePath: string): ChangedFile | undefined {
+    return this.changedFiles.get(filePath);
   }
 
   // HTML转义函数，防止特殊字符导致显示问题
@@ -238,45 +407,58 @@ export class GitService {
   // 克隆仓库（获取所有文件）
   async cloneRepository(url: string, branch: string, localPath: string): Promise<string> {
     console.log(`开始获取仓库代码: ${url} 分支: ${branch}`);
+    return this.loadSource(new GitRepositorySource(url, branch));
+  }
+
+  // 从任意审查源加载代码：按文件选择规则筛选后读取内容
+  // knownShas 为上次审查各文件的 blob SHA，SHA 相同的文件不再读取，记为未变化
+  async loadSource(source: ReviewSource, signal?: AbortSignal, knownShas?: Map<string, string>): Promise<string> {
+    // 清空之前的文件
+    this.repositoryFiles.clear();
+    this.changedFiles.clear();
+    this.unchangedFiles.clear();
     
-    try {
-      // 清空之前的文件
-      this.repositoryFiles.clear();
-      
-      // 获取文件列表
-      const filePaths = await this.getRepositoryFiles(url, branch);
-      console.log(`找到 ${filePaths.length} 个代码文件`);
-      
-      // 获取所有文件内容
-      let successCount = 0;
-      for (const filePath of filePaths) {
-        try {
-          const content = await this.getFileContent(url, branch, filePath);
-          const language = this.detectLanguage(filePath);
-          
-          this.repositoryFiles.set(filePath, {
-            path: filePath,
-            content,
-            language,
-            size: content.length
-          });
-          
-          successCount++;
-          
-          // 避免请求过于频繁
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (error) {
-          console.error(`处理文件失败: ${filePath}`, error);
+    // 获取文件列表
+    const preview = await this.previewSource(source, signal);
+    console.log(`找到 ${preview.selected.length} 个代码文件`);
+    
+    // 获取所有文件内容
+    let successCount = 0;
+    for (const file of preview.selected) {
+      signal?.throwIfAborted();
+      if (file.sha && knownShas?.get(file.path) === file.sha) {
+        this.unchangedFiles.set(file.path, file.sha);
+        continue;
+      }
+      try {
+        const content = await file.read(signal);
+        if (this.fileSelection.skipVendored && isGeneratedContent(content)) {
+          console.log(`跳过生成代码: ${file.path}`);
+          continue;
         }
+        
+        this.repositoryFiles.set(file.path, {
+          path: file.path,
+          content,
+          language: this.detectLanguage(file.path),
+          size: content.length,
+          sha: file.sha
+        });
+        
+        successCount++;
+      } catch (error) {
+        // 取消，或认证、限流、网络错误对后续文件同样生效，直接中止
+        if (signal?.aborted || this.isFatalError(error)) throw error;
+        console.error(`处理文件失败: ${file.path}`, error);
       }
-      
-      return `成功获取 ${successCount} 个文件`;
-    } catch (error) {
-      console.error('获取仓库代码失败:', error);
-      // 使用模拟数据
-      this.loadMockRepository();
-      return '使用模拟数据进行审查';
     }
+    
+    const unchanged = this.unchangedFiles.size > 0 ? `，${this.unchangedFiles.size} 个文件未变化` : '';
+    return `${source.label}：成功获取 ${successCount} 个文件${unchanged}`;
+  }
+
+  private isFatalError(error: unknown): boolean {
+    return error instanceof GitError && error.kind !== 'not-found' && error.kind !== 'unknown';
   }
 
   // 获取代码文件列表
@@ -290,6 +472,16 @@ export class GitService {
     return file?.content || '';
   }
 
+  // 文件内容的 blob SHA（非 Git 源可能没有）
+  getFileSha(filePath: string): string | undefined {
+    return this.repositoryFiles.get(filePath)?.sha;
+  }
+
+  // 增量加载时未变化的文件路径
+  getUnchangedFiles(): string[] {
+    return Array.from(this.unchangedFiles.keys());
+  }
+
   // 获取所有代码文件
   getAllCodeFiles(): CodeFile[] {
     return Array.from(this.repositoryFiles.values());
@@ -320,91 +512,30 @@ export class GitService {
     
     return languageMap[ext || ''] || 'text';
   }
+}
 
-  // 加载模拟仓库数据
-  private loadMockRepository(): void {
-    this.repositoryFiles.clear();
-    
-    const mockFiles = [
-      {
-        path: 'src/main.js',
-        content: `import React from 'react';
-import ReactDOM from 'react-dom/client';
-import App from './App';
-
-const root = ReactDOM.createRoot(document.getElementById('root'));
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);`,
-        language: 'javascript',
-        size: 200
-      },
-      {
-        path: 'src/components/Button.js',
-        content: `import React from 'react';
-
-const Button = ({ onClick, children, disabled = false }) => {
-  return (
-    <button 
-      onClick={onClick}
-      disabled={disabled}
-      className="btn btn-primary"
-    >
-      {children}
-    </button>
-  );
-};
-
-export default Button;`,
-        language: 'javascript',
-        size: 250
-      },
-      {
-        path: 'src/utils/helpers.js',
-        content: `export const formatDate = (date) => {
-  return new Date(date).toLocaleDateString();
-};
-
-export const debounce = (func, wait) => {
-  let timeout;
-  return function executedFunction(...args) {
-    const later = () => {
-      clearTimeout(timeout);
-      func(...args);
-    };
-    clearTimeout(timeout);
-    timeout = setTimeout(later, wait);
-  };
-};`,
-        language: 'javascript',
-        size: 300
-      }
-    ];
+// Git 仓库审查源：文件列表来自仓库文件树，内容按需通过平台API读取
+export class GitRepositorySource implements ReviewSource {
+  readonly kind = 'git' as const;
 
-    mockFiles.forEach(file => {
-      this.repositoryFiles.set(file.path, file);
-    });
-  }
-
-  // 获取模拟代码文件
-  private getMockCodeFiles(): string[] {
-    return [
-      'src/main.js',
-      'src/components/Button.js',
-      'src/utils/helpers.js',
-      'src/services/api.js',
-      'src/hooks/useAuth.js',
-      'package.json',
-      'README.md'
-    ];
+  constructor(readonly url: string, readonly ref: string) {}
+
+  get label(): string {
+    return this.url;
   }
 
-  // 获取模拟文件内容
-  private getMockFileContent(filePath: string): string {
-    const file = this.repositoryFiles.get(filePath);
-    return file?.content || '// 文件内容';
+  async listFiles(signal?: AbortSignal): Promise<SourceFile[]> {
+    const gitService = GitService.getInstance();
+    const tree = await gitService.listTree(this.url, this.ref, signal);
+    return tree.map(entry => ({
+      ...entry,
+      read: async (readSignal?: AbortSignal) => {
+        const content = await gitService.getFileContent(this.url, this.ref, entry.path, readSignal);
+        // 避免请求过于频繁
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return content;
+      }
+    }));
   }
 }
 
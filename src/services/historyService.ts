@@ -0,0 +1,107 @@
+import GitService from './gitService';
+import { STORES, runInStore } from './indexedDb';
+import { ReviewResult, parseReviewResult } from './reviewService';
+
+// 历史列表中展示的摘要，避免列表渲染依赖完整结果结构
+export interface HistoryEntry {
+  id: string;
+  repository: string;
+  branch: string;
+  mode?: ReviewResult['mode'];
+  commit?: string;
+  model?: string;
+  startTime: Date;
+  totalFiles: number;
+  totalIssues: number;
+  issuesByType: Record<string, number>;
+  issuesByCategory: Record<string, number>;
+  cancelled?: boolean;
+  demo?: boolean;
+}
+
+// 同一仓库与分支的历次审查，按时间正序
+export interface TrendSeries {
+  repository: string;
+  branch: string;
+  points: HistoryEntry[];
+}
+
+function toEntry(result: ReviewResult): HistoryEntry {
+  return {
+    id: result.id,
+    repository: result.repository,
+    branch: result.branch,
+    mode: result.mode,
+    commit: result.commit,
+    model: result.model,
+    startTime: result.startTime,
+    totalFiles: result.summary.totalFiles,
+    totalIssues: result.summary.totalIssues,
+    issuesByType: result.summary.issuesByType,
+    issuesByCategory: result.summary.issuesByCategory,
+    cancelled: result.cancelled,
+    demo: result.demo
+  };
+}
+
+// 按仓库（规范化地址）与分支分组的质量趋势；差异审查、已取消与演示数据只覆盖部分代码，不计入趋势
+export function buildTrends(entries: HistoryEntry[]): TrendSeries[] {
+  const gitService = GitService.getInstance();
+  const groups = new Map<string, TrendSeries>();
+  entries
+    .filter(entry => entry.mode !== 'diff' && !entry.cancelled && !entry.demo)
+    .forEach(entry => {
+      const key = `${gitService.getRepositoryKey(entry.repository)}\u0000${entry.branch}`;
+      if (!groups.has(key)) groups.set(key, { repository: entry.repository, branch: entry.branch, points: [] });
+      groups.get(key).points.push(entry);
+    });
+  return Array.from(groups.values()).map(series => ({
+    ...series,
+    points: series.points.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  }));
+}
+
+// 审查结果历史（IndexedDB），按 ReviewResult.id 存储
+export class HistoryService {
+  private static instance: HistoryService;
+
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  async save(result: ReviewResult): Promise<void> {
+    await runInStore(STORES.history, 'readwrite', store => store.put(result));
+  }
+
+  // 按审查时间倒序
+  async list(): Promise<HistoryEntry[]> {
+    const results = await this.getAll();
+    return results.map(toEntry).sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  }
+
+  async getAll(): Promise<ReviewResult[]> {
+    return runInStore<ReviewResult[]>(STORES.history, 'readonly', store => store.getAll());
+  }
+
+  async get(id: string): Promise<ReviewResult | null> {
+    const result = await runInStore<ReviewResult | undefined>(STORES.history, 'readonly', store => store.get(id));
+    return result || null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await runInStore(STORES.history, 'readwrite', store => store.delete(id));
+  }
+
+  // 导入导出的 JSON 报告；id 相同的记录会被覆盖
+  async importJson(text: string): Promise<ReviewResult> {
+    const result = parseReviewResult(text);
+    if (!result.id) result.id = Date.now().toString();
+    await this.save(result);
+    return result;
+  }
+}
+
+export default HistoryService;
@@ -0,0 +1,58 @@
+const DB_NAME = 'ai-code-review';
+const DB_VERSION = 3;
+
+// 对象仓库名称；新增仓库时提升 DB_VERSION 并在 upgrade 中创建
+export const STORES = {
+  reviewCache: 'review-cache',
+  history: 'review-history',
+  triage: 'issue-triage'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(STORES.reviewCache)) {
+    db.createObjectStore(STORES.reviewCache, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    db.createObjectStore(STORES.history, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.triage)) {
+    const store = db.createObjectStore(STORES.triage, { keyPath: ['repository', 'fingerprint'] });
+    store.createIndex('repository', 'repository');
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前环境不支持 IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败（如隐私模式）时允许下次重试
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// 在单个对象仓库上执行一个请求，事务完成后返回结果
+export async function runInStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
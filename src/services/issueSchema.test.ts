@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CODE_ISSUE_SCHEMA, parseIssueOutput, validateSchema } from './issueSchema';
+
+const issue = { line: 3, type: 'warning', category: 'security', message: '使用了 eval' };
+
+describe('validateSchema', () => {
+  it('合法问题没有错误', () => {
+    expect(validateSchema(issue, CODE_ISSUE_SCHEMA)).toEqual([]);
+  });
+
+  it('报告缺失字段、枚举、最小值、空字符串与类型错误及其路径', () => {
+    const errors = validateSchema({ line: 0, type: 'fatal', message: ' ', context: [1] }, CODE_ISSUE_SCHEMA);
+    expect(errors).toEqual([
+      '$.category 缺失',
+      '$.line 不能小于 1',
+      '$.type 应为 error | warning | info | style 之一，实际为 "fatal"',
+      '$.message 不能为空',
+      '$.context[0] 应为 string，实际为 integer'
+    ]);
+  });
+
+  it('行号必须为整数', () => {
+    expect(validateSchema({ ...issue, line: 1.5 }, CODE_ISSUE_SCHEMA)).toEqual(['$.line 应为 integer，实际为 number']);
+  });
+});
+
+describe('parseIssueOutput', () => {
+  it('接受数组与 {"issues": [...]} 对象，并去掉 ``` 代码块标记', () => {
+    expect(parseIssueOutput(JSON.stringify([issue])).valid).toEqual([issue]);
+    expect(parseIssueOutput('```json\n' + JSON.stringify({ issues: [issue] }) + '\n```').valid).toEqual([issue]);
+  });
+
+  it('从前后带说明文字的输出中截取 JSON', () => {
+    const result = parseIssueOutput(`审查结果如下：\n${JSON.stringify([issue])}\n以上。`);
+    expect(result).toMatchObject({ parsed: true, valid: [issue], invalidCount: 0 });
+  });
+
+  it('保留通过校验的元素，统计未通过的元素', () => {
+    const result = parseIssueOutput(JSON.stringify([issue, { line: 'x' }]));
+    expect(result.valid).toEqual([issue]);
+    expect(result.invalidCount).toBe(1);
+    expect(result.errors[0]).toMatch(/^issues\[1\]/);
+  });
+
+  it('无法解析或结构不符时 parsed 为 false', () => {
+    expect(parseIssueOutput('没有发现问题').parsed).toBe(false);
+    expect(parseIssueOutput('{"result": []}').parsed).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+// 模型输出的结构约束：既作为供应商 JSON 模式 / 工具调用的 schema，也用于本地校验
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly string[];
+  minimum?: number;
+  minLength?: number;
+}
+
+export const ISSUE_TYPES = ['error', 'warning', 'info', 'style'] as const;
+export const ISSUE_CATEGORIES = ['security', 'performance', 'maintainability', 'readability', 'best-practices'] as const;
+
+export const CODE_ISSUE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    line: { type: 'integer', minimum: 1, description: '问题所在的原文件行号' },
+    column: { type: 'integer', minimum: 1 },
+    type: { type: 'string', enum: ISSUE_TYPES },
+    category: { type: 'string', enum: ISSUE_CATEGORIES },
+    message: { type: 'string', minLength: 1, description: '问题描述' },
+    suggestion: { type: 'string', description: '修改建议' },
+    code: { type: 'string', description: '问题代码，不含行号前缀' },
+    context: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['line', 'type', 'category', 'message']
+};
+
+// JSON 模式与工具调用要求顶层为对象，问题列表放在 issues 字段中
+export const ISSUE_LIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    issues: { type: 'array', items: CODE_ISSUE_SCHEMA }
+  },
+  required: ['issues']
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+// 按 schema 校验，返回错误列表（为空表示通过）；仅支持本文件用到的关键字
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const actual = typeOf(value);
+  if (schema.type && actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+    return [`${path} 应为 ${schema.type}，实际为 ${actual}`];
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path} 应为 ${schema.enum.join(' | ')} 之一，实际为 ${JSON.stringify(value)}`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push(`${path} 不能小于 ${schema.minimum}`);
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.trim().length < schema.minLength) {
+    errors.push(`${path} 不能为空`);
+  }
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) errors.push(`${path}.${key} 缺失`);
+    });
+    Object.entries(schema.properties || {}).forEach(([key, child]) => {
+      if (record[key] !== undefined) errors.push(...validateSchema(record[key], child, `${path}.${key}`));
+    });
+  }
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => errors.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+  }
+  return errors;
+}
+
+export interface ParsedIssueOutput {
+  // 通过校验的问题元素（模型原始对象）
+  valid: Record<string, unknown>[];
+  // 未通过校验的元素数
+  invalidCount: number;
+  // 无法解析为 JSON 时为 false
+  parsed: boolean;
+  errors: string[];
+}
+
+// 从模型输出中取出 JSON：整体解析失败时，截取首个 [ 或 { 到最后一个 ] 或 } 之间的内容
+function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf(']'), trimmed.lastIndexOf('}'));
+    if (start < 0 || end <= start) throw new Error('未找到 JSON 内容');
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+}
+
+// 解析并校验模型输出：接受问题数组或 {"issues": [...]} 对象
+export function parseIssueOutput(text: string): ParsedIssueOutput {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { valid: [], invalidCount: 0, parsed: false, errors: [`输出不是合法的 JSON：${(error as Error).message}`] };
+  }
+  const list = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as Record<string, unknown>).issues)
+      ? (json as Record<string, unknown[]>).issues
+      : null;
+  if (!list) {
+    return { valid: [], invalidCount: 0, parsed: false, errors: ['顶层应为问题数组或 {"issues": [...]} 对象'] };
+  }
+
+  const valid: Record<string, unknown>[] = [];
+  const errors: string[] = [];
+  list.forEach((item, i) => {
+    const itemErrors = validateSchema(item, CODE_ISSUE_SCHEMA, `issues[${i}]`);
+    if (itemErrors.length === 0) valid.push(item as Record<string, unknown>);
+    else errors.push(...itemErrors);
+  });
+  return { valid, invalidCount: list.length - valid.length, parsed: true, errors };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeIssue, CodeReview } from './aiService';
+import { compareIssues, compareRuns, issueFingerprint } from './issueTracking';
+
+function makeIssue(line: number, message: string, code: string): CodeIssue {
+  return { line, type: 'warning', category: 'security', message, suggestion: '', code, context: [] };
+}
+
+describe('issueFingerprint', () => {
+  it('不含行号，忽略代码空白与描述大小写', () => {
+    const a = makeIssue(3, 'Use of eval', 'eval(x)');
+    const b = makeIssue(40, 'use  of EVAL', '  eval( x )');
+    expect(issueFingerprint('a.js', a)).toBe(issueFingerprint('a.js', b));
+  });
+
+  it('文件、描述或代码不同时指纹不同', () => {
+    const a = makeIssue(3, 'Use of eval', 'eval(x)');
+    expect(issueFingerprint('b.js', a)).not.toBe(issueFingerprint('a.js', a));
+    expect(issueFingerprint('a.js', makeIssue(3, 'Use of eval', 'eval(y)'))).not.toBe(issueFingerprint('a.js', a));
+    expect(issueFingerprint('a.js', makeIssue(3, 'Other', 'eval(x)'))).not.toBe(issueFingerprint('a.js', a));
+  });
+});
+
+describe('compareIssues', () => {
+  it('代码移动后仍为 persisting，消失的为 fixed，新出现的为 new', () => {
+    const previous = [makeIssue(1, 'a', 'x()'), makeIssue(5, 'b', 'y()')];
+    const current = [makeIssue(10, 'a', 'x()'), makeIssue(12, 'c', 'z()')];
+    const { issues, fixed } = compareIssues('f.ts', previous, current);
+    expect(issues.map(issue => [issue.line, issue.status])).toEqual([[10, 'persisting'], [12, 'new']]);
+    expect(fixed.map(issue => [issue.message, issue.status])).toEqual([['b', 'fixed']]);
+  });
+
+  it('同一指纹按出现次数匹配', () => {
+    const same = (line: number) => makeIssue(line, 'a', 'x()');
+    const { issues, fixed } = compareIssues('f.ts', [same(1)], [same(1), same(2)]);
+    expect(issues.map(issue => issue.status)).toEqual(['persisting', 'new']);
+    expect(fixed).toEqual([]);
+  });
+});
+
+describe('compareRuns', () => {
+  const review = (file: string, issues: CodeIssue[], status?: CodeReview['status']): CodeReview =>
+    ({ file, issues, summary: '', status });
+
+  it('按文件汇总新增、已解决与未变化', () => {
+    const base = [review('a.ts', [makeIssue(1, 'a', 'x()'), makeIssue(2, 'b', 'y()')])];
+    const target = [review('a.ts', [makeIssue(3, 'a', 'x()'), makeIssue(4, 'c', 'z()')])];
+    const result = compareRuns(base, target);
+    expect(result.added.map(item => `${item.file}:${item.issue.message}`)).toEqual(['a.ts:c']);
+    expect(result.resolved.map(item => `${item.file}:${item.issue.message}`)).toEqual(['a.ts:b']);
+    expect(result.unchanged.map(item => `${item.file}:${item.issue.message}`)).toEqual(['a.ts:a']);
+  });
+
+  it('目标审查中没有的文件不算已解决（差异审查、取消或过滤）', () => {
+    const base = [review('a.ts', [makeIssue(1, 'a', 'x()')]), review('skipped.ts', [makeIssue(1, 's', 's()')])];
+    const result = compareRuns(base, [review('a.ts', [])]);
+    expect(result.resolved.map(item => item.file)).toEqual(['a.ts']);
+    expect(result.unchanged.map(item => item.file)).toEqual(['skipped.ts']);
+  });
+
+  it('目标审查中 AI 失败的文件，基准问题计为未变化', () => {
+    const result = compareRuns([review('a.ts', [makeIssue(1, 'a', 'x()')])], [review('a.ts', [], 'failed')]);
+    expect(result.resolved).toEqual([]);
+    expect(result.unchanged).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import type { CodeIssue, CodeReview } from './aiService';
+
+// 问题在两次审查之间的变化
+export type IssueStatus = 'new' | 'fixed' | 'persisting';
+
+// 53 位字符串哈希（cyrb53），用于生成紧凑的指纹
+function hash53(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+// 代码去掉全部空白，只有缩进或空格变化时视为同一处
+function normalizeCode(code: string): string {
+  return (code || '').replace(/\s+/g, '');
+}
+
+function normalizeText(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// 问题指纹：由文件、问题描述与问题代码决定，不含行号，代码上下移动后保持不变
+export function issueFingerprint(file: string, issue: CodeIssue): string {
+  return hash53([file, normalizeText(issue.message), normalizeCode(issue.code)].join('\u0000'));
+}
+
+// 按指纹对比同一文件前后两次的问题：当前问题标记为 new / persisting，未再出现的旧问题为 fixed
+export function compareIssues(
+  file: string,
+  previous: CodeIssue[],
+  current: CodeIssue[]
+): { issues: CodeIssue[]; fixed: CodeIssue[] } {
+  // 同一指纹可能出现多次，按出现次数匹配
+  const remaining = new Map<string, CodeIssue[]>();
+  previous.forEach(issue => {
+    const key = issueFingerprint(file, issue);
+    remaining.set(key, [...(remaining.get(key) || []), issue]);
+  });
+  const issues = current.map(issue => {
+    const matches = remaining.get(issueFingerprint(file, issue));
+    const status: IssueStatus = matches && matches.shift() ? 'persisting' : 'new';
+    return { ...issue, status };
+  });
+  const fixed = Array.from(remaining.values()).flat().map(issue => ({ ...issue, status: 'fixed' as const }));
+  return { issues, fixed };
+}
+
+export interface FileIssue {
+  file: string;
+  issue: CodeIssue;
+}
+
+// 两次审查的对比结果
+export interface RunComparison {
+  added: FileIssue[];
+  resolved: FileIssue[];
+  unchanged: FileIssue[];
+}
+
+// 按文件与指纹对比两次审查；目标审查未审查（差异审查、取消、预算中止或被过滤）或 AI 失败的文件
+// 无法判断是否已解决，其基准问题计为未变化
+export function compareRuns(base: CodeReview[], target: CodeReview[]): RunComparison {
+  const baseByFile = new Map(base.map(review => [review.file, review] as const));
+  const targetByFile = new Map(target.map(review => [review.file, review] as const));
+  const files = Array.from(new Set([...baseByFile.keys(), ...targetByFile.keys()])).sort();
+  const comparison: RunComparison = { added: [], resolved: [], unchanged: [] };
+
+  files.forEach(file => {
+    const before = baseByFile.get(file)?.issues || [];
+    const after = targetByFile.get(file);
+    const { issues, fixed } = compareIssues(file, before, after?.issues || []);
+    issues.forEach(issue => {
+      (issue.status === 'new' ? comparison.added : comparison.unchanged).push({ file, issue });
+    });
+    fixed.forEach(issue => {
+      (!after || after.status === 'failed' ? comparison.unchanged : comparison.resolved).push({ file, issue });
+    });
+  });
+  return comparison;
+}
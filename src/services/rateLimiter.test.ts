@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, parseRetryAfter, sleep } from './rateLimiter';
+
+// 记录 acquire 是否已拿到许可
+function track(promise: Promise<() => void>) {
+  const state: { release?: () => void; error?: unknown } = {};
+  promise.then(release => { state.release = release; }, error => { state.error = error; });
+  return state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('同时进行的请求不超过并发上限，释放后放行等待者', async () => {
+    const limiter = new RateLimiter({ concurrency: 2, requestsPerMinute: 100 });
+    const a = track(limiter.acquire());
+    const b = track(limiter.acquire());
+    const c = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(0);
+    expect([!!a.release, !!b.release, !!c.release]).toEqual([true, true, false]);
+
+    a.release();
+    // 重复释放不会多放行
+    a.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(c.release).toBeDefined();
+  });
+
+  it('每分钟请求数按滑动窗口限制', async () => {
+    const limiter = new RateLimiter({ concurrency: 5, requestsPerMinute: 2 });
+    (await limiter.acquire())();
+    await vi.advanceTimersByTimeAsync(10000);
+    (await limiter.acquire())();
+    const third = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(49999);
+    expect(third.release).toBeUndefined();
+    // 第一个请求滑出窗口后放行
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third.release).toBeDefined();
+  });
+
+  it('429 时并发减半（不低于 1），退避时间指数增长且有上限', () => {
+    const limiter = new RateLimiter({ concurrency: 8, requestsPerMinute: 100 });
+    expect(limiter.reportRateLimited()).toBe(2000);
+    expect(limiter.getEffectiveConcurrency()).toBe(4);
+    expect(limiter.reportRateLimited()).toBe(4000);
+    expect(limiter.reportRateLimited()).toBe(8000);
+    expect(limiter.reportRateLimited()).toBe(16000);
+    expect(limiter.getEffectiveConcurrency()).toBe(1);
+    expect(limiter.reportRateLimited()).toBe(32000);
+    expect(limiter.reportRateLimited()).toBe(60000);
+    // 成功一次后退避重新计算
+    limiter.reportSuccess();
+    expect(limiter.reportRateLimited()).toBe(2000);
+  });
+
+  it('429 后暂停到 Retry-After 指定的时间', async () => {
+    const limiter = new RateLimiter({ concurrency: 2, requestsPerMinute: 100 });
+    expect(limiter.reportRateLimited(5000)).toBe(5000);
+    const next = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(next.release).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(next.release).toBeDefined();
+  });
+
+  it('连续成功后逐步恢复并发，不超过配置值', () => {
+    const limiter = new RateLimiter({ concurrency: 4, requestsPerMinute: 100 });
+    limiter.reportRateLimited();
+    expect(limiter.getEffectiveConcurrency()).toBe(2);
+    for (let i = 0; i < 9; i++) limiter.reportSuccess();
+    expect(limiter.getEffectiveConcurrency()).toBe(2);
+    limiter.reportSuccess();
+    expect(limiter.getEffectiveConcurrency()).toBe(3);
+    for (let i = 0; i < 30; i++) limiter.reportSuccess();
+    expect(limiter.getEffectiveConcurrency()).toBe(4);
+  });
+
+  it('取消等待时拒绝并让出位置', async () => {
+    const limiter = new RateLimiter({ concurrency: 1, requestsPerMinute: 100 });
+    const first = await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = track(limiter.acquire(controller.signal));
+    const other = track(limiter.acquire());
+    controller.abort(new Error('cancelled'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(waiting.error).toEqual(new Error('cancelled'));
+
+    first();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(other.release).toBeDefined();
+  });
+
+  it('setLimits 立即生效并唤醒等待者', async () => {
+    const limiter = new RateLimiter({ concurrency: 1, requestsPerMinute: 100 });
+    await limiter.acquire();
+    const second = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second.release).toBeUndefined();
+    limiter.setLimits({ concurrency: 2, requestsPerMinute: 100 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second.release).toBeDefined();
+    expect(limiter.getLimits()).toEqual({ concurrency: 2, requestsPerMinute: 100 });
+  });
+});
+
+describe('sleep', () => {
+  it('取消时以 signal 的原因拒绝', async () => {
+    const controller = new AbortController();
+    const pending = sleep(1000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+    await expect(sleep(10, controller.signal)).rejects.toThrow('stop');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('支持秒数与 HTTP 日期', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT')).toBe(10000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT')).toBe(0);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,154 @@
+export interface RateLimits {
+  // 同时进行的请求数
+  concurrency: number;
+  // 每分钟请求数
+  requestsPerMinute: number;
+}
+
+// 供应商返回 HTTP 429 时抛出，retryAfterMs 来自 Retry-After 响应头
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+const WINDOW_MS = 60000;
+const MAX_BACKOFF_MS = 60000;
+const BASE_BACKOFF_MS = 2000;
+// 连续成功多少次后恢复一个并发
+const RECOVERY_STREAK = 10;
+
+// 可被取消的等待
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 解析 Retry-After：秒数或 HTTP 日期
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 单个供应商的请求限流：并发上限 + 滑动窗口 RPM，遇到 429 时降低并发并暂停
+export class RateLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private timestamps: number[] = [];
+  private pausedUntil = 0;
+  private concurrency: number;
+  private successStreak = 0;
+  private consecutiveLimited = 0;
+
+  constructor(private limits: RateLimits) {
+    this.concurrency = limits.concurrency;
+  }
+
+  getLimits(): RateLimits {
+    return { ...this.limits };
+  }
+
+  setLimits(limits: RateLimits): void {
+    this.limits = limits;
+    this.concurrency = limits.concurrency;
+    this.wake();
+  }
+
+  // 当前生效的并发数（429 后会临时降低）
+  getEffectiveConcurrency(): number {
+    return this.concurrency;
+  }
+
+  // 获取请求许可，返回释放函数；signal 取消时放弃等待
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    while (this.active >= this.concurrency) {
+      await this.waitForSlot(signal);
+    }
+    this.active++;
+
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(t => now - t < WINDOW_MS);
+      const rpmWait = this.timestamps.length >= this.limits.requestsPerMinute
+        ? this.timestamps[0] + WINDOW_MS - now
+        : 0;
+      const wait = Math.max(this.pausedUntil - now, rpmWait);
+      if (wait <= 0) break;
+      try {
+        await sleep(wait, signal);
+      } catch (error) {
+        this.active--;
+        this.wake();
+        throw error;
+      }
+    }
+    this.timestamps.push(Date.now());
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.wake();
+    };
+  }
+
+  reportSuccess(): void {
+    this.consecutiveLimited = 0;
+    if (this.concurrency >= this.limits.concurrency) return;
+    this.successStreak++;
+    if (this.successStreak >= RECOVERY_STREAK) {
+      this.successStreak = 0;
+      this.concurrency++;
+      this.wake();
+    }
+  }
+
+  // 遇到 429：并发减半，并暂停到 Retry-After 或指数退避时间之后；返回等待毫秒数
+  reportRateLimited(retryAfterMs?: number): number {
+    this.successStreak = 0;
+    this.consecutiveLimited++;
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    const backoff = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.consecutiveLimited - 1));
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + backoff);
+    return backoff;
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== wakeUp);
+        reject(signal?.reason);
+      };
+      const wakeUp = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(wakeUp);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private wake(): void {
+    const slots = Math.max(0, this.concurrency - this.active);
+    this.waiting.splice(0, slots).forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIRequestError } from './aiProviders';
+import { RateLimitError } from './rateLimiter';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, isRetryableError } from './retryPolicy';
+
+describe('isRetryableError', () => {
+  it('限流、服务端错误、超时类状态码与网络错误可以重试', () => {
+    expect(isRetryableError(new RateLimitError('HTTP 429'))).toBe(true);
+    expect(isRetryableError(new AIRequestError('HTTP 503', 'server', 503))).toBe(true);
+    [408, 409, 425].forEach(status => expect(isRetryableError(new AIRequestError(`HTTP ${status}`, 'unknown', status))).toBe(true));
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('认证、额度、模型不存在与参数错误不重试', () => {
+    expect(isRetryableError(new AIRequestError('HTTP 401', 'auth', 401))).toBe(false);
+    expect(isRetryableError(new AIRequestError('HTTP 429', 'quota', 429))).toBe(false);
+    expect(isRetryableError(new AIRequestError('HTTP 404', 'model-not-found', 404))).toBe(false);
+    expect(isRetryableError(new AIRequestError('HTTP 400', 'bad-request', 400))).toBe(false);
+    expect(isRetryableError(new AIRequestError('HTTP 418', 'unknown', 418))).toBe(false);
+    expect(isRetryableError(new Error('解析失败'))).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('上限按尝试次数指数增长，不超过 maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect([1, 2, 3, 4, 5].map(attempt => getBackoffDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('全抖动：等待时间在 0 到上限之间', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(DEFAULT_RETRY_POLICY, 3)).toBe(0);
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getBackoffDelay(DEFAULT_RETRY_POLICY, 1)).toBe(500);
+  });
+});
@@ -0,0 +1,29 @@
+import { AIRequestError } from './aiProviders';
+import { RateLimitError } from './rateLimiter';
+
+export interface RetryPolicy {
+  // 单个模型的最多尝试次数（含首次请求）
+  maxAttempts: number;
+  // 指数退避的基准与上限
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+// 可重试：429 限流、5xx、超时类状态码与网络错误；认证、额度、模型不存在与参数错误重试无意义
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  if (error instanceof AIRequestError) {
+    if (error.kind === 'server') return true;
+    return error.kind === 'unknown' && [408, 409, 425].includes(error.status ?? 0);
+  }
+  // fetch 在网络中断、连接被拒绝时抛出 TypeError
+  return error instanceof TypeError;
+}
+
+// 第 attempt 次重试前的等待：指数退避 + 全抖动，避免多个文件同时重试
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
@@ -0,0 +1,49 @@
+import { STORES, runInStore } from './indexedDb';
+import type { CodeReview } from './aiService';
+
+interface CacheEntry {
+  key: string;
+  review: CodeReview;
+  // providerId:modelId
+  model: string;
+  createdAt: number;
+}
+
+// SHA-256 十六进制摘要
+export async function hashKey(parts: string[]): Promise<string> {
+  const data = new TextEncoder().encode(parts.join('\u0000'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// AI 审查结果的持久缓存（IndexedDB），键由代码、规范、提示词版本与模型共同决定
+export class ReviewCache {
+  private static instance: ReviewCache;
+
+  public static getInstance(): ReviewCache {
+    if (!ReviewCache.instance) {
+      ReviewCache.instance = new ReviewCache();
+    }
+    return ReviewCache.instance;
+  }
+
+  async get(key: string): Promise<CodeReview | null> {
+    const entry = await runInStore<CacheEntry | undefined>(STORES.reviewCache, 'readonly', store => store.get(key));
+    return entry ? entry.review : null;
+  }
+
+  async set(key: string, model: string, review: CodeReview): Promise<void> {
+    const entry: CacheEntry = { key, model, review, createdAt: Date.now() };
+    await runInStore(STORES.reviewCache, 'readwrite', store => store.put(entry));
+  }
+
+  async count(): Promise<number> {
+    return runInStore(STORES.reviewCache, 'readonly', store => store.count());
+  }
+
+  async clear(): Promise<void> {
+    await runInStore(STORES.reviewCache, 'readwrite', store => store.clear());
+  }
+}
+
+export default ReviewCache;
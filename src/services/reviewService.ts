@@ -1,20 +1,100 @@
 import { CodeReview, CodeIssue } from './aiService';
-import GitService from './gitService';
-import AIService from './aiService';
+import GitService, { ChangedFile, DiffTarget, GitError, GitErrorKind, GitRepositorySource } from './gitService';
+import { ReviewSource, ReviewSourceKind } from './reviewSources';
+import AIService, { ReviewCodeOptions } from './aiService';
+import { chunkCode } from './codeChunker';
+import { estimateTokensFromBytes } from './fileSelection';
+import { TokenUsage, addUsage, emptyUsage, formatCost } from './tokenUsage';
+import { IssueStatus, compareIssues } from './issueTracking';
+import TriageService, { IssueTriage, SuppressionMode, applyTriage } from './triageService';
+import { applyDirectives, isSuppressedByDirective, parseDirectives } from './suppressionDirectives';
+import RuleRegistry, { RuleSettings } from './codeRules';
+import { BASELINE_FILE, ReviewBaseline, applyBaseline, baselineCounts, parseBaseline } from './baseline';
 import StandardsService from './standardsService';
 
 export interface ReviewProgress {
   totalFiles: number;
   processedFiles: number;
   currentFile: string;
-  status: 'idle' | 'cloning' | 'analyzing' | 'completed' | 'error';
+  status: 'idle' | 'cloning' | 'analyzing' | 'paused' | 'completed' | 'cancelled' | 'error';
   error?: string;
+  // 仓库访问错误的类型（认证、不存在、限流、网络）
+  errorKind?: GitErrorKind;
+  // 正在审查中的文件
+  inFlightFiles?: string[];
+  // 本次审查累计的 token 用量与费用
+  usage?: TokenUsage;
 }
 
+export interface ReviewOptions {
+  // 设置后进入差异审查模式，只审查变更行（仅 Git 仓库源）
+  diff?: DiffTarget;
+  // 同时审查的文件数，实际请求速率另受各供应商限流约束
+  concurrency?: number;
+  // 外部取消信号；也可调用 cancelReview()
+  signal?: AbortSignal;
+  // 费用上限（美元），累计费用超出后停止审查
+  budget?: number;
+  // 设置后进入增量审查模式：与该次审查对比，只审查 blob SHA 变化的文件（不能与 diff 同时使用）
+  previous?: ReviewResult;
+  // 标记为不修复或误报的问题：隐藏（默认）或降级为 info
+  suppression?: SuppressionMode;
+  // 基线：只报告基线之外的问题；'repository' 表示读取代码来源中的 .ai-review-baseline.json
+  baseline?: ReviewBaseline | 'repository';
+  // 基础检查规则的项目配置（启用、严重程度、阈值）
+  rules?: RuleSettings;
+}
+
+// 增量审查相对基准审查的范围
+export interface IncrementalInfo {
+  baseId: string;
+  baseCommit?: string;
+  reviewedFiles: number;
+  carriedFiles: number;
+  // 基准审查中存在、本次已不在审查范围内的文件，其问题计为已修复
+  removedFiles: string[];
+}
+
+// 审查前的用量与费用预估
+export interface ReviewEstimate {
+  files: number;
+  requests: number;
+  promptTokens: number;
+  // 按经验比例估计的输出 token；maxCompletionTokens 为各请求输出上限之和
+  completionTokens: number;
+  maxCompletionTokens: number;
+  // 美元；模型未配置价格时为 null
+  cost: number | null;
+  maxCost: number | null;
+}
+
+// 预估时假设模型输出约占输出上限的比例
+const EXPECTED_COMPLETION_RATIO = 0.3;
+
+export const DEFAULT_FILE_CONCURRENCY = 4;
+
 export interface ReviewResult {
   id: string;
   repository: string;
   branch: string;
+  sourceKind?: ReviewSourceKind;
+  mode?: 'full' | 'diff' | 'incremental';
+  diff?: { base: string; head: string; pullNumber?: number };
+  // 审查时分支指向的提交（Git 仓库全量 / 增量审查）
+  commit?: string;
+  // 主模型名称
+  model?: string;
+  incremental?: IncrementalInfo;
+  // 本次使用的基线
+  baseline?: { origin: 'file' | 'repository'; createdAt: string; issues: number };
+  // 结果基于演示数据，而非真实仓库代码
+  demo?: boolean;
+  // 审查被取消，reviews 仅包含取消前已完成的文件
+  cancelled?: boolean;
+  // 因超出费用上限而停止
+  budgetExceeded?: boolean;
+  // 整次审查的 token 用量与费用；各文件用量见 reviews[].usage
+  usage?: TokenUsage;
   standards: string;
   reviews: CodeReview[];
   summary: ReviewSummary;
@@ -23,12 +103,44 @@ export interface ReviewResult {
   duration?: number;
 }
 
+// 解析导出的 JSON 报告，日期字段还原为 Date
+export function parseReviewResult(text: string): ReviewResult {
+  const data = JSON.parse(text) as ReviewResult;
+  if (!data || typeof data.repository !== 'string' || !Array.isArray(data.reviews) || !data.summary) {
+    throw new Error('不是有效的审查结果 JSON');
+  }
+  return {
+    ...data,
+    startTime: new Date(data.startTime),
+    endTime: data.endTime ? new Date(data.endTime) : undefined
+  };
+}
+
+// 单次 AI 请求的代码片段；owns 判断问题所在行是否由该片段负责
+interface ReviewPart {
+  code: string;
+  options: ReviewCodeOptions;
+  owns: (line: number) => boolean;
+}
+
 export interface ReviewSummary {
   totalFiles: number;
   totalIssues: number;
   issuesByType: Record<string, number>;
   issuesByCategory: Record<string, number>;
   filesWithIssues: number;
+  // AI 审查失败的文件数（不计入问题数）
+  failedFiles?: number;
+  // AI 结果全部来自响应缓存的文件数
+  cachedFiles?: number;
+  // 增量审查：新增、已修复、仍存在的问题数
+  issueChanges?: Record<IssueStatus, number>;
+  // 因分诊忽略而隐藏的问题数
+  suppressedIssues?: number;
+  // 未抑制任何问题的行内忽略指令数
+  unusedDirectives?: number;
+  // 与基线匹配而不再报告的问题数
+  baselinedIssues?: number;
 }
 
 export class ReviewService {
@@ -42,6 +154,13 @@ export class ReviewService {
   
   private progressCallbacks: Array<(progress: ReviewProgress) => void> = [];
   private logCallbacks: Array<(level: 'info' | 'warning' | 'error', message: string, details?: string) => void> = [];
+  private issueCallbacks: Array<(filePath: string, issue: CodeIssue) => void> = [];
+  private issuesResetCallbacks: Array<(filePath: string, issues: CodeIssue[]) => void> = [];
+  private fileReviewedCallbacks: Array<(review: CodeReview) => void> = [];
+  private abortController: AbortController | null = null;
+  // 暂停时为未决的 Promise，继续时 resolve
+  private pauseGate: Promise<void> | null = null;
+  private releasePause: (() => void) | null = null;
 
   public static getInstance(): ReviewService {
     if (!ReviewService.instance) {
@@ -59,42 +178,205 @@ export class ReviewService {
     this.logCallbacks.push(callback);
   }
 
+  // 注册实时问题回调：文件审查过程中每得到一个问题即回调（流式输出时逐条到达）
+  onIssue(callback: (filePath: string, issue: CodeIssue) => void): void {
+    this.issueCallbacks.push(callback);
+  }
+
+  // 注册实时问题重置回调：AI 请求重试或切换模型时，该文件的实时问题替换为 issues
+  onIssuesReset(callback: (filePath: string, issues: CodeIssue[]) => void): void {
+    this.issuesResetCallbacks.push(callback);
+  }
+
+  // 注册单个文件审查完成回调，review 为该文件的最终结果
+  onFileReviewed(callback: (review: CodeReview) => void): void {
+    this.fileReviewedCallbacks.push(callback);
+  }
+
   // 更新进度
   private updateProgress(updates: Partial<ReviewProgress>): void {
     this.progress = { ...this.progress, ...updates };
     this.progressCallbacks.forEach(callback => callback(this.progress));
   }
 
+  private emitIssue(filePath: string, issue: CodeIssue): void {
+    this.issueCallbacks.forEach(cb => cb(filePath, issue));
+  }
+
+  private emitIssuesReset(filePath: string, issues: CodeIssue[]): void {
+    this.issuesResetCallbacks.forEach(cb => cb(filePath, issues));
+  }
+
   private emitLog(level: 'info' | 'warning' | 'error', message: string, details?: string): void {
     this.logCallbacks.forEach(cb => cb(level, message, details));
   }
 
+  // 取消正在进行的审查；已完成的文件仍会作为部分结果返回
+  cancelReview(): void {
+    if (!this.abortController || this.abortController.signal.aborted) return;
+    this.abortController.abort();
+    this.emitLog('warning', '审查已取消', '正在结束进行中的请求');
+    this.resumeReview();
+  }
+
+  // 暂停审查：进行中的文件继续完成，不再开始新的文件或分段
+  pauseReview(): void {
+    if (this.pauseGate || this.progress.status !== 'analyzing') return;
+    this.pauseGate = new Promise(resolve => { this.releasePause = resolve; });
+    this.updateProgress({ status: 'paused' });
+    this.emitLog('info', '审查已暂停', `进行中 ${this.progress.inFlightFiles?.length ?? 0} 个文件`);
+  }
+
+  resumeReview(): void {
+    if (!this.pauseGate) return;
+    this.releasePause?.();
+    this.pauseGate = null;
+    this.releasePause = null;
+    if (this.progress.status === 'paused' && !this.abortController?.signal.aborted) {
+      this.updateProgress({ status: 'analyzing' });
+      this.emitLog('info', '审查已继续');
+    }
+  }
+
+  private async waitWhilePaused(signal: AbortSignal): Promise<void> {
+    while (this.pauseGate && !signal.aborted) {
+      await this.pauseGate;
+    }
+  }
+
   // 执行代码审查
   async executeReview(
-    repositoryUrl: string,
-    branch: string,
-    standardsContent: string
+    source: ReviewSource,
+    standardsContent: string,
+    options: ReviewOptions = {}
   ): Promise<ReviewResult> {
     const startTime = new Date();
+    let diffInfo: ReviewResult['diff'];
+    let results: Array<CodeReview | undefined> = [];
+    let runUsage = emptyUsage();
+    let budgetExceeded = false;
+    let commit: string | undefined;
+    const previous = options.previous;
+    const previousByFile = new Map((previous?.reviews || []).map(review => [review.file, review] as const));
+    let carried: CodeReview[] = [];
+    let removed: CodeReview[] = [];
+    let triages = new Map<string, IssueTriage>();
+    let baseline: ReviewBaseline | null = null;
+    let baselineRemaining = new Map<string, number>();
+    const suppression = options.suppression ?? 'hide';
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+    const abortFromOptions = () => controller.abort();
+    this.abortController = controller;
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', abortFromOptions, { once: true });
+
+    const buildResult = (cancelled: boolean): ReviewResult => {
+      const reviewed = results.filter((review): review is CodeReview => !!review);
+      const reviews = previous
+        ? [...carried, ...reviewed].sort((a, b) => a.file.localeCompare(b.file))
+        : reviewed;
+      const summary = this.generateSummary(reviews);
+      if (previous) {
+        summary.issueChanges = this.countIssueChanges(reviews, removed);
+      }
+      const endTime = new Date();
+      return {
+        id: Date.now().toString(),
+        repository: source.label,
+        branch: source.ref,
+        sourceKind: source.kind,
+        mode: options.diff ? 'diff' : previous ? 'incremental' : 'full',
+        diff: diffInfo,
+        commit,
+        model: AIService.getInstance().getCurrentModel()?.name,
+        baseline: baseline ? {
+          origin: options.baseline === 'repository' ? 'repository' : 'file',
+          createdAt: baseline.createdAt,
+          issues: baseline.issues.length
+        } : undefined,
+        incremental: previous ? {
+          baseId: previous.id,
+          baseCommit: previous.commit,
+          reviewedFiles: reviewed.length,
+          carriedFiles: carried.length,
+          removedFiles: removed.map(review => review.file)
+        } : undefined,
+        demo: source.kind === 'demo' || undefined,
+        cancelled: cancelled || undefined,
+        budgetExceeded: budgetExceeded || undefined,
+        usage: runUsage,
+        standards: standardsContent,
+        reviews: reviews,
+        summary,
+        startTime: startTime,
+        endTime: endTime,
+        duration: endTime.getTime() - startTime.getTime()
+      };
+    };
     
     try {
+      if (previous && options.diff) {
+        throw new Error('增量审查不能与差异审查同时使用');
+      }
+      const unpriced = options.budget !== undefined ? AIService.getInstance().getUnpricedModels() : [];
+      if (unpriced.length > 0) {
+        throw new Error(`模型 ${unpriced.map(model => model.name).join('、')} 未配置价格，无法按费用上限停止审查`);
+      }
+      const gitService = GitService.getInstance();
+      if (previous && gitService.getRepositoryKey(previous.repository) !== gitService.getRepositoryKey(source.label)) {
+        throw new Error(`基准审查结果来自其他代码来源：${previous.repository}`);
+      }
+
       this.updateProgress({ 
         status: 'cloning', 
         totalFiles: 0, 
         processedFiles: 0,
-        currentFile: '正在获取仓库代码...'
+        currentFile: options.diff ? '正在获取变更内容...' : `正在读取代码: ${source.label}`,
+        error: undefined,
+        errorKind: undefined,
+        inFlightFiles: [],
+        usage: runUsage
       });
 
-      // 1. 获取仓库代码
-      const gitService = GitService.getInstance();
-      const cloneResult = await gitService.cloneRepository(repositoryUrl, branch, './temp_repo');
-      this.emitLog('info', '代码获取', cloneResult);
+      // 1. 获取代码（差异模式只获取变更文件）
+      if (options.diff) {
+        if (!(source instanceof GitRepositorySource)) {
+          throw new Error('差异审查仅支持Git仓库');
+        }
+        const diff = await gitService.loadDiff(source.url, options.diff, signal);
+        diffInfo = { base: diff.base, head: diff.head, pullNumber: diff.pullNumber };
+        this.emitLog('info', '差异获取', `${diff.base}...${diff.head} · 变更 ${diff.files.length} 个文件`);
+      } else {
+        if (source instanceof GitRepositorySource) {
+          commit = await this.resolveCommit(gitService, source, signal);
+        }
+        if (previous) {
+          this.emitLog('info', '增量审查', `基准 ${previous.commit || previous.id} -> 当前 ${commit || source.ref}`);
+        }
+        const loadResult = await gitService.loadSource(source, signal, this.getKnownShas(previous));
+        this.emitLog(source.kind === 'demo' ? 'warning' : 'info', source.kind === 'demo' ? '演示模式' : '代码获取', loadResult);
+      }
 
       // 2. 获取代码文件列表
       this.updateProgress({ currentFile: '正在扫描代码文件...' });
       const codeFiles = await gitService.getCodeFiles('./temp_repo');
+      triages = await this.loadTriages(source.label);
+      baseline = await this.resolveBaseline(gitService, source, options.baseline, diffInfo, signal);
+      baselineRemaining = baseline ? baselineCounts(baseline) : new Map();
+      // 分诊与基线过滤，新审查与沿用的结果都要经过
+      const finalize = (review: CodeReview) => applyBaseline(applyTriage(review, triages, suppression), baselineRemaining).review;
+      if (previous) {
+        const unchanged = gitService.getUnchangedFiles();
+        carried = unchanged.map(filePath => finalize(this.carryForward(previousByFile.get(filePath))));
+        const present = new Set([...codeFiles, ...unchanged]);
+        removed = previous.reviews.filter(review => !present.has(review.file));
+        this.emitLog('info', '增量范围', `变化 ${codeFiles.length} 个，沿用 ${carried.length} 个，移除 ${removed.length} 个`);
+        carried.forEach(review => this.fileReviewedCallbacks.forEach(cb => cb(review)));
+      }
       
-      if (codeFiles.length === 0) {
+      if (codeFiles.length === 0 && carried.length === 0) {
         throw new Error('未找到代码文件');
       }
       
@@ -104,227 +386,485 @@ export class ReviewService {
       // 3. 分析代码文件
       this.updateProgress({ status: 'analyzing' });
       const aiService = AIService.getInstance();
-      const reviews: CodeReview[] = [];
+      results = new Array(codeFiles.length);
+      const inFlight = new Set<string>();
+      let processed = 0;
+      let nextIndex = 0;
 
-      for (let i = 0; i < codeFiles.length; i++) {
-        const filePath = codeFiles[i];
+      const reportInFlight = () => {
+        const files = Array.from(inFlight);
         this.updateProgress({
-          currentFile: filePath,
-          processedFiles: i
+          inFlightFiles: files,
+          currentFile: files.length > 1 ? `${files[0]} 等 ${files.length} 个文件` : (files[0] || ''),
+          processedFiles: processed
         });
+      };
 
+      // 累计每个请求的用量，超出费用上限时中止（进行中的请求一并取消）
+      const recordUsage = (usage: TokenUsage) => {
+        runUsage = addUsage(runUsage, usage);
+        this.updateProgress({ usage: runUsage });
+        if (options.budget !== undefined && !budgetExceeded && runUsage.cost > options.budget) {
+          budgetExceeded = true;
+          this.emitLog('error', '超出费用上限', `已花费 ${formatCost(runUsage.cost)}，上限 ${formatCost(options.budget)}，停止审查`);
+          controller.abort();
+        }
+      };
+
+      const reviewOne = async (filePath: string): Promise<CodeReview | undefined> => {
         try {
           const content = await gitService.readFileContent(filePath);
           if (!content.trim()) {
             this.emitLog('warning', '空文件跳过', filePath);
-            continue; // 跳过空文件
+            return undefined; // 跳过空文件
           }
           
           const language = this.detectLanguage(filePath);
           this.emitLog('info', '语言检测', `${filePath} -> ${language}`);
           
           // 分析文件
-          const review = await this.analyzeFile(aiService, filePath, content, language, standardsContent);
-          reviews.push(review);
+          const changed = gitService.getChangedFile(filePath);
+          const review = await this.analyzeFile(aiService, filePath, content, language, standardsContent, options.rules, changed, signal, recordUsage);
+          review.sha = gitService.getFileSha(filePath);
           this.emitLog('info', '分析完成', `${filePath} -> 问题 ${review.issues.length}`);
-          
-          // 避免API调用过于频繁
-          await new Promise(resolve => setTimeout(resolve, 500));
+          const marked = previous ? this.markIssueChanges(review, previousByFile.get(filePath)) : review;
+          return finalize(marked);
           
         } catch (error) {
+          // 取消时未完成的文件不计入结果
+          if (signal.aborted) return undefined;
           console.error(`审查文件失败: ${filePath}`, error);
           this.emitLog('error', '文件审查失败', `${filePath} - ${error instanceof Error ? error.message : '未知错误'}`);
-          reviews.push({
+          return {
             file: filePath,
             issues: [],
-            summary: `审查失败: ${error instanceof Error ? error.message : '未知错误'}`
-          });
+            summary: `审查失败: ${error instanceof Error ? error.message : '未知错误'}`,
+            status: 'failed',
+            error: error instanceof Error ? error.message : '未知错误'
+          };
         }
-      }
+      };
 
-      // 4. 生成总结
-      const summary = this.generateSummary(reviews);
-      const endTime = new Date();
-      const duration = endTime.getTime() - startTime.getTime();
+      // 固定数量的 worker 依次领取文件，结果按原文件顺序保存
+      const worker = async () => {
+        for (;;) {
+          await this.waitWhilePaused(signal);
+          if (signal.aborted || nextIndex >= codeFiles.length) break;
+          const index = nextIndex++;
+          const filePath = codeFiles[index];
+          inFlight.add(filePath);
+          reportInFlight();
+          results[index] = await reviewOne(filePath);
+          const review = results[index];
+          if (review) this.fileReviewedCallbacks.forEach(cb => cb(review));
+          inFlight.delete(filePath);
+          processed++;
+          reportInFlight();
+        }
+      };
 
-      this.emitLog('info', '审查完成', `分析 ${summary.totalFiles} 文件，发现 ${summary.totalIssues} 问题`);
+      const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_FILE_CONCURRENCY, codeFiles.length));
+      this.emitLog('info', '并发审查', `${concurrency} 个文件同时进行`);
+      await Promise.all(Array.from({ length: concurrency }, () => worker()));
+      if (signal.aborted) {
+        return this.finishCancelled(buildResult(true));
+      }
 
-      const result: ReviewResult = {
-        id: Date.now().toString(),
-        repository: repositoryUrl,
-        branch: branch,
-        standards: standardsContent,
-        reviews: reviews,
-        summary: summary,
-        startTime: startTime,
-        endTime: endTime,
-        duration: duration
-      };
+      // 4. 生成总结
+      const result = buildResult(false);
+      this.emitLog('info', '审查完成', `分析 ${result.summary.totalFiles} 文件，发现 ${result.summary.totalIssues} 问题`);
 
       this.updateProgress({ 
         status: 'completed',
-        currentFile: '审查完成'
+        currentFile: '审查完成',
+        processedFiles: codeFiles.length,
+        inFlightFiles: []
       });
 
       return result;
 
     } catch (error) {
+      if (signal.aborted) {
+        return this.finishCancelled(buildResult(true));
+      }
       const errorMessage = error instanceof Error ? error.message : '审查过程出错';
       this.updateProgress({ 
         status: 'error',
-        error: errorMessage
+        error: errorMessage,
+        errorKind: error instanceof GitError ? error.kind : undefined,
+        inFlightFiles: []
       });
       this.emitLog('error', '审查过程出错', errorMessage);
       throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', abortFromOptions);
+      if (this.abortController === controller) this.abortController = null;
+      this.resumeReview();
+    }
+  }
+
+  // 分诊记录不可用时照常审查，只是不再自动忽略
+  private async loadTriages(repository: string): Promise<Map<string, IssueTriage>> {
+    try {
+      const triages = await TriageService.getInstance().getForRepository(repository);
+      if (triages.size > 0) this.emitLog('info', '分诊记录', `${triages.size} 条`);
+      return triages;
+    } catch (error) {
+      this.emitLog('warning', '分诊记录不可用', error instanceof Error ? error.message : '未知错误');
+      return new Map();
     }
   }
 
+  // 读取基线；仓库基线文件缺失或格式错误时不使用基线，照常审查
+  private async resolveBaseline(
+    gitService: GitService,
+    source: ReviewSource,
+    option: ReviewOptions['baseline'],
+    diff: ReviewResult['diff'],
+    signal: AbortSignal
+  ): Promise<ReviewBaseline | null> {
+    if (!option) return null;
+    if (option !== 'repository') {
+      this.emitLog('info', '使用基线', `导入的基线 · ${option.issues.length} 个问题`);
+      return option;
+    }
+    // 差异模式的 ref 可能是 "PR #n"，基线从 head 提交读取
+    const target = diff && source instanceof GitRepositorySource ? new GitRepositorySource(source.url, diff.head) : source;
+    try {
+      const content = await gitService.readSourceFile(target, BASELINE_FILE, signal);
+      if (!content.trim()) {
+        this.emitLog('warning', '未找到基线文件', BASELINE_FILE);
+        return null;
+      }
+      const baseline = parseBaseline(content);
+      this.emitLog('info', '使用基线', `${BASELINE_FILE} · ${baseline.issues.length} 个问题`);
+      return baseline;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      this.emitLog('warning', '基线文件不可用', error instanceof Error ? error.message : '未知错误');
+      return null;
+    }
+  }
+
+  // 分支当前提交仅用于记录，获取失败不影响审查
+  private async resolveCommit(gitService: GitService, source: GitRepositorySource, signal: AbortSignal): Promise<string | undefined> {
+    try {
+      return await gitService.getBranchCommit(source.url, source.ref, signal);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      this.emitLog('warning', '获取提交失败', error instanceof Error ? error.message : '未知错误');
+      return undefined;
+    }
+  }
+
+  // 增量模式跳过 blob SHA 未变化的文件；上次审查失败的文件需重新审查
+  private getKnownShas(previous?: ReviewResult): Map<string, string> | undefined {
+    if (!previous) return undefined;
+    return new Map(previous.reviews
+      .filter(review => review.sha && review.status !== 'failed')
+      .map(review => [review.file, review.sha] as const));
+  }
+
+  // 未变化的文件沿用基准审查的结果，问题均视为仍存在
+  private carryForward(review: CodeReview): CodeReview {
+    return {
+      ...review,
+      issues: review.issues.map(issue => ({ ...issue, status: 'persisting' as const })),
+      fixedIssues: undefined,
+      carriedForward: true,
+      cached: undefined,
+      usage: undefined
+    };
+  }
+
+  // 与基准审查中同一文件的问题对比；AI 审查失败时无法判断哪些问题已修复
+  private markIssueChanges(review: CodeReview, before: CodeReview | undefined): CodeReview {
+    const { issues, fixed } = compareIssues(review.file, before?.issues || [], review.issues);
+    return {
+      ...review,
+      issues,
+      fixedIssues: review.status !== 'failed' && fixed.length > 0 ? fixed : undefined
+    };
+  }
+
+  private countIssueChanges(reviews: CodeReview[], removed: CodeReview[]): Record<IssueStatus, number> {
+    const counts: Record<IssueStatus, number> = { new: 0, fixed: 0, persisting: 0 };
+    reviews.forEach(review => {
+      review.issues.forEach(issue => { if (issue.status) counts[issue.status]++; });
+      counts.fixed += review.fixedIssues?.length || 0;
+    });
+    removed.forEach(review => { counts.fixed += review.issues.length; });
+    return counts;
+  }
+
+  private finishCancelled(result: ReviewResult): ReviewResult {
+    const reason = result.budgetExceeded ? '超出费用上限，审查已停止' : '审查已取消';
+    this.updateProgress({
+      status: 'cancelled',
+      currentFile: reason,
+      inFlightFiles: []
+    });
+    this.emitLog('warning', reason, `已完成 ${result.summary.totalFiles} 个文件，发现 ${result.summary.totalIssues} 问题`);
+    return result;
+  }
+
+  // 文件选择预览时只知道文件大小：按实际审查相同的规范截断与分段数预估输入 token，每段都会重发规范与提示词
+  estimatePromptTokens(fileSizes: number[], standardsContent: string): number {
+    const aiService = AIService.getInstance();
+    const budget = aiService.getCodeBudget(standardsContent);
+    const perRequest = aiService.estimateRequest('', '', 'text', standardsContent).promptTokens;
+    return fileSizes.reduce((total, size) => {
+      const parts = Math.max(1, Math.ceil(size / budget));
+      return total + estimateTokensFromBytes(size) + parts * perRequest;
+    }, 0);
+  }
+
+  // 审查前预估：读取代码并按实际的分段方式构建提示词，估算 token 与费用
+  async estimateReview(
+    source: ReviewSource,
+    standardsContent: string,
+    options: Pick<ReviewOptions, 'diff' | 'signal' | 'previous'> = {}
+  ): Promise<ReviewEstimate> {
+    const gitService = GitService.getInstance();
+    if (options.diff) {
+      if (!(source instanceof GitRepositorySource)) {
+        throw new Error('差异审查仅支持Git仓库');
+      }
+      await gitService.loadDiff(source.url, options.diff, options.signal);
+    } else {
+      await gitService.loadSource(source, options.signal, this.getKnownShas(options.previous));
+    }
+
+    const aiService = AIService.getInstance();
+    const budget = aiService.getCodeBudget(standardsContent);
+    const estimate: ReviewEstimate = {
+      files: 0,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      maxCompletionTokens: 0,
+      cost: null,
+      maxCost: null
+    };
+    for (const filePath of await gitService.getCodeFiles('./temp_repo')) {
+      options.signal?.throwIfAborted();
+      const content = await gitService.readFileContent(filePath);
+      if (!content.trim()) continue;
+      const language = this.detectLanguage(filePath);
+      const changed = gitService.getChangedFile(filePath);
+      const changedLineSet = changed?.changedLines ? new Set(changed.changedLines) : null;
+      const excerpt = changedLineSet ? this.buildDiffExcerpt(content, changedLineSet) : null;
+      if (excerpt !== null && !excerpt.trim()) continue;
+
+      estimate.files++;
+      this.splitForReview(content, language, excerpt, changedLineSet, budget).forEach(part => {
+        const request = aiService.estimateRequest(filePath, part.code, language, standardsContent, part.options);
+        estimate.requests++;
+        estimate.promptTokens += request.promptTokens;
+        estimate.maxCompletionTokens += request.maxCompletionTokens;
+      });
+    }
+    estimate.completionTokens = Math.round(estimate.maxCompletionTokens * EXPECTED_COMPLETION_RATIO);
+    estimate.cost = aiService.estimateCost(estimate.promptTokens, estimate.completionTokens);
+    estimate.maxCost = aiService.estimateCost(estimate.promptTokens, estimate.maxCompletionTokens);
+    return estimate;
+  }
+
   // 分析单个文件
   private async analyzeFile(
     aiService: AIService,
     filePath: string,
     content: string,
     language: string,
-    standardsContent: string
+    standardsContent: string,
+    rules: RuleSettings | undefined,
+    changed?: ChangedFile,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
   ): Promise<CodeReview> {
+    // 差异模式下只保留变更行上的问题；changedLines 为 null 表示整文件视为变更
+    const changedLineSet = changed?.changedLines ? new Set(changed.changedLines) : null;
+    const inChangedLines = (issue: CodeIssue) => !changedLineSet || changedLineSet.has(issue.line);
+    // 源码中的 ai-review-disable 指令
+    const directives = parseDirectives(content, language);
+    const notSuppressed = (issue: CodeIssue) => !isSuppressedByDirective(directives, issue);
+
     try {
-      // 文件大小检查
-      if (content.length > 50000) {
-        this.emitLog('warning', '文件过大跳过', `${filePath} (${(content.length / 1024).toFixed(1)}KB)`);
+      // 基础代码检查
+      const basicFound = (await RuleRegistry.getInstance().run(filePath, content, language, rules)).filter(inChangedLines);
+      const basicIssues = basicFound.filter(notSuppressed);
+      this.emitLog('info', '基础检查', `${filePath} -> ${basicIssues.length} 问题`);
+      basicIssues.forEach(issue => this.emitIssue(filePath, issue));
+      // 已推送的实时问题，重试时据此恢复到当前分段开始前的状态
+      const liveIssues = [...basicIssues];
+      
+      // AI深度分析（差异模式只发送变更片段及上下文）
+      const excerpt = changedLineSet ? this.buildDiffExcerpt(content, changedLineSet) : null;
+      if (excerpt !== null && !excerpt.trim()) {
+        this.emitLog('info', '无新增代码行', filePath);
+        return { file: filePath, issues: basicIssues, summary: `发现${basicIssues.length}个问题` };
+      }
+      const parts = this.splitForReview(content, language, excerpt, changedLineSet, aiService.getCodeBudget(standardsContent));
+      if (parts.length > 1) {
+        this.emitLog('info', '分段审查', `${filePath} -> ${parts.length} 段`);
+      }
+
+      const reported: CodeIssue[] = [];
+      const failures: string[] = [];
+      const models = new Set<string>();
+      let cachedParts = 0;
+      let usage: TokenUsage | undefined;
+      for (const part of parts) {
+        if (signal) {
+          await this.waitWhilePaused(signal);
+          signal.throwIfAborted();
+        }
+        const partStart = liveIssues.length;
+        const aiReview = await aiService.reviewCode(filePath, part.code, language, standardsContent, (phase, info) => {
+          this.emitLog('info', phase, info);
+        }, {
+          ...part.options,
+          signal,
+          onUsage,
+          onIssue: (issue) => {
+            if (!part.owns(issue.line) || !inChangedLines(issue) || !notSuppressed(issue)) return;
+            liveIssues.push(issue);
+            this.emitIssue(filePath, issue);
+            this.emitLog('info', '实时问题', `${filePath}:${issue.line} ${issue.message}`);
+          },
+          onReset: () => {
+            if (liveIssues.length === partStart) return;
+            liveIssues.length = partStart;
+            this.emitIssuesReset(filePath, [...liveIssues]);
+          }
+        });
+        usage = addUsage(usage ?? emptyUsage(), aiReview.usage);
+        if (aiReview.status === 'failed') {
+          failures.push(parts.length > 1 ? `第 ${parts.indexOf(part) + 1} 段：${aiReview.error}` : aiReview.error || '未知错误');
+          continue;
+        }
+        if (aiReview.model) models.add(aiReview.model);
+        if (aiReview.cached) cachedParts++;
+        reported.push(...aiReview.issues.filter(issue => part.owns(issue.line)));
+      }
+      const aiIssues = reported.filter(inChangedLines).sort((a, b) => a.line - b.line);
+      if (aiIssues.length < reported.length) {
+        this.emitLog('info', '过滤变更外问题', `${filePath} -> ${reported.length - aiIssues.length} 个`);
+      }
+      
+      // 合并基础检查和AI分析结果，去掉被行内指令忽略的问题
+      const { kept: allIssues, suppressed, unused } = applyDirectives([...basicFound, ...aiIssues], directives);
+      if (suppressed > 0) {
+        this.emitLog('info', '行内指令忽略', `${filePath} -> ${suppressed} 个`);
+      }
+      const model = models.size > 0 ? Array.from(models).join(', ') : undefined;
+      if (failures.length > 0) {
+        this.emitLog('error', 'AI分析失败', `${filePath} - ${failures.join('；')}`);
         return {
           file: filePath,
-          issues: [],
-          summary: '文件过大，跳过分析'
+          issues: allIssues,
+          summary: `AI分析失败，发现${allIssues.length}个问题（不完整）`,
+          status: 'failed',
+          error: failures.join('；'),
+          model,
+          usage
         };
       }
 
-      // 基础代码检查
-      const basicIssues = this.performBasicCodeCheck(filePath, content, language);
-      this.emitLog('info', '基础检查', `${filePath} -> ${basicIssues.length} 问题`);
-      
-      // AI深度分析
-      const aiReview = await aiService.reviewCode(filePath, content, language, standardsContent, (phase, info) => {
-        this.emitLog('info', phase, info);
-      });
-      
-      // 合并基础检查和AI分析结果
-      const allIssues = [...basicIssues, ...aiReview.issues];
+      // 差异模式只报告本次新增的指令
+      const unusedDirectives = unused
+        .filter(directive => !changedLineSet || changedLineSet.has(directive.line))
+        .map(({ line, text }) => ({ line, text }));
+      if (unusedDirectives.length > 0) {
+        this.emitLog('warning', '未使用的忽略指令', `${filePath}: ${unusedDirectives.map(directive => `第 ${directive.line} 行`).join('、')}`);
+      }
       
       return {
         file: filePath,
         issues: allIssues,
-        summary: `发现${allIssues.length}个问题`
+        summary: `发现${allIssues.length}个问题`,
+        status: 'completed',
+        model,
+        usage,
+        cached: cachedParts === parts.length,
+        unusedDirectives: unusedDirectives.length > 0 ? unusedDirectives : undefined
       };
       
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error(`AI分析失败: ${filePath}`, error);
       
       // 如果AI分析失败，至少返回基础检查结果
-      const basicIssues = this.performBasicCodeCheck(filePath, content, language);
+      const basicIssues = (await RuleRegistry.getInstance().run(filePath, content, language, rules)).filter(inChangedLines).filter(notSuppressed);
       this.emitLog('error', 'AI分析失败', filePath);
       return {
         file: filePath,
         issues: basicIssues,
-        summary: `基础检查完成，发现${basicIssues.length}个问题 (AI分析失败)`
+        summary: `基础检查完成，发现${basicIssues.length}个问题 (AI分析失败)`,
+        status: 'failed',
+        error: error instanceof Error ? error.message : '未知错误'
       };
     }
   }
 
-  // 基础代码检查
-  private performBasicCodeCheck(filePath: string, content: string, language: string): CodeIssue[] {
-    const issues: CodeIssue[] = [];
-    const lines = content.split('\n');
-
-    // 检查空行和格式问题
-    lines.forEach((line, index) => {
-      // 检查行尾空格
-      if (line.endsWith(' ') || line.endsWith('\t')) {
-        issues.push({
-          line: index + 1,
-          type: 'style',
-          category: 'maintainability',
-          message: '行尾存在多余空格或制表符',
-          suggestion: '删除行尾的空格和制表符',
-          code: line,
-          context: this.getContextLines(lines, index)
-        });
-      }
-
-      // 检查过长的行
-      if (line.length > 120) {
-        issues.push({
-          line: index + 1,
-          type: 'warning',
-          category: 'readability',
-          message: '代码行过长，建议不超过120个字符',
-          suggestion: '将长行拆分为多行，提高可读性',
-          code: line,
-          context: this.getContextLines(lines, index)
-        });
-      }
-
-      // 检查TODO注释
-      if (line.toLowerCase().includes('todo') || line.toLowerCase().includes('fixme')) {
-        issues.push({
-          line: index + 1,
-          type: 'info',
-          category: 'maintainability',
-          message: '存在TODO/FIXME注释',
-          suggestion: '及时处理TODO事项或创建任务跟踪',
-          code: line,
-          context: this.getContextLines(lines, index)
-        });
-      }
-
-      // 检查console语句（生产代码）
-      if (line.toLowerCase().includes('console.') && !line.includes('//')) {
-        issues.push({
-          line: index + 1,
-          type: 'warning',
-          category: 'best-practices',
-          message: '代码中包含console语句',
-          suggestion: '生产代码中应移除调试用的console语句',
-          code: line,
-          context: this.getContextLines(lines, index)
-        });
-      }
-    });
-
-    // 检查文件末尾空行
-    if (content.length > 0 && !content.endsWith('\n')) {
-      issues.push({
-        line: lines.length,
-        type: 'style',
-        category: 'maintainability',
-        message: '文件末尾缺少空行',
-        suggestion: '在文件末尾添加一个空行',
-        code: lines[lines.length - 1],
-        context: lines.slice(-2)
-      });
+  // 将待审查代码拆分为不超过预算的若干请求；大文件按函数/类边界分段，问题只归属各段自身负责的行
+  private splitForReview(
+    content: string,
+    language: string,
+    excerpt: string | null,
+    changedLines: Set<number> | null,
+    budget: number
+  ): ReviewPart[] {
+    const code = excerpt ?? content;
+    if (code.length <= budget) {
+      return [{ code, options: { excerpt: excerpt !== null }, owns: () => true }];
     }
 
-    // 检查函数复杂度（简单的圈复杂度检查）
-    const functionMatches = content.match(/function\s+\w+|const\s+\w+\s*=\s*\([^)]*\)\s*=>|class\s+\w+/g);
-    if (functionMatches && functionMatches.length > 10) {
-      issues.push({
-        line: 1,
-        type: 'warning',
-        category: 'maintainability',
-        message: '文件中定义了过多的函数/类',
-        suggestion: '考虑将代码拆分到多个文件中，每个文件专注一个功能',
-        code: lines[0],
-        context: lines.slice(0, 3)
-      });
+    const chunks = chunkCode(content, language, { maxChars: budget });
+    if (!changedLines) {
+      return chunks.map((chunk, index) => ({
+        code: chunk.content,
+        options: {
+          chunk: { index, total: chunks.length, startLine: chunk.startLine, ownStartLine: chunk.ownStartLine, endLine: chunk.endLine }
+        },
+        owns: (line: number) => line >= chunk.ownStartLine && line <= chunk.endLine
+      }));
     }
 
-    return issues;
+    // 差异模式：按分段归组变更行，每组单独生成差异片段
+    const parts: ReviewPart[] = [];
+    chunks.forEach(chunk => {
+      const lines = new Set(Array.from(changedLines).filter(line => line >= chunk.ownStartLine && line <= chunk.endLine));
+      if (lines.size === 0) return;
+      parts.push({
+        code: this.buildDiffExcerpt(content, lines),
+        options: { excerpt: true },
+        owns: (line: number) => lines.has(line)
+      });
+    });
+    return parts;
   }
 
-  // 获取上下文行
-  private getContextLines(lines: string[], lineIndex: number, contextSize: number = 2): string[] {
-    const start = Math.max(0, lineIndex - contextSize);
-    const end = Math.min(lines.length, lineIndex + contextSize + 1);
-    return lines.slice(start, end);
+  // 构建差异片段：变更行及前后若干行上下文，带原文件行号，不连续处以 ... 分隔
+  private buildDiffExcerpt(content: string, changedLines: Set<number>, contextSize: number = 10): string {
+    const lines = content.split('\n');
+    const keep = new Set<number>();
+    changedLines.forEach(line => {
+      const start = Math.max(1, line - contextSize);
+      const end = Math.min(lines.length, line + contextSize);
+      for (let n = start; n <= end; n++) keep.add(n);
+    });
+
+    const width = String(lines.length).length;
+    const output: string[] = [];
+    let prev = 0;
+    Array.from(keep).sort((a, b) => a - b).forEach(n => {
+      if (prev && n > prev + 1) output.push('...');
+      const marker = changedLines.has(n) ? '+' : ' ';
+      output.push(`${String(n).padStart(width)} |${marker} ${lines[n - 1]}`);
+      prev = n;
+    });
+    return output.join('\n');
   }
 
   // 检测编程语言
@@ -354,16 +894,26 @@ export class ReviewService {
   }
 
   // 生成审查总结
-  private generateSummary(reviews: CodeReview[]): ReviewSummary {
+  generateSummary(reviews: CodeReview[]): ReviewSummary {
     const summary: ReviewSummary = {
       totalFiles: reviews.length,
       totalIssues: 0,
       issuesByType: {},
       issuesByCategory: {},
-      filesWithIssues: 0
+      filesWithIssues: 0,
+      failedFiles: 0,
+      cachedFiles: 0,
+      suppressedIssues: 0,
+      unusedDirectives: 0,
+      baselinedIssues: 0
     };
 
     reviews.forEach(review => {
+      if (review.status === 'failed') summary.failedFiles++;
+      if (review.cached) summary.cachedFiles++;
+      summary.suppressedIssues += review.suppressedIssues?.length || 0;
+      summary.unusedDirectives += review.unusedDirectives?.length || 0;
+      summary.baselinedIssues += review.baselinedIssues || 0;
       if (review.issues.length > 0) {
         summary.filesWithIssues++;
         summary.totalIssues += review.issues.length;
@@ -0,0 +1,253 @@
+import type { TreeEntry } from './gitProviders';
+
+export type ReviewSourceKind = 'git' | 'local' | 'archive' | 'demo';
+
+// 审查源中的单个文件，内容按需读取
+export interface SourceFile extends TreeEntry {
+  read(signal?: AbortSignal): Promise<string>;
+}
+
+// 审查源：Git 仓库、本地目录、压缩包或演示数据
+export interface ReviewSource {
+  readonly kind: ReviewSourceKind;
+  // 展示名称，写入 ReviewResult.repository
+  readonly label: string;
+  // 分支或版本，写入 ReviewResult.branch
+  readonly ref: string;
+  listFiles(signal?: AbortSignal): Promise<SourceFile[]>;
+}
+
+// 浏览器本地目录遍历时始终跳过的目录
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+// 去掉所有路径共同的顶层目录（如压缩包中的 repo-main/）
+function stripCommonRoot<T extends { path: string }>(files: T[]): T[] {
+  if (files.length === 0) return files;
+  const first = files[0].path.split('/')[0];
+  const shared = files.every(f => f.path.includes('/') && f.path.split('/')[0] === first);
+  return shared ? files.map(f => ({ ...f, path: f.path.slice(first.length + 1) })) : files;
+}
+
+// showDirectoryPicker 返回的目录句柄（TS DOM 类型未包含异步迭代）
+interface DirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<DirectoryHandle | FileHandle>;
+}
+
+interface FileHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+}
+
+// 本地目录（File System Access API）
+export class DirectoryHandleSource implements ReviewSource {
+  readonly kind = 'local' as const;
+  readonly ref = 'local';
+  readonly label: string;
+
+  constructor(private handle: DirectoryHandle) {
+    this.label = `本地目录: ${handle.name}`;
+  }
+
+  // 浏览器是否支持目录选择器
+  static isSupported(): boolean {
+    return typeof (window as unknown as { showDirectoryPicker?: unknown }).showDirectoryPicker === 'function';
+  }
+
+  static async pick(): Promise<DirectoryHandleSource> {
+    const picker = (window as unknown as { showDirectoryPicker: () => Promise<DirectoryHandle> }).showDirectoryPicker;
+    return new DirectoryHandleSource(await picker());
+  }
+
+  async listFiles(): Promise<SourceFile[]> {
+    const files: SourceFile[] = [];
+    await this.walk(this.handle, '', files);
+    return files;
+  }
+
+  private async walk(dir: DirectoryHandle, prefix: string, files: SourceFile[]): Promise<void> {
+    for await (const entry of dir.values()) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.kind === 'directory') {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await this.walk(entry, path, files);
+        continue;
+      }
+      const file = await entry.getFile();
+      files.push({ path, size: file.size, read: () => file.text() });
+    }
+  }
+}
+
+// 本地目录（<input webkitdirectory> 选择的文件列表）
+export class FileListSource implements ReviewSource {
+  readonly kind = 'local' as const;
+  readonly ref = 'local';
+  readonly label: string;
+
+  constructor(private files: File[]) {
+    const root = files[0]?.webkitRelativePath.split('/')[0];
+    this.label = `本地目录: ${root || '未命名'}`;
+  }
+
+  async listFiles(): Promise<SourceFile[]> {
+    const entries = this.files
+      .map(file => ({ path: file.webkitRelativePath || file.name, size: file.size, read: () => file.text() }))
+      .filter(entry => !entry.path.split('/').some(part => SKIPPED_DIRECTORIES.has(part)));
+    return stripCommonRoot(entries);
+  }
+}
+
+// 压缩包：.zip / .tar / .tar.gz / .tgz
+export class ArchiveSource implements ReviewSource {
+  readonly kind = 'archive' as const;
+  readonly ref = 'archive';
+  readonly label: string;
+
+  constructor(private file: File) {
+    this.label = `压缩包: ${file.name}`;
+  }
+
+  static isSupported(fileName: string): boolean {
+    return /\.(zip|tar|tar\.gz|tgz)$/i.test(fileName);
+  }
+
+  async listFiles(): Promise<SourceFile[]> {
+    const name = this.file.name.toLowerCase();
+    const buffer = await this.file.arrayBuffer();
+    let files: SourceFile[];
+    if (name.endsWith('.zip')) {
+      files = await this.readZip(buffer);
+    } else if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+      files = this.readTar(await this.gunzip(buffer));
+    } else if (name.endsWith('.tar')) {
+      files = this.readTar(new Uint8Array(buffer));
+    } else {
+      throw new Error('不支持的压缩包格式，仅支持 .zip / .tar / .tar.gz');
+    }
+    return stripCommonRoot(files.filter(f => !f.path.split('/').some(part => SKIPPED_DIRECTORIES.has(part))));
+  }
+
+  private async readZip(buffer: ArrayBuffer): Promise<SourceFile[]> {
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(buffer);
+    const files: SourceFile[] = [];
+    zip.forEach((path, entry) => {
+      if (entry.dir) return;
+      files.push({ path, read: () => entry.async('string') });
+    });
+    return files;
+  }
+
+  private async gunzip(buffer: ArrayBuffer): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('当前浏览器不支持解压 gzip，请改用 .zip');
+    }
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  // 解析 tar（ustar），支持 GNU 长文件名与 PAX path 扩展头
+  private readTar(data: Uint8Array): SourceFile[] {
+    const files: SourceFile[] = [];
+    const decoder = new TextDecoder('utf-8');
+    const readString = (start: number, length: number) => {
+      const bytes = data.subarray(start, start + length);
+      const end = bytes.indexOf(0);
+      return decoder.decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+    };
+
+    let offset = 0;
+    let pendingName: string | null = null;
+    while (offset + 512 <= data.length) {
+      const name = readString(offset, 100);
+      if (!name) break; // 连续空块表示结束
+      const size = parseInt(readString(offset + 124, 12).trim() || '0', 8);
+      const type = String.fromCharCode(data[offset + 156] || 48);
+      const prefix = readString(offset + 345, 155);
+      const bodyStart = offset + 512;
+      const body = data.subarray(bodyStart, bodyStart + size);
+
+      if (type === 'L') {
+        pendingName = decoder.decode(body).replace(/\0+$/, '');
+      } else if (type === 'x') {
+        const match = decoder.decode(body).match(/\d+ path=([^\n]*)\n/);
+        if (match) pendingName = match[1];
+      } else {
+        const path = pendingName || (prefix ? `${prefix}/${name}` : name);
+        pendingName = null;
+        if (type === '0' || type === '\0') {
+          const content = body.slice();
+          files.push({ path, size, read: async () => decoder.decode(content) });
+        }
+      }
+      offset = bodyStart + Math.ceil(size / 512) * 512;
+    }
+    return files;
+  }
+}
+
+// 演示模式使用的示例代码
+const DEMO_FILES: Array<{ path: string; content: string }> = [
+  {
+    path: 'src/main.js',
+    content: `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+
+const root = ReactDOM.createRoot(document.getElementById('root'));
+root.render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);`
+  },
+  {
+    path: 'src/components/Button.js',
+    content: `import React from 'react';
+
+const Button = ({ onClick, children, disabled = false }) => {
+  return (
+    <button 
+      onClick={onClick}
+      disabled={disabled}
+      className="btn btn-primary"
+    >
+  {children}
+    </button>
+  );
+};
+
+export default Button;`
+  },
+  {
+    path: 'src/utils/helpers.js',
+    content: `export const formatDate = (date) => {
+  return new Date(date).toLocaleDateString();
+};
+
+export const debounce = (func, wait) => {
+  let timeout;
+  return function executedFunction(...args) {
+    const later = () => {
+      clearTimeout(timeout);
+      func(...args);
+    };
+    clearTimeout(timeout);
+    timeout = setTimeout(later, wait);
+  };
+};`
+  }
+];
+
+// 演示数据（演示模式，显式开启）
+export class DemoSource implements ReviewSource {
+  readonly kind = 'demo' as const;
+  readonly label = '演示仓库';
+  readonly ref = 'demo';
+
+  async listFiles(): Promise<SourceFile[]> {
+    return DEMO_FILES.map(file => ({ path: file.path, size: file.content.length, read: async () => file.content }));
+  }
+}
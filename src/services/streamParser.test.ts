@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { IncrementalJsonArrayParser, readSseEvents } from './streamParser';
+
+// 按给定切分点把文本分段喂给解析器
+function feedInPieces(text: string, size: number): unknown[] {
+  const values: unknown[] = [];
+  const parser = new IncrementalJsonArrayParser(value => values.push(value));
+  for (let i = 0; i < text.length; i += size) parser.feed(text.slice(i, i + size));
+  return values;
+}
+
+describe('IncrementalJsonArrayParser', () => {
+  const output = '```json\n[{"line": 1, "message": "a [b] {c}"}, {"line": 2, "message": "say \\"}\\""}]\n```';
+
+  it('任意切分方式下，每个完整元素只回调一次', () => {
+    const expected = [{ line: 1, message: 'a [b] {c}' }, { line: 2, message: 'say "}"' }];
+    [1, 2, 5, 13, output.length].forEach(size => expect(feedInPieces(output, size)).toEqual(expected));
+  });
+
+  it('元素未完整前不回调，数组结束后忽略后续内容', () => {
+    const values: unknown[] = [];
+    const parser = new IncrementalJsonArrayParser(value => values.push(value));
+    parser.feed('[{"line": 1');
+    expect(values).toEqual([]);
+    parser.feed('}, {"line"');
+    expect(values).toEqual([{ line: 1 }]);
+    parser.feed(': 2}] [{"line": 3}]');
+    expect(values).toEqual([{ line: 1 }, { line: 2 }]);
+  });
+
+  it('跳过非法元素，不影响后续元素', () => {
+    expect(feedInPieces('[{"line": 1,}, {"line": 2}]', 4)).toEqual([{ line: 2 }]);
+  });
+});
+
+describe('readSseEvents', () => {
+  it('跨数据块拼接事件并解析 event 与多行 data', async () => {
+    const encoder = new TextEncoder();
+    const pieces = ['event: delta\ndata: {"a"', ':1}\r\n\r\ndata: line1\ndata: line2\n\n', 'data: [DONE]'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      }
+    });
+    const events: Array<[string, string | undefined]> = [];
+    await readSseEvents(new Response(body), (data, event) => events.push([data, event]));
+    expect(events).toEqual([['{"a":1}', 'delta'], ['line1\nline2', undefined], ['[DONE]', undefined]]);
+  });
+});
@@ -0,0 +1,101 @@
+// 逐个读取 SSE（text/event-stream）事件的 data 字段
+export async function readSseEvents(
+  response: Response,
+  onEvent: (data: string, event?: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    });
+    if (data.length > 0) onEvent(data.join('\n'), event);
+  };
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary >= 0) {
+        const separator = buffer.slice(boundary).match(/^\r?\n\r?\n/)?.[0].length || 2;
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + separator);
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) dispatch(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// 增量解析 JSON 数组：模型输出逐段到达时，每个顶层元素对象一旦完整即回调
+export class IncrementalJsonArrayParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+  private elementStart = -1;
+
+  constructor(private onElement: (value: unknown) => void) {}
+
+  feed(text: string): void {
+    if (this.finished) return;
+    this.buffer += text;
+    for (; this.position < this.buffer.length; this.position++) {
+      const c = this.buffer[this.position];
+      if (!this.started) {
+        // 跳过数组之前的说明文字或 ```json 标记
+        if (c === '[') {
+          this.started = true;
+          this.depth = 1;
+        }
+        continue;
+      }
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (c === '\\') this.escaped = true;
+        else if (c === '"') this.inString = false;
+        continue;
+      }
+      if (c === '"') {
+        this.inString = true;
+      } else if (c === '{' || c === '[') {
+        if (this.depth === 1 && c === '{') this.elementStart = this.position;
+        this.depth++;
+      } else if (c === '}' || c === ']') {
+        this.depth--;
+        if (this.depth === 1 && c === '}' && this.elementStart >= 0) {
+          this.emit(this.buffer.slice(this.elementStart, this.position + 1));
+          this.elementStart = -1;
+        } else if (this.depth === 0) {
+          // 数组结束，忽略其后的内容
+          this.finished = true;
+          break;
+        }
+      }
+    }
+  }
+
+  private emit(json: string): void {
+    try {
+      this.onElement(JSON.parse(json));
+    } catch {
+      // 不完整或非法的元素留给最终的整体解析处理
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeIssue } from './aiService';
+import { applyDirectives, isSuppressedByDirective, parseDirectives } from './suppressionDirectives';
+
+function makeIssue(line: number, category: CodeIssue['category'], rule?: string): CodeIssue {
+  return { line, type: 'warning', category, message: 'm', suggestion: '', code: '', context: [], rule };
+}
+
+describe('parseDirectives', () => {
+  it('识别四种指令、类别列表和说明文字', () => {
+    const content = [
+      '// ai-review-disable-next-line security, performance -- 已人工确认',
+      'eval(x); // ai-review-disable-line',
+      '/* ai-review-disable no-console */',
+      '// ai-review-enable'
+    ].join('\n');
+    expect(parseDirectives(content, 'typescript').map(({ line, kind, categories }) => ({ line, kind, categories }))).toEqual([
+      { line: 1, kind: 'next-line', categories: ['security', 'performance'] },
+      { line: 2, kind: 'line', categories: [] },
+      { line: 3, kind: 'disable', categories: ['no-console'] },
+      { line: 4, kind: 'enable', categories: [] }
+    ]);
+  });
+
+  it('按语言识别注释符号', () => {
+    const content = '# ai-review-disable-line\n// ai-review-disable-line';
+    expect(parseDirectives(content, 'python').map(directive => directive.line)).toEqual([1]);
+    expect(parseDirectives(content, 'javascript').map(directive => directive.line)).toEqual([2]);
+    // 未知语言两种都识别
+    expect(parseDirectives(content, 'unknown')).toHaveLength(2);
+  });
+
+  it('HTML 注释结束符不计入类别', () => {
+    const [directive] = parseDirectives('<!-- ai-review-disable-next-line style -->', 'vue');
+    expect(directive.categories).toEqual(['style']);
+  });
+
+  it('字符串和模板字符串中的指令文本不算指令', () => {
+    const content = [
+      'const a = "// ai-review-disable";',
+      "const b = '# ai-review-disable-line';",
+      'const c = `',
+      '  // ai-review-disable-next-line',
+      '`; // ai-review-disable-line security',
+      'const d = "a\\"b"; /* ai-review-disable-next-line */'
+    ].join('\n');
+    expect(parseDirectives(content, 'typescript').map(({ line, kind, categories }) => ({ line, kind, categories }))).toEqual([
+      { line: 5, kind: 'line', categories: ['security'] },
+      { line: 6, kind: 'next-line', categories: [] }
+    ]);
+  });
+
+  it('块注释内的内容不会被当作字符串', () => {
+    const content = "/* it's\n */ // ai-review-disable-line";
+    expect(parseDirectives(content, 'javascript').map(directive => directive.line)).toEqual([2]);
+  });
+
+  it('Python 三引号字符串可以跨行，Rust 生命周期不是字符串', () => {
+    const python = '"""\n# ai-review-disable\n"""\nx = 1  # ai-review-disable-line';
+    expect(parseDirectives(python, 'python').map(directive => directive.line)).toEqual([4]);
+    const rust = "fn f<'a>(x: &'a str) { // ai-review-disable-line";
+    expect(parseDirectives(rust, 'rust')).toHaveLength(1);
+  });
+
+  it('不是指令的注释不会被识别', () => {
+    expect(parseDirectives('// ai-review-disabled\nconst s = "ai-review-disable";', 'typescript')).toEqual([]);
+  });
+});
+
+describe('applyDirectives', () => {
+  it('next-line 和 line 只忽略对应行及对应类别', () => {
+    const directives = parseDirectives('// ai-review-disable-next-line security\neval(x);\nfoo(); // ai-review-disable-line', 'typescript');
+    const issues = [makeIssue(2, 'security'), makeIssue(2, 'performance'), makeIssue(3, 'readability')];
+    const { kept, suppressed, unused } = applyDirectives(issues, directives);
+    expect(kept).toEqual([issues[1]]);
+    expect(suppressed).toBe(2);
+    expect(unused).toEqual([]);
+  });
+
+  it('disable 区间持续到 enable 为止', () => {
+    const content = 'a\n// ai-review-disable\nb\n// ai-review-enable\nc';
+    const directives = parseDirectives(content, 'typescript');
+    expect(isSuppressedByDirective(directives, makeIssue(1, 'readability'))).toBe(false);
+    expect(isSuppressedByDirective(directives, makeIssue(3, 'readability'))).toBe(true);
+    expect(isSuppressedByDirective(directives, makeIssue(5, 'readability'))).toBe(false);
+  });
+
+  it('带类别的 enable 只关闭被其包含的 disable', () => {
+    const content = '// ai-review-disable security\n// ai-review-disable performance\n// ai-review-enable security\nx';
+    const directives = parseDirectives(content, 'typescript');
+    expect(isSuppressedByDirective(directives, makeIssue(4, 'security'))).toBe(false);
+    expect(isSuppressedByDirective(directives, makeIssue(4, 'performance'))).toBe(true);
+    // 不带类别的 disable 不会被带类别的 enable 关闭
+    const broad = parseDirectives('// ai-review-disable\n// ai-review-enable security\nx', 'typescript');
+    expect(isSuppressedByDirective(broad, makeIssue(3, 'security'))).toBe(true);
+  });
+
+  it('可以用规则 id 忽略基础检查问题', () => {
+    const directives = parseDirectives('// ai-review-disable-next-line no-console\nconsole.log(1);', 'typescript');
+    const { kept } = applyDirectives([makeIssue(2, 'best-practices', 'no-console'), makeIssue(2, 'best-practices')], directives);
+    expect(kept.map(issue => issue.rule)).toEqual([undefined]);
+  });
+
+  it('报告未抑制任何问题的指令，enable 不计入', () => {
+    const directives = parseDirectives('// ai-review-disable-next-line\nok();\n// ai-review-enable', 'typescript');
+    const { unused } = applyDirectives([], directives);
+    expect(unused.map(directive => directive.kind)).toEqual(['next-line']);
+  });
+});
@@ -0,0 +1,185 @@
+import type { CodeIssue } from './aiService';
+
+// 行内忽略指令，写法与 ESLint 的 disable 注释一致：
+//   ai-review-disable-next-line [类别...]  忽略下一行
+//   ai-review-disable-line [类别...]       忽略所在行
+//   ai-review-disable [类别...]            从所在行起忽略，直到 ai-review-enable；写在文件开头即整个文件
+//   ai-review-enable [类别...]
+// 不写类别表示所有类别，也可以写基础检查的规则 id；多个用空格或逗号分隔，"--" 之后为说明文字
+export type DirectiveKind = 'next-line' | 'line' | 'disable' | 'enable';
+
+export interface SuppressionDirective {
+  line: number;
+  kind: DirectiveKind;
+  // 类别或规则 id，为空表示所有类别
+  categories: string[];
+  text: string;
+}
+
+const LINE_COMMENT = ['//', '/*'];
+const HASH_COMMENT = ['#'];
+
+// 各语言可以出现指令的注释起始符
+const COMMENT_TOKENS: Record<string, string[]> = {
+  javascript: LINE_COMMENT,
+  typescript: LINE_COMMENT,
+  java: LINE_COMMENT,
+  kotlin: LINE_COMMENT,
+  c: LINE_COMMENT,
+  cpp: LINE_COMMENT,
+  csharp: LINE_COMMENT,
+  go: LINE_COMMENT,
+  rust: LINE_COMMENT,
+  swift: LINE_COMMENT,
+  python: HASH_COMMENT,
+  ruby: HASH_COMMENT,
+  php: [...LINE_COMMENT, ...HASH_COMMENT],
+  vue: [...LINE_COMMENT, '<!--'],
+  svelte: [...LINE_COMMENT, '<!--']
+};
+
+// 块注释的结束符；其余注释到行尾结束
+const BLOCK_END: Record<string, string> = { '/*': '*/', '<!--': '-->' };
+
+const SCRIPT_QUOTES = ['"', "'", '`'];
+
+// 各语言的字符串引号，引号内的注释符不算注释；反引号与三引号字符串可以跨行
+const STRING_QUOTES: Record<string, string[]> = {
+  javascript: SCRIPT_QUOTES,
+  typescript: SCRIPT_QUOTES,
+  vue: SCRIPT_QUOTES,
+  svelte: SCRIPT_QUOTES,
+  python: ['"""', "'''", '"', "'"],
+  go: SCRIPT_QUOTES,
+  kotlin: ['"""', '"', "'"],
+  // Rust 的生命周期标注以单引号开头，不作为字符串处理
+  rust: ['"']
+};
+
+const MULTILINE_QUOTES = ['`', '"""', "'''"];
+
+// 找出文件中的注释，返回每个注释的起始行与该行上注释符之后的内容
+function findComments(content: string, tokens: string[], quotes: string[]): Array<{ line: number; text: string }> {
+  const comments: Array<{ line: number; text: string }> = [];
+  let line = 1;
+  // 当前所在字符串的引号 / 块注释的结束符
+  let quote = '';
+  let blockEnd = '';
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') {
+      line++;
+      // 普通引号字符串不跨行，未闭合时在行尾结束
+      if (quote && !MULTILINE_QUOTES.includes(quote)) quote = '';
+      continue;
+    }
+    if (blockEnd) {
+      if (content.startsWith(blockEnd, i)) {
+        i += blockEnd.length - 1;
+        blockEnd = '';
+      }
+      continue;
+    }
+    if (quote) {
+      if (char === '\\' && content[i + 1] !== '\n') i++;
+      else if (content.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = '';
+      }
+      continue;
+    }
+    const opening = quotes.find(q => content.startsWith(q, i));
+    if (opening) {
+      quote = opening;
+      i += opening.length - 1;
+      continue;
+    }
+    const token = tokens.find(t => content.startsWith(t, i));
+    if (!token) continue;
+    const lineEnd = content.indexOf('\n', i);
+    comments.push({ line, text: content.slice(i + token.length, lineEnd === -1 ? content.length : lineEnd) });
+    if (BLOCK_END[token]) {
+      blockEnd = BLOCK_END[token];
+      i += token.length - 1;
+    } else {
+      i = (lineEnd === -1 ? content.length : lineEnd) - 1;
+    }
+  }
+  return comments;
+}
+
+const KINDS: Record<string, DirectiveKind> = {
+  'disable-next-line': 'next-line',
+  'disable-line': 'line',
+  disable: 'disable',
+  enable: 'enable'
+};
+
+// 解析文件中的忽略指令，只识别注释开头的指令（字符串中的同名文本不算）；未知语言按 // 与 # 两种注释识别
+export function parseDirectives(content: string, language: string): SuppressionDirective[] {
+  const tokens = COMMENT_TOKENS[language] || [...LINE_COMMENT, ...HASH_COMMENT];
+  const quotes = STRING_QUOTES[language] || ['"', "'"];
+  const lines = content.split('\n');
+  const directives: SuppressionDirective[] = [];
+  findComments(content, tokens, quotes).forEach(({ line, text }) => {
+    const match = text.match(/^\s*ai-review-(disable-next-line|disable-line|disable|enable)\b(.*)$/);
+    if (!match) return;
+    const args = match[2].replace(/(\*\/|-->).*$/, '').replace(/(^|\s)--(\s.*)?$/, '');
+    directives.push({
+      line,
+      kind: KINDS[match[1]],
+      categories: args.split(/[\s,]+/).filter(Boolean),
+      text: lines[line - 1].trim()
+    });
+  });
+  return directives;
+}
+
+function covers(directive: SuppressionDirective, issue: CodeIssue): boolean {
+  return directive.categories.length === 0 || directive.categories.includes(issue.category) ||
+    (!!issue.rule && directive.categories.includes(issue.rule));
+}
+
+// 找到抑制该问题的指令（多个时取第一个）
+function findSuppressing(directives: SuppressionDirective[], issue: CodeIssue): SuppressionDirective | undefined {
+  // disable 区间：按行顺序处理，不带类别的 enable 关闭全部，带类别的 enable 关闭类别被其包含的 disable
+  let open: SuppressionDirective[] = [];
+  for (const directive of directives) {
+    if (directive.line > issue.line) break;
+    if (directive.kind === 'disable') {
+      open.push(directive);
+    } else if (directive.kind === 'enable') {
+      open = open.filter(disable => directive.categories.length > 0 &&
+        !(disable.categories.length > 0 && disable.categories.every(category => directive.categories.includes(category))));
+    }
+  }
+  const inRange = open.find(directive => covers(directive, issue));
+  if (inRange) return inRange;
+  return directives.find(directive =>
+    ((directive.kind === 'next-line' && directive.line + 1 === issue.line) ||
+      (directive.kind === 'line' && directive.line === issue.line)) &&
+    covers(directive, issue));
+}
+
+export function isSuppressedByDirective(directives: SuppressionDirective[], issue: CodeIssue): boolean {
+  return directives.length > 0 && !!findSuppressing(directives, issue);
+}
+
+// 去掉被指令忽略的问题，并返回未抑制任何问题的指令
+export function applyDirectives(
+  issues: CodeIssue[],
+  directives: SuppressionDirective[]
+): { kept: CodeIssue[]; suppressed: number; unused: SuppressionDirective[] } {
+  if (directives.length === 0) return { kept: issues, suppressed: 0, unused: [] };
+  const used = new Set<SuppressionDirective>();
+  const kept = issues.filter(issue => {
+    const directive = findSuppressing(directives, issue);
+    if (directive) used.add(directive);
+    return !directive;
+  });
+  return {
+    kept,
+    suppressed: issues.length - kept.length,
+    unused: directives.filter(directive => directive.kind !== 'enable' && !used.has(directive))
+  };
+}
@@ -0,0 +1,155 @@
+// 持久化数据结构（均为 Base64）
+interface PersistedTokens {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const STORAGE_KEY = 'ai-code-review:git-tokens';
+const PBKDF2_ITERATIONS = 150000;
+
+// 按主机保存的访问令牌（Personal Access Token）
+export class TokenService {
+  private static instance: TokenService;
+  private tokens: Map<string, string> = new Map();
+  private persistKey: CryptoKey | null = null;
+  private persistSalt: Uint8Array | null = null;
+
+  public static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  // 设置令牌；已开启加密保存时同步写入本地
+  async setToken(host: string, token: string): Promise<void> {
+    const key = this.normalizeHost(host);
+    if (!key) return;
+    if (token.trim()) {
+      this.tokens.set(key, token.trim());
+    } else {
+      this.tokens.delete(key);
+    }
+    await this.save();
+  }
+
+  getToken(host: string): string | undefined {
+    return this.tokens.get(this.normalizeHost(host));
+  }
+
+  async removeToken(host: string): Promise<void> {
+    this.tokens.delete(this.normalizeHost(host));
+    await this.save();
+  }
+
+  listHosts(): string[] {
+    return Array.from(this.tokens.keys()).sort();
+  }
+
+  // 本地是否存在已加密保存的令牌
+  hasPersistedTokens(): boolean {
+    return !!localStorage.getItem(STORAGE_KEY);
+  }
+
+  isPersistenceEnabled(): boolean {
+    return !!this.persistKey;
+  }
+
+  // 开启加密保存：使用口令派生 AES-GCM 密钥，将当前令牌加密写入 localStorage
+  async enablePersistence(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error('请输入加密口令');
+    }
+    this.persistSalt = crypto.getRandomValues(new Uint8Array(16));
+    this.persistKey = await this.deriveKey(passphrase, this.persistSalt);
+    await this.save();
+  }
+
+  // 使用口令解锁本地已保存的令牌，并与内存中的令牌合并
+  async unlock(passphrase: string): Promise<string[]> {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    const persisted = JSON.parse(raw) as PersistedTokens;
+    const salt = this.fromBase64(persisted.salt);
+    const key = await this.deriveKey(passphrase, salt);
+    let stored: Record<string, string>;
+    try {
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(persisted.iv) },
+        key,
+        this.fromBase64(persisted.data)
+      );
+      stored = JSON.parse(new TextDecoder().decode(plain));
+    } catch {
+      throw new Error('口令错误或数据已损坏');
+    }
+
+    Object.entries(stored).forEach(([host, token]) => {
+      if (!this.tokens.has(host)) this.tokens.set(host, token);
+    });
+    this.persistKey = key;
+    this.persistSalt = salt;
+    await this.save();
+    return Object.keys(stored);
+  }
+
+  // 关闭加密保存并清除本地数据（内存中的令牌保留）
+  disablePersistence(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    this.persistKey = null;
+    this.persistSalt = null;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persistKey || !this.persistSalt) return;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plain = new TextEncoder().encode(JSON.stringify(Object.fromEntries(this.tokens)));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.persistKey, plain);
+    const persisted: PersistedTokens = {
+      salt: this.toBase64(this.persistSalt),
+      iv: this.toBase64(iv),
+      data: this.toBase64(new Uint8Array(cipher))
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private normalizeHost(host: string): string {
+    return host.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+  }
+
+  private fromBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
+
+export default TokenService;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { AIModel } from './aiProviders';
+import { addUsage, emptyUsage, estimateTokens, isBudgetEnforceable, measureUsage } from './tokenUsage';
+
+function makeModel(providerId: string, id: string): AIModel {
+  return { id, name: id, provider: providerId, providerId, description: '', maxTokens: 8192, supported: true };
+}
+
+describe('estimateTokens', () => {
+  it('中日韩字符按 1 token/字，其余按 4 字符/token', () => {
+    expect(estimateTokens('代码审查')).toBe(4);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('审查abc')).toBe(3);
+  });
+});
+
+describe('measureUsage', () => {
+  it('按模型价格计算费用，未返回用量时按文本估算', () => {
+    const usage = measureUsage(makeModel('deepseek', 'deepseek-chat'), { promptTokens: 1_000_000 }, '', 'abcd');
+    expect(usage.completionTokens).toBe(1);
+    expect(usage.cost).toBeCloseTo(0.27 + 1.1 / 1e6);
+    expect(usage).toMatchObject({ estimated: true, unpriced: false });
+  });
+
+  it('未配置价格的模型费用为 0 并标记 unpriced', () => {
+    const usage = measureUsage(makeModel('custom:x', 'm'), { promptTokens: 10, completionTokens: 10 }, '', '');
+    expect(usage).toMatchObject({ cost: 0, unpriced: true, estimated: false });
+    expect(addUsage(emptyUsage(), usage).unpriced).toBe(true);
+  });
+});
+
+describe('isBudgetEnforceable', () => {
+  it('只有配置了价格的计费模型可以按费用上限停止', () => {
+    expect(isBudgetEnforceable(makeModel('openai', 'gpt-4'))).toBe(true);
+    expect(isBudgetEnforceable(makeModel('custom:x', 'm'))).toBe(false);
+    expect(isBudgetEnforceable(makeModel('local', 'llama3'))).toBe(false);
+  });
+});
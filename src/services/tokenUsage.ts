@@ -0,0 +1,90 @@
+import type { AIModel } from './aiProviders';
+
+// token 用量与费用，可为单次请求、单个文件或整次审查的累计
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // 费用（美元）；未配置价格的模型按 0 计
+  cost: number;
+  requests: number;
+  // 部分请求未返回 usage，按本地估算计入
+  estimated: boolean;
+  // 部分请求的模型未配置价格
+  unpriced: boolean;
+}
+
+// 美元 / 百万 token
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 按 providerId:modelId 索引的公开价格，供应商调价时需同步更新
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'deepseek:deepseek-chat': { input: 0.27, output: 1.1 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4': { input: 30, output: 60 },
+  'anthropic:claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'moonshot:kimi-k2': { input: 0.6, output: 2.5 },
+  'doubao:doubao-pro': { input: 0.11, output: 0.28 }
+};
+
+const CJK = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+// 本地估算：中日韩字符约 1 token/字，其余约 4 字符/token
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(CJK) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+// 本地模型不计费；自定义端点无价格
+export function getModelPrice(model: AIModel): ModelPrice | undefined {
+  if (model.providerId === 'local') return { input: 0, output: 0 };
+  return MODEL_PRICES[`${model.providerId}:${model.id}`];
+}
+
+// 费用上限只对有价格的计费模型有效：本地模型不计费，未配置价格的模型按 0 计，都无法触发上限
+export function isBudgetEnforceable(model: AIModel): boolean {
+  const price = getModelPrice(model);
+  return !!price && (price.input > 0 || price.output > 0);
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, cost: 0, requests: 0, estimated: false, unpriced: false };
+}
+
+// 单次请求的用量；未返回的字段按文本估算
+export function measureUsage(
+  model: AIModel,
+  reported: { promptTokens?: number; completionTokens?: number },
+  prompt: string,
+  completion: string
+): TokenUsage {
+  const promptTokens = reported.promptTokens ?? estimateTokens(prompt);
+  const completionTokens = reported.completionTokens ?? estimateTokens(completion);
+  const price = getModelPrice(model);
+  return {
+    promptTokens,
+    completionTokens,
+    cost: price ? (promptTokens * price.input + completionTokens * price.output) / 1e6 : 0,
+    requests: 1,
+    estimated: reported.promptTokens === undefined || reported.completionTokens === undefined,
+    unpriced: !price
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage | undefined): TokenUsage {
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+    requests: a.requests + b.requests,
+    estimated: a.estimated || b.estimated,
+    unpriced: a.unpriced || b.unpriced
+  };
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CodeIssue, CodeReview } from './aiService';
+import { issueFingerprint } from './issueTracking';
+import TriageService, { applyTriage } from './triageService';
+
+// 测试环境没有 IndexedDB，用内存中的对象仓库代替
+const records = new Map<string, { repository: string; fingerprint: string }>();
+vi.mock('./indexedDb', () => ({
+  STORES: { triage: 'issue-triage' },
+  runInStore: async (_store: string, _mode: string, run: (store: unknown) => { result: unknown }) => run({
+    index: () => ({ getAll: (repository: string) => ({ result: [...records.values()].filter(r => r.repository === repository) }) }),
+    put: (record: { repository: string; fingerprint: string }) => {
+      records.set(`${record.repository}\u0000${record.fingerprint}`, record);
+      return { result: undefined };
+    },
+    delete: ([repository, fingerprint]: string[]) => {
+      records.delete(`${repository}\u0000${fingerprint}`);
+      return { result: undefined };
+    }
+  }).result
+}));
+
+const issue: CodeIssue = { line: 3, type: 'warning', category: 'security', message: 'Use of eval', suggestion: '', code: 'eval(x)', context: [] };
+const triage = { state: 'false-positive' as const, reason: '输入已校验', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+describe('TriageService', () => {
+  const service = TriageService.getInstance();
+
+  beforeEach(() => records.clear());
+
+  it('同一仓库的不同地址写法共用分诊记录', async () => {
+    await service.set('https://github.com/Acme/App', 'a.ts', issue, triage);
+    for (const url of ['https://github.com/acme/app.git', 'https://github.com/Acme/App/', 'git@github.com:Acme/App.git']) {
+      const triages = await service.getForRepository(url);
+      expect([...triages.values()]).toEqual([triage]);
+    }
+    expect((await service.getForRepository('https://github.com/acme/other')).size).toBe(0);
+  });
+
+  it('用其他地址写法也能删除记录', async () => {
+    await service.set('git@github.com:acme/app.git', 'a.ts', issue, triage);
+    await service.remove('https://github.com/acme/app', 'a.ts', issue);
+    expect(records.size).toBe(0);
+  });
+});
+
+describe('applyTriage', () => {
+  const review: CodeReview = { file: 'a.ts', issues: [issue, { ...issue, message: 'other' }], summary: '' };
+
+  beforeEach(() => records.clear());
+
+  it('按指纹隐藏被忽略的问题', async () => {
+    const service = TriageService.getInstance();
+    await service.set('https://github.com/acme/app', 'a.ts', issue, triage);
+    const result = applyTriage(review, await service.getForRepository('https://github.com/acme/app'), 'hide');
+    expect(result.issues.map(item => item.message)).toEqual(['other']);
+    expect(result.suppressedIssues).toMatchObject([{ message: 'Use of eval', triage }]);
+  });
+
+  it('降级模式下改为 info 并保留在列表中', () => {
+    const triages = new Map([[issueFingerprint('a.ts', issue), triage]]);
+    const result = applyTriage(review, triages, 'downgrade');
+    expect(result.issues.map(item => [item.message, item.type])).toEqual([['Use of eval', 'info'], ['other', 'warning']]);
+    expect(result.suppressedIssues).toBeUndefined();
+  });
+});
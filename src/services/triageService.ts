@@ -0,0 +1,91 @@
+import GitService from './gitService';
+import { STORES, runInStore } from './indexedDb';
+import { issueFingerprint } from './issueTracking';
+import type { CodeIssue, CodeReview } from './aiService';
+
+export type TriageState = 'accepted' | 'wont-fix' | 'false-positive';
+
+export interface IssueTriage {
+  state: TriageState;
+  reason: string;
+  // ISO 时间，导出为 JSON 后保持不变
+  updatedAt: string;
+}
+
+// 已忽略的问题在后续审查中的处理方式
+export type SuppressionMode = 'hide' | 'downgrade';
+
+export const TRIAGE_STATE_LABELS: Record<TriageState, string> = {
+  accepted: '已接受',
+  'wont-fix': '不修复',
+  'false-positive': '误报'
+};
+
+// 按仓库与问题指纹持久化的分诊记录
+interface TriageRecord extends IssueTriage {
+  repository: string;
+  fingerprint: string;
+  file: string;
+  message: string;
+}
+
+// 不修复与误报视为忽略，后续审查中隐藏或降级
+export function isSuppressed(triage?: IssueTriage): boolean {
+  return triage?.state === 'wont-fix' || triage?.state === 'false-positive';
+}
+
+// 按指纹为文件的问题附加分诊状态；被忽略的问题移入 suppressedIssues 或降级为 info
+export function applyTriage(review: CodeReview, triages: Map<string, IssueTriage>, mode: SuppressionMode): CodeReview {
+  const issues: CodeIssue[] = [];
+  const suppressed: CodeIssue[] = [];
+  [...review.issues, ...(review.suppressedIssues || [])].forEach(issue => {
+    const triage = triages.get(issueFingerprint(review.file, issue));
+    const marked = { ...issue, triage };
+    if (!isSuppressed(triage)) {
+      issues.push(marked);
+    } else if (mode === 'downgrade') {
+      issues.push(issue.type === 'error' || issue.type === 'warning' ? { ...marked, type: 'info' } : marked);
+    } else {
+      suppressed.push(marked);
+    }
+  });
+  return { ...review, issues, suppressedIssues: suppressed.length > 0 ? suppressed : undefined };
+}
+
+// 问题分诊状态（IndexedDB），按仓库与问题指纹存储，后续审查据此自动忽略
+// 仓库按规范化地址存储，同一仓库换用 .git 后缀、末尾斜杠或 SSH 写法时仍能找到记录
+export class TriageService {
+  private static instance: TriageService;
+
+  public static getInstance(): TriageService {
+    if (!TriageService.instance) {
+      TriageService.instance = new TriageService();
+    }
+    return TriageService.instance;
+  }
+
+  // 指纹 -> 分诊状态
+  async getForRepository(repository: string): Promise<Map<string, IssueTriage>> {
+    const key = GitService.getInstance().getRepositoryKey(repository);
+    const records = await runInStore<TriageRecord[]>(STORES.triage, 'readonly', store => store.index('repository').getAll(key));
+    return new Map(records.map(({ fingerprint, state, reason, updatedAt }) => [fingerprint, { state, reason, updatedAt }] as const));
+  }
+
+  async set(repository: string, file: string, issue: CodeIssue, triage: IssueTriage): Promise<void> {
+    const record: TriageRecord = {
+      ...triage,
+      repository: GitService.getInstance().getRepositoryKey(repository),
+      fingerprint: issueFingerprint(file, issue),
+      file,
+      message: issue.message
+    };
+    await runInStore(STORES.triage, 'readwrite', store => store.put(record));
+  }
+
+  async remove(repository: string, file: string, issue: CodeIssue): Promise<void> {
+    const key = GitService.getInstance().getRepositoryKey(repository);
+    await runInStore(STORES.triage, 'readwrite', store => store.delete([key, issueFingerprint(file, issue)]));
+  }
+}
+
+export default TriageService;